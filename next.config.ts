@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Repository archives are uploaded through a server action.
+      bodySizeLimit: '50mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
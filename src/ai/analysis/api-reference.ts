@@ -0,0 +1,109 @@
+/**
+ * @fileOverview The public API reference of a library.
+ *
+ * Language-specific extractors (see ts-api.ts, python-api.ts, go-api.ts and
+ * rust-api.ts) find a package's entry modules
+ * and the symbols they export, with their signatures and doc comments. The
+ * reference is rendered to Markdown here, deterministically, so the README's
+ * API Reference section matches the source exactly; the model only writes
+ * the summary around it.
+ *
+ * - ApiMemberSchema - The Zod schema for a member of a class or interface.
+ * - ApiSymbolSchema - The Zod schema for an exported symbol.
+ * - ApiModuleSchema - The Zod schema for an entry module and its exports.
+ * - ApiModule - The TypeScript type for an entry module and its exports.
+ * - ApiReferenceSchema - The Zod schema for the API reference handed to the model.
+ * - ApiReference - The TypeScript type for the API reference handed to the model.
+ * - renderApiReference - Renders entry modules as a Markdown API reference.
+ * - collectApiReference - Extracts and renders the API reference of a repository.
+ */
+
+import {z} from 'zod';
+import {collectGoApi} from './go-api';
+import {collectPythonApi} from './python-api';
+import {collectRustApi} from './rust-api';
+import {collectTypeScriptApi} from './ts-api';
+import type {ReadRepoFile} from './types';
+
+export const ApiMemberSchema = z.object({
+  name: z.string(),
+  signature: z.string(),
+  doc: z.string().optional(),
+});
+
+export const ApiSymbolSchema = z.object({
+  name: z.string().describe('The name the symbol is exported as.'),
+  kind: z.string().describe('e.g. function, class, interface, type, enum, variable or namespace.'),
+  signature: z.string().describe('The declaration without its body.'),
+  doc: z.string().optional().describe('The doc comment of the declaration.'),
+  members: z.array(ApiMemberSchema).describe('Public members of classes and interfaces.'),
+});
+
+export type ApiSymbol = z.infer<typeof ApiSymbolSchema>;
+
+export const ApiModuleSchema = z.object({
+  language: z.string().describe('The language of the module, which is also its code block language.'),
+  name: z.string().describe('What users import the module as, e.g. a package name or subpath.'),
+  file: z.string().describe('The source file the module was extracted from.'),
+  symbols: z.array(ApiSymbolSchema),
+});
+
+export type ApiModule = z.infer<typeof ApiModuleSchema>;
+
+export const ApiReferenceSchema = z.object({
+  modules: z.array(z.object({
+    name: z.string(),
+    file: z.string(),
+    language: z.string(),
+    symbols: z.array(z.string()).describe('The names of the exported symbols.'),
+  })),
+  markdown: z.string().describe('The rendered API Reference section, or an empty string if no public API was found.'),
+});
+
+export type ApiReference = z.infer<typeof ApiReferenceSchema>;
+
+function firstLine(text: string): string {
+  return text.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim();
+}
+
+/** Python nests members by indentation; the other languages use braces. */
+function withMembers(symbol: ApiSymbol, language: string): string {
+  if (symbol.members.length === 0) return symbol.signature;
+  const indent = language === 'python' ? '    ' : '  ';
+  // Member signatures may span lines, e.g. below decorators.
+  const members = symbol.members.map(member => member.signature.split('\n').map(line => indent + line).join('\n')).join('\n');
+  return language === 'python' ? `${symbol.signature}:\n${members}` : `${symbol.signature} {\n${members}\n}`;
+}
+
+function renderSymbol(symbol: ApiSymbol, language: string): string {
+  const code = withMembers(symbol, language);
+  const parts = [`#### \`${symbol.name}\``, `\`\`\`${language}\n${code}\n\`\`\``];
+  if (symbol.doc) parts.push(symbol.doc);
+  const memberDocs = symbol.members.filter(member => member.doc).map(member => `- \`${member.name}\`: ${firstLine(member.doc!)}`);
+  if (memberDocs.length) parts.push(memberDocs.join('\n'));
+  return parts.join('\n\n');
+}
+
+export function renderApiReference(modules: ApiModule[]): string {
+  const documented = modules.filter(module => module.symbols.length > 0);
+  if (documented.length === 0) return '';
+  const sections = documented.map(module => {
+    const symbols = module.symbols.map(symbol => renderSymbol(symbol, module.language)).join('\n\n');
+    // A single module needs no heading of its own; the section is about it.
+    return documented.length > 1 ? `### \`${module.name}\`\n\n${symbols}` : symbols;
+  });
+  return `## API Reference\n\n${sections.join('\n\n')}\n`;
+}
+
+export async function collectApiReference(tree: string[], readFile: ReadRepoFile): Promise<ApiReference> {
+  const modules = (await Promise.all([
+    collectTypeScriptApi(tree, readFile),
+    collectPythonApi(tree, readFile),
+    collectGoApi(tree, readFile),
+    collectRustApi(tree, readFile),
+  ])).flat();
+  return {
+    modules: modules.map(({ name, file, language, symbols }) => ({ name, file, language, symbols: symbols.map(symbol => symbol.name) })),
+    markdown: renderApiReference(modules),
+  };
+}
@@ -0,0 +1,415 @@
+/**
+ * @fileOverview Structured analysis of CI configuration.
+ *
+ * CI configs are the most reliable record of how a project is actually built
+ * and tested. Each supported config is reduced to its workflows, jobs, the
+ * commands those jobs run and the runtime versions they are run against. The
+ * commands are classified into test, lint and build commands for the
+ * "Running tests" section, and status badges are derived for the systems
+ * whose badge URLs follow from the repository alone.
+ *
+ * Supported: GitHub Actions (.github/workflows/*.yml), GitLab CI
+ * (.gitlab-ci.yml), CircleCI (.circleci/config.yml), Travis CI (.travis.yml),
+ * Azure Pipelines (azure-pipelines.yml), Bitbucket Pipelines
+ * (bitbucket-pipelines.yml) and Jenkins (Jenkinsfile).
+ *
+ * - CiConfigSchema - The Zod schema for the facts of a single CI config.
+ * - CiConfig - The TypeScript type for the facts of a single CI config.
+ * - CiFactsSchema - The Zod schema for the CI facts of a whole repository.
+ * - CiFacts - The TypeScript type for the CI facts of a whole repository.
+ * - BadgeTarget - Where a repository is hosted, for building badge URLs.
+ * - isCiConfig - Checks whether a path names a supported CI config.
+ * - parseCiConfig - Parses a single CI config into its facts.
+ * - collectCiFacts - Finds, reads and parses the CI configs of a repository.
+ */
+
+import path from 'node:path';
+import {parseDocument} from 'yaml';
+import {z} from 'zod';
+import type {RepoProviderId} from '@/ai/flows/readme.types';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import {YAML_OPTIONS, type ReadRepoFile, type YamlValue} from './types';
+
+const CiJobSchema = z.object({
+  name: z.string(),
+  commands: z.array(z.string()).describe('The shell commands the job runs, in order.'),
+});
+
+const CiMatrixSchema = z.object({
+  name: z.string().describe('The matrix dimension or runtime, e.g. "node", "python", "os" or "image".'),
+  values: z.array(z.string()),
+});
+
+export const CiConfigSchema = z.object({
+  file: z.string().describe('The path of the CI config file.'),
+  system: z.string().describe('The CI system, e.g. github-actions, gitlab-ci, circleci, travis-ci, azure-pipelines, bitbucket-pipelines or jenkins.'),
+  name: z.string().optional(),
+  triggers: z.array(z.string()).describe('The events or branches that start the pipeline.'),
+  jobs: z.array(CiJobSchema),
+  matrix: z.array(CiMatrixSchema).describe('Runtime versions, operating systems and images the jobs run against.'),
+});
+
+export type CiConfig = z.infer<typeof CiConfigSchema>;
+
+export const CiFactsSchema = z.object({
+  configs: z.array(CiConfigSchema),
+  testCommands: z.array(z.string()).describe('Commands CI runs to test the project.'),
+  lintCommands: z.array(z.string()).describe('Commands CI runs to lint, format-check or type-check the project.'),
+  buildCommands: z.array(z.string()).describe('Commands CI runs to build or package the project.'),
+  badges: z.array(z.object({
+    label: z.string(),
+    imageUrl: z.string(),
+    linkUrl: z.string(),
+  })).describe('Status badges for the CI systems in use.'),
+});
+
+export type CiFacts = z.infer<typeof CiFactsSchema>;
+
+export interface BadgeTarget {
+  provider: RepoProviderId;
+  apiBaseUrl: string;
+  owner: string;
+  repo: string;
+  /** The branch the badges report on; badges cannot track a tag or commit SHA. */
+  branch: string;
+}
+
+const MAX_CI_CONFIGS = 10;
+const MAX_JOBS = 20;
+const MAX_COMMANDS_PER_JOB = 20;
+const MAX_CLASSIFIED_COMMANDS = 15;
+const MAX_COMMAND_LENGTH = 200;
+
+const CI_FILES: Record<string, string> = {
+  '.gitlab-ci.yml': 'gitlab-ci',
+  '.circleci/config.yml': 'circleci',
+  '.travis.yml': 'travis-ci',
+  'azure-pipelines.yml': 'azure-pipelines',
+  'bitbucket-pipelines.yml': 'bitbucket-pipelines',
+  'Jenkinsfile': 'jenkins',
+};
+
+function ciSystem(filePath: string): string | undefined {
+  if (/^\.github\/workflows\/[^/]+\.ya?ml$/.test(filePath)) return 'github-actions';
+  return CI_FILES[filePath];
+}
+
+export function isCiConfig(filePath: string): boolean {
+  return ciSystem(filePath) !== undefined;
+}
+
+type YamlMap = { [key: string]: YamlValue };
+
+function asMap(value: YamlValue | undefined): YamlMap {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+function asList(value: YamlValue | undefined): YamlValue[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: YamlValue | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Splits scripts into single commands, dropping comments and blank lines. */
+function commandLines(scripts: YamlValue[]): string[] {
+  return scripts
+    .flatMap(script => typeof script === 'string' ? script.split('\n') : [])
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => line.length > MAX_COMMAND_LENGTH ? `${line.slice(0, MAX_COMMAND_LENGTH)}…` : line)
+    .slice(0, MAX_COMMANDS_PER_JOB);
+}
+
+function addMatrix(matrix: CiConfig['matrix'], name: string, values: YamlValue[]) {
+  // Values computed from expressions say nothing about the versions in use.
+  const texts = values.map(value => typeof value === 'string' ? value : value === null ? '' : JSON.stringify(value))
+    .filter(value => value && !value.includes('${{') && !value.includes('<<'));
+  if (texts.length === 0) return;
+  const existing = matrix.find(entry => entry.name === name);
+  if (existing) existing.values = [...new Set([...existing.values, ...texts])];
+  else matrix.push({ name, values: [...new Set(texts)] });
+}
+
+function emptyConfig(file: string, system: string): CiConfig {
+  return { file, system, triggers: [], jobs: [], matrix: [] };
+}
+
+function parseGitHubActions(file: string, content: string): CiConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'github-actions');
+  config.name = asText(data.name);
+  const on = data.on;
+  config.triggers = typeof on === 'string' ? [on] : Array.isArray(on) ? on.map(String) : Object.keys(asMap(on));
+
+  for (const [id, jobValue] of Object.entries(asMap(data.jobs))) {
+    const job = asMap(jobValue);
+    const name = asText(job.name);
+    const steps = asList(job.steps).map(asMap);
+    config.jobs.push({ name: name && !name.includes('${{') ? name : id, commands: commandLines(steps.map(step => step.run)) });
+
+    const strategyMatrix = asMap(asMap(job.strategy).matrix);
+    for (const [key, values] of Object.entries(strategyMatrix)) {
+      if (key !== 'include' && key !== 'exclude') addMatrix(config.matrix, key, asList(values));
+    }
+    for (const include of asList(strategyMatrix.include).map(asMap)) {
+      for (const [key, value] of Object.entries(include)) addMatrix(config.matrix, key, [value]);
+    }
+    // Setup actions such as actions/setup-node pin runtime versions outside of a matrix.
+    for (const step of steps) {
+      const runtime = asText(step.uses)?.match(/setup-([a-z]+)@/)?.[1];
+      if (!runtime) continue;
+      for (const [key, value] of Object.entries(asMap(step.with))) {
+        if (key.endsWith('-version')) addMatrix(config.matrix, runtime, asList(value));
+      }
+    }
+  }
+  return config;
+}
+
+const GITLAB_RESERVED_KEYS = new Set([
+  'default', 'include', 'stages', 'variables', 'workflow', 'image', 'services', 'cache', 'before_script', 'after_script',
+]);
+
+function parseGitLabCi(file: string, content: string): CiConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'gitlab-ci');
+  const defaults = { ...data, ...asMap(data.default) };
+  config.triggers = asList(asMap(data.workflow).rules).map(rule => asText(asMap(rule).if)).filter((rule): rule is string => !!rule);
+
+  // Hidden jobs (".name") are templates that real jobs pull in through `extends`.
+  const resolve = (job: YamlMap, depth = 0): YamlMap => {
+    if (depth > 5) return job;
+    const parents = asList(job.extends).map(parent => resolve(asMap(data[String(parent)]), depth + 1));
+    return Object.assign({}, ...parents, job);
+  };
+
+  for (const [id, jobValue] of Object.entries(data)) {
+    if (id.startsWith('.') || GITLAB_RESERVED_KEYS.has(id)) continue;
+    const job = resolve(asMap(jobValue));
+    if (job.script === undefined && job.trigger === undefined) continue;
+    const beforeScript = job.before_script ?? defaults.before_script;
+    config.jobs.push({ name: id, commands: commandLines([...asList(beforeScript), ...asList(job.script)]) });
+
+    const image = job.image ?? defaults.image;
+    addMatrix(config.matrix, 'image', [asText(image) ?? asMap(image).name ?? null]);
+    for (const entry of asList(asMap(job.parallel).matrix).map(asMap)) {
+      for (const [key, values] of Object.entries(entry)) addMatrix(config.matrix, key, asList(values));
+    }
+  }
+  return config;
+}
+
+function parseCircleCi(file: string, content: string): CiConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'circleci');
+  config.triggers = Object.keys(asMap(data.workflows)).filter(name => name !== 'version');
+
+  for (const [id, jobValue] of Object.entries(asMap(data.jobs))) {
+    const job = asMap(jobValue);
+    const runs = asList(job.steps).map(step => {
+      const run = asMap(step).run;
+      return typeof run === 'string' ? run : asMap(run).command ?? null;
+    });
+    config.jobs.push({ name: id, commands: commandLines(runs) });
+    for (const docker of asList(job.docker).map(asMap)) addMatrix(config.matrix, 'image', [docker.image ?? null]);
+  }
+  for (const workflow of Object.values(asMap(data.workflows))) {
+    for (const entry of asList(asMap(workflow).jobs)) {
+      for (const job of Object.values(asMap(entry))) {
+        for (const [key, values] of Object.entries(asMap(asMap(asMap(job).matrix).parameters))) {
+          addMatrix(config.matrix, key, asList(values));
+        }
+      }
+    }
+  }
+  return config;
+}
+
+const TRAVIS_RUNTIMES: Record<string, string> = {
+  node_js: 'node', python: 'python', go: 'go', rust: 'rust', jdk: 'java', ruby: 'ruby', rvm: 'ruby', php: 'php', dart: 'dart', os: 'os',
+};
+
+function parseTravisCi(file: string, content: string): CiConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'travis-ci');
+  config.triggers = asList(asMap(data.branches).only).map(String);
+  config.jobs.push({
+    name: asText(data.language) ?? 'build',
+    commands: commandLines(['before_install', 'install', 'before_script', 'script'].flatMap(phase => asList(data[phase]))),
+  });
+  for (const [key, name] of Object.entries(TRAVIS_RUNTIMES)) addMatrix(config.matrix, name, asList(data[key]));
+  return config;
+}
+
+function parseAzurePipelines(file: string, content: string): CiConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'azure-pipelines');
+  const trigger = data.trigger;
+  config.triggers = Array.isArray(trigger) ? trigger.map(String) : asList(asMap(asMap(trigger).branches).include).map(String);
+
+  const stepCommands = (steps: YamlValue | undefined) => commandLines(asList(steps).map(step => {
+    const map = asMap(step);
+    return map.script ?? map.bash ?? map.pwsh ?? map.powershell ?? null;
+  }));
+  const jobs = [...asList(data.jobs), ...asList(data.stages).flatMap(stage => asList(asMap(stage).jobs))].map(asMap);
+  for (const job of jobs) {
+    config.jobs.push({ name: asText(job.displayName) ?? asText(job.job) ?? 'job', commands: stepCommands(job.steps) });
+    for (const variables of Object.values(asMap(asMap(job.strategy).matrix))) {
+      for (const [key, value] of Object.entries(asMap(variables))) addMatrix(config.matrix, key, [value]);
+    }
+  }
+  if (data.steps) config.jobs.push({ name: 'pipeline', commands: stepCommands(data.steps) });
+  addMatrix(config.matrix, 'image', [asMap(data.pool).vmImage ?? null]);
+  return config;
+}
+
+function parseBitbucketPipelines(file: string, content: string): CiConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'bitbucket-pipelines');
+  const pipelines = asMap(data.pipelines);
+  addMatrix(config.matrix, 'image', [asText(data.image) ?? asMap(data.image).name ?? null]);
+
+  const addSteps = (trigger: string, items: YamlValue | undefined) => {
+    for (const item of asList(items).map(asMap)) {
+      const steps = item.step ? [item.step] : asList(asMap(item.parallel).steps ?? item.parallel).map(entry => asMap(entry).step);
+      for (const step of steps.map(asMap)) {
+        config.jobs.push({ name: asText(step.name) ?? trigger, commands: commandLines(asList(step.script)) });
+        addMatrix(config.matrix, 'image', [asText(step.image) ?? null]);
+      }
+    }
+  };
+  for (const [trigger, value] of Object.entries(pipelines)) {
+    if (trigger === 'default') {
+      config.triggers.push('default');
+      addSteps(trigger, value);
+    } else {
+      for (const [pattern, items] of Object.entries(asMap(value))) {
+        config.triggers.push(`${trigger}: ${pattern}`);
+        addSteps(`${trigger}: ${pattern}`, items);
+      }
+    }
+  }
+  return config;
+}
+
+/** Reads stages and their `sh`/`bat` steps from a declarative or scripted Jenkinsfile. */
+function parseJenkinsfile(file: string, content: string): CiConfig {
+  const config = emptyConfig(file, 'jenkins');
+  const stages = [...content.matchAll(/stage\s*\(\s*['"]([^'"]+)['"]\s*\)/g)];
+  const commandsIn = (text: string) => commandLines(
+    [...text.matchAll(/\b(?:sh|bat|pwsh)\s*\(?\s*(?:script:\s*)?('''[\s\S]*?'''|"""[\s\S]*?"""|'[^']*'|"[^"]*")/g)]
+      .map(match => match[1].replace(/^('''|"""|'|")|('''|"""|'|")$/g, ''))
+  );
+  if (stages.length === 0) {
+    config.jobs.push({ name: 'pipeline', commands: commandsIn(content) });
+  }
+  stages.forEach((stage, index) => {
+    const body = content.slice(stage.index!, stages[index + 1]?.index ?? content.length);
+    config.jobs.push({ name: stage[1], commands: commandsIn(body) });
+  });
+  for (const image of content.matchAll(/docker\s*\{[^}]*image\s+['"]([^'"]+)['"]/g)) addMatrix(config.matrix, 'image', [image[1]]);
+  return config;
+}
+
+const parsers: Record<string, (file: string, content: string) => CiConfig> = {
+  'github-actions': parseGitHubActions,
+  'gitlab-ci': parseGitLabCi,
+  'circleci': parseCircleCi,
+  'travis-ci': parseTravisCi,
+  'azure-pipelines': parseAzurePipelines,
+  'bitbucket-pipelines': parseBitbucketPipelines,
+  'jenkins': parseJenkinsfile,
+};
+
+export function parseCiConfig(file: string, content: string): CiConfig | null {
+  const system = ciSystem(file);
+  if (!system) return null;
+  try {
+    const config = parsers[system](file, content);
+    config.jobs = config.jobs.slice(0, MAX_JOBS);
+    return config;
+  } catch (e) {
+    console.error(`Failed to parse CI config ${file}`, e);
+    return null;
+  }
+}
+
+/** Setup commands mention test and lint tools too, but only to install them. */
+const INSTALL_PATTERN = /^(sudo\s+)?(npm (ci|install|i)\b|yarn( install)?$|pnpm (install|i)\b|pip3? install|poetry install|bundle install|composer install|go (mod download|get)\b|apt(-get)? |brew |choco |corepack |cargo install)/;
+const LINT_PATTERN = /\b(lint|eslint|prettier|stylelint|ruff|flake8|pylint|black|isort|mypy|pyright|golangci-lint|go vet|gofmt|clippy|rustfmt|cargo fmt|rubocop|typecheck|type-check|checkstyle|spotless|ktlint|phpcs|phpstan|psalm|shellcheck|hadolint|pre-commit)\b|\btsc\b.*--noEmit/;
+const TEST_PATTERN = /\b(test|tests|pytest|jest|vitest|mocha|rspec|phpunit|pest|tox|nox|ctest|unittest|cypress|playwright|coverage|verify)\b/;
+const BUILD_PATTERN = /\b(build|compile|package|assemble|bundle|make|publish)\b/;
+
+function classify(commands: string[]): Pick<CiFacts, 'testCommands' | 'lintCommands' | 'buildCommands'> {
+  const result = { testCommands: new Set<string>(), lintCommands: new Set<string>(), buildCommands: new Set<string>() };
+  for (const command of commands) {
+    if (INSTALL_PATTERN.test(command)) continue;
+    if (LINT_PATTERN.test(command)) result.lintCommands.add(command);
+    else if (TEST_PATTERN.test(command)) result.testCommands.add(command);
+    else if (BUILD_PATTERN.test(command)) result.buildCommands.add(command);
+  }
+  return {
+    testCommands: [...result.testCommands].slice(0, MAX_CLASSIFIED_COMMANDS),
+    lintCommands: [...result.lintCommands].slice(0, MAX_CLASSIFIED_COMMANDS),
+    buildCommands: [...result.buildCommands].slice(0, MAX_CLASSIFIED_COMMANDS),
+  };
+}
+
+/** The web URL of a hosted repository, derived from the host's API base URL. */
+function webBaseUrl({ provider, apiBaseUrl }: BadgeTarget): string | null {
+  if (provider === 'github') return apiBaseUrl === 'https://api.github.com' ? 'https://github.com' : apiBaseUrl.replace(/\/api\/v3$/, '');
+  if (provider === 'gitlab') return apiBaseUrl.replace(/\/api\/v4$/, '');
+  if (provider === 'bitbucket') return apiBaseUrl === 'https://api.bitbucket.org/2.0' ? 'https://bitbucket.org' : null;
+  return null;
+}
+
+/** Badges for the systems whose badge URLs follow from the repository; Azure and Jenkins badges need their own server URLs. */
+function ciBadges(configs: CiConfig[], target: BadgeTarget): CiFacts['badges'] {
+  const web = webBaseUrl(target);
+  if (!web) return [];
+  const { provider, owner, repo } = target;
+  const branch = encodeURIComponent(target.branch);
+  const cloud = web === 'https://github.com' || web === 'https://bitbucket.org';
+  const badges: CiFacts['badges'] = [];
+  for (const config of configs) {
+    if (config.system === 'github-actions' && provider === 'github') {
+      const workflow = `${web}/${owner}/${repo}/actions/workflows/${path.posix.basename(config.file)}`;
+      badges.push({ label: config.name ?? path.posix.basename(config.file), imageUrl: `${workflow}/badge.svg?branch=${branch}`, linkUrl: workflow });
+    } else if (config.system === 'gitlab-ci' && provider === 'gitlab') {
+      badges.push({ label: 'pipeline', imageUrl: `${web}/${owner}/${repo}/badges/${branch}/pipeline.svg`, linkUrl: `${web}/${owner}/${repo}/-/pipelines?ref=${branch}` });
+    } else if (config.system === 'circleci' && cloud) {
+      const vcs = provider === 'github' ? 'gh' : 'bb';
+      badges.push({
+        label: 'CircleCI',
+        imageUrl: `https://dl.circleci.com/status-badge/img/${vcs}/${owner}/${repo}/tree/${branch}.svg`,
+        linkUrl: `https://dl.circleci.com/status-badge/redirect/${vcs}/${owner}/${repo}/tree/${branch}`,
+      });
+    } else if (config.system === 'travis-ci' && provider === 'github' && cloud) {
+      badges.push({ label: 'Travis CI', imageUrl: `https://app.travis-ci.com/${owner}/${repo}.svg?branch=${branch}`, linkUrl: `https://app.travis-ci.com/${owner}/${repo}` });
+    } else if (config.system === 'bitbucket-pipelines' && provider === 'bitbucket') {
+      badges.push({ label: 'Bitbucket Pipelines', imageUrl: `https://img.shields.io/bitbucket/pipelines/${owner}/${repo}/${branch}`, linkUrl: `${web}/${owner}/${repo}/pipelines` });
+    }
+  }
+  return badges;
+}
+
+/** CI configs always live at fixed places relative to the repository root, so `tree` must be the full repository tree. */
+export async function collectCiFacts(tree: string[], readFile: ReadRepoFile, target?: BadgeTarget): Promise<CiFacts> {
+  const files = tree.filter(isCiConfig).sort().slice(0, MAX_CI_CONFIGS);
+  const configs = (await Promise.all(files.map(async file => {
+    const content = await readFile(file).catch(e => {
+      if (e instanceof GitHubRateLimitError) throw e;
+      return null;
+    });
+    return content ? parseCiConfig(file, content) : null;
+  }))).filter((config): config is CiConfig => config !== null);
+
+  return {
+    configs,
+    ...classify(configs.flatMap(config => config.jobs.flatMap(job => job.commands))),
+    badges: target ? ciBadges(configs, target) : [],
+  };
+}
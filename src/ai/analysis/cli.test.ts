@@ -0,0 +1,253 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {collectCliFacts} from './cli';
+
+/** Collects the CLI definitions of an in-memory repository. */
+function collect(files: Record<string, string>) {
+  return collectCliFacts(Object.keys(files), async file => files[file] ?? null);
+}
+
+const lines = (...content: string[]) => content.join('\n');
+
+describe('CLI parsing', () => {
+  test('commander program named by its package.json bin', async () => {
+    const facts = await collect({
+      'package.json': JSON.stringify({ name: 'greeter', bin: { greet: 'bin/greet.js' } }),
+      'bin/greet.js': lines(
+        "const { Command } = require('commander');",
+        "const program = new Command('greet');",
+        "program.description('Greets people').option('-l, --loud', 'shout the greeting').option('-n, --name <name>', 'who to greet', 'world');",
+        "program.command('wave <target>').description('Waves at someone').option('--hand <hand>', 'which hand', 'left');",
+        'program.parse();',
+      ),
+    });
+    assert.deepEqual(facts.tools, [{
+      name: 'greet',
+      framework: 'commander',
+      files: ['bin/greet.js'],
+      commands: [
+        {
+          name: 'greet', arguments: [], description: 'Greets people', options: [
+            { flags: '-l, --loud', description: 'shout the greeting', default: undefined },
+            { flags: '-n, --name <name>', description: 'who to greet', default: 'world' },
+          ],
+        },
+        { name: 'greet wave', arguments: ['<target>'], description: 'Waves at someone', options: [{ flags: '--hand <hand>', description: 'which hand', default: 'left' }] },
+      ],
+    }]);
+    assert.match(facts.usage, /^## Usage\n\n```sh\ngreet <command> \[options\]\n```/);
+    assert.ok(facts.usage.includes('| `greet wave <target>` | Waves at someone |'));
+    assert.ok(facts.usage.includes('### Global options'));
+    assert.ok(facts.usage.includes('| `-n, --name <name>` | who to greet | `world` |'));
+  });
+
+  test('yargs options belong to the command whose builder declares them', async () => {
+    const facts = await collect({
+      'package.json': JSON.stringify({ name: 'srv', bin: 'cli.js' }),
+      'cli.js': lines(
+        "const yargs = require('yargs');",
+        'yargs(process.argv.slice(2))',
+        "  .scriptName('srv')",
+        "  .command('serve [port]', 'Starts the server', y => y.option('watch', { alias: 'w', type: 'boolean', describe: 'reload on change' }))",
+        "  .option('verbose', { alias: 'v', type: 'boolean', describe: 'log more' })",
+        "  .option('config', { type: 'string', describe: 'config file', default: 'srv.json' })",
+        '  .parse();',
+      ),
+    });
+    assert.equal(facts.tools[0].framework, 'yargs');
+    assert.deepEqual(facts.tools[0].commands, [
+      {
+        name: 'srv', arguments: [], description: undefined, options: [
+          { flags: '-v, --verbose', description: 'log more', default: undefined },
+          { flags: '--config <string>', description: 'config file', default: 'srv.json' },
+        ],
+      },
+      { name: 'srv serve', arguments: ['[port]'], description: 'Starts the server', options: [{ flags: '-w, --watch', description: 'reload on change', default: undefined }] },
+    ]);
+  });
+
+  test('argparse parser with subparsers, named by pyproject.toml scripts', async () => {
+    const facts = await collect({
+      'pyproject.toml': lines('[project]', 'name = "tidy"', '', '[project.scripts]', 'tidy = "tidy.cli:main"'),
+      'tidy/cli.py': lines(
+        'import argparse',
+        '',
+        'def main():',
+        '    parser = argparse.ArgumentParser(prog="tidy", description="Tidies files.")',
+        '    parser.add_argument("path", help="where to start")',
+        '    parser.add_argument("-n", "--dry-run", action="store_true", help="only print")',
+        '    sub = parser.add_subparsers(dest="command")',
+        '    clean = sub.add_parser("clean", help="Removes build output")',
+        '    clean.add_argument("--depth", type=int, default=2, help="how deep")',
+        '    parser.parse_args()',
+      ),
+    });
+    assert.equal(facts.tools[0].framework, 'argparse');
+    assert.deepEqual(facts.tools[0].commands, [
+      { name: 'tidy', arguments: ['<path>'], description: 'Tidies files.', options: [{ flags: '-n, --dry-run', description: 'only print', default: undefined }] },
+      { name: 'tidy clean', arguments: [], description: 'Removes build output', options: [{ flags: '--depth <depth>', description: 'how deep', default: '2' }] },
+    ]);
+  });
+
+  test('click group with docstrings, named by setup.py console_scripts', async () => {
+    const facts = await collect({
+      'setup.py': 'from setuptools import setup\nsetup(name="notes", entry_points={"console_scripts": ["notes = notes.cli:cli"]})\n',
+      'notes/cli.py': lines(
+        'import click',
+        '',
+        '@click.group()',
+        'def cli():',
+        '    """Keeps notes."""',
+        '',
+        '@cli.command()',
+        '@click.argument("text")',
+        '@click.option("--tag", "-t", default="misc", help="the tag")',
+        'def add(text, tag):',
+        '    """Adds a note."""',
+        '',
+        '@cli.command(name="list")',
+        '@click.option("--all", "show_all", is_flag=True, help="include archived")',
+        'def list_notes(show_all):',
+        '    """Lists notes."""',
+      ),
+    });
+    assert.equal(facts.tools[0].framework, 'click');
+    assert.deepEqual(facts.tools[0].commands, [
+      { name: 'notes', arguments: [], description: 'Keeps notes.', options: [] },
+      { name: 'notes add', arguments: ['<text>'], description: 'Adds a note.', options: [{ flags: '--tag, -t <tag>', description: 'the tag', default: 'misc' }] },
+      { name: 'notes list', arguments: [], description: 'Lists notes.', options: [{ flags: '--all', description: 'include archived', default: undefined }] },
+    ]);
+  });
+
+  test('typer app in a __main__.py, with parameters without defaults as arguments', async () => {
+    const facts = await collect({
+      'app/__main__.py': lines(
+        'import typer',
+        '',
+        'app = typer.Typer(help="Manages users.")',
+        '',
+        '@app.command()',
+        'def create(name: str, admin: bool = typer.Option(False, "--admin", help="grant admin")):',
+        '    """Creates a user."""',
+        '',
+        '@app.command()',
+        'def delete(name: str, force: bool = False):',
+        '    """Deletes a user."""',
+      ),
+    });
+    assert.equal(facts.tools[0].framework, 'typer');
+    assert.deepEqual(facts.tools[0].commands, [
+      { name: 'app', arguments: [], description: 'Manages users.', options: [] },
+      { name: 'app create', arguments: ['<name>'], description: 'Creates a user.', options: [{ flags: '--admin', description: 'grant admin', default: 'False' }] },
+      { name: 'app delete', arguments: ['<name>'], description: 'Deletes a user.', options: [{ flags: '--force', description: undefined, default: 'False' }] },
+    ]);
+  });
+
+  test('cobra commands in cmd/<name>/main.go', async () => {
+    const facts = await collect({
+      'go.mod': 'module github.com/acme/deployer\n',
+      'cmd/deployer/main.go': lines(
+        'package main',
+        '',
+        'import "github.com/spf13/cobra"',
+        '',
+        'var rootCmd = &cobra.Command{',
+        '\tUse:   "deployer",',
+        '\tShort: "Deploys things",',
+        '}',
+        '',
+        'var pushCmd = &cobra.Command{',
+        '\tUse:   "push <env>",',
+        '\tShort: "Pushes a release",',
+        '}',
+        '',
+        'func init() {',
+        '\trootCmd.PersistentFlags().StringP("config", "c", "deploy.yaml", "config file")',
+        '\tpushCmd.Flags().Bool("dry-run", false, "only print")',
+        '\trootCmd.AddCommand(pushCmd)',
+        '}',
+        '',
+        'func main() { rootCmd.Execute() }',
+      ),
+    });
+    assert.equal(facts.tools[0].framework, 'cobra');
+    assert.deepEqual(facts.tools[0].commands, [
+      { name: 'deployer', arguments: [], description: 'Deploys things', options: [{ flags: '-c, --config <string>', description: 'config file', default: 'deploy.yaml' }] },
+      { name: 'deployer push', arguments: ['<env>'], description: 'Pushes a release', options: [{ flags: '--dry-run', description: 'only print', default: 'false' }] },
+    ]);
+  });
+
+  test('clap derive with a subcommand enum', async () => {
+    const facts = await collect({
+      'Cargo.toml': '[package]\nname = "crabctl"\n',
+      'src/main.rs': lines(
+        'use clap::{Parser, Subcommand};',
+        '',
+        '/// Controls crabs.',
+        '#[derive(Parser)]',
+        '#[command(name = "crabctl")]',
+        'struct Cli {',
+        '    /// Print more',
+        '    #[arg(short, long)]',
+        '    verbose: bool,',
+        '    #[command(subcommand)]',
+        '    command: Commands,',
+        '}',
+        '',
+        '#[derive(Subcommand)]',
+        'enum Commands {',
+        '    /// Feeds a crab',
+        '    Feed {',
+        '        /// The crab',
+        '        name: String,',
+        '        #[arg(long, default_value = "3")]',
+        '        amount: u32,',
+        '    },',
+        '}',
+        '',
+        'fn main() {}',
+      ),
+    });
+    assert.equal(facts.tools[0].framework, 'clap');
+    assert.deepEqual(facts.tools[0].commands, [
+      { name: 'crabctl', arguments: [], description: 'Controls crabs.', options: [{ flags: '-v, --verbose', description: 'Print more', default: undefined }] },
+      { name: 'crabctl feed', arguments: ['<NAME>'], description: 'Feeds a crab', options: [{ flags: '--amount <AMOUNT>', description: undefined, default: '3' }] },
+    ]);
+  });
+
+  test('clap builder', async () => {
+    const facts = await collect({
+      'Cargo.toml': '[package]\nname = "grab"\n',
+      'src/main.rs': lines(
+        'use clap::{Arg, ArgAction, Command};',
+        '',
+        'fn main() {',
+        '    let matches = Command::new("grab")',
+        '        .about("Grabs URLs")',
+        '        .arg(Arg::new("url"))',
+        "        .arg(Arg::new(\"output\").short('o').long(\"output\").help(\"where to write\"))",
+        "        .arg(Arg::new(\"quiet\").short('q').long(\"quiet\").action(ArgAction::SetTrue))",
+        '        .subcommand(Command::new("check").about("Checks a URL"))',
+        '        .get_matches();',
+        '}',
+      ),
+    });
+    assert.deepEqual(facts.tools[0].commands, [
+      {
+        name: 'grab', arguments: ['<URL>'], description: 'Grabs URLs', options: [
+          { flags: '-o, --output <OUTPUT>', description: 'where to write', default: undefined },
+          { flags: '-q, --quiet', description: undefined, default: undefined },
+        ],
+      },
+      { name: 'grab check', arguments: [], description: 'Checks a URL', options: [] },
+    ]);
+  });
+
+  test('scripts without a CLI framework or without options and arguments are skipped', async () => {
+    const facts = await collect({
+      'bin/run.js': 'console.log(process.argv[2]);\n',
+      'cli.js': "const { Command } = require('commander');\nnew Command().parse();\n",
+    });
+    assert.deepEqual(facts, { tools: [], usage: '' });
+  });
+});
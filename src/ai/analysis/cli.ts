@@ -0,0 +1,824 @@
+/**
+ * @fileOverview Static detection of command-line interfaces.
+ *
+ * A repository's CLI entry points are named by package.json `bin`,
+ * pyproject.toml or setup.py scripts, Cargo binaries and Go `cmd/`
+ * directories. Those files and the conventional CLI locations (cli.*, bin/,
+ * cmd/, commands/, __main__.py, main.go, src/main.rs) are read and the
+ * command definitions of the argument parsing library they use are extracted:
+ * commands, arguments, options, defaults and help texts. The result is
+ * rendered into a Usage section that the README reuses verbatim instead of
+ * guessing at flags.
+ *
+ * Supported: commander and yargs (JavaScript/TypeScript), argparse, click and
+ * typer (Python), cobra (Go) and clap, derive and builder style (Rust).
+ *
+ * - CliFactsSchema - The Zod schema for the CLIs of a repository.
+ * - CliFacts - The TypeScript type for the CLIs of a repository.
+ * - CliTool - The TypeScript type for a single CLI and its commands.
+ * - renderCliUsage - Renders CLIs as a Markdown Usage section.
+ * - collectCliFacts - Finds, reads and parses the CLIs of a repository.
+ */
+
+import path from 'node:path';
+import {parse as parseToml} from 'smol-toml';
+import {z} from 'zod';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import {publishedSource} from './ts-api';
+import type {ReadRepoFile} from './types';
+
+const CliOptionSchema = z.object({
+  flags: z.string().describe('The option as typed, e.g. "-p, --port <port>".'),
+  description: z.string().optional(),
+  default: z.string().optional(),
+});
+
+const CliCommandSchema = z.object({
+  name: z.string().describe('The full invocation, e.g. "mytool serve"; the root command is the tool name.'),
+  arguments: z.array(z.string()).describe('Positional arguments, e.g. "<dir>" or "[files...]".'),
+  description: z.string().optional(),
+  options: z.array(CliOptionSchema),
+});
+
+const CliToolSchema = z.object({
+  name: z.string(),
+  framework: z.string().describe('The argument parsing library, e.g. commander, yargs, argparse, click, typer, cobra or clap.'),
+  files: z.array(z.string()).describe('The files the commands were found in.'),
+  commands: z.array(CliCommandSchema).describe('The root command first, then its subcommands.'),
+});
+
+export type CliTool = z.infer<typeof CliToolSchema>;
+type CliCommand = z.infer<typeof CliCommandSchema>;
+type CliOption = z.infer<typeof CliOptionSchema>;
+
+export const CliFactsSchema = z.object({
+  tools: z.array(CliToolSchema),
+  usage: z.string().describe('The rendered Usage section, or an empty string if no CLI was found.'),
+});
+
+export type CliFacts = z.infer<typeof CliFactsSchema>;
+
+const MAX_CLI_FILES = 25;
+const MAX_COMMANDS = 40;
+const MAX_OPTIONS_PER_COMMAND = 30;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/** Where CLI definitions conventionally live. */
+const CLI_PATH_PATTERN = /(^|\/)(cli|bin|cmd|commands?)(\/|\.[^/]+$)|(^|\/)(__main__|main)\.(py|go|rs)$|^src\/bin\/[^/]+\.rs$/;
+const IGNORED_PATH_PATTERN = /(^|\/)(node_modules|vendor|dist|build|target|tests?|__tests__|examples?|testdata)\//;
+const SOURCE_PATTERN = /\.([mc]?[jt]sx?|py|go|rs)$/;
+
+const FRAMEWORKS: { name: string; pattern: RegExp }[] = [
+  { name: 'commander', pattern: /from\s+['"]commander['"]|require\(\s*['"]commander['"]\s*\)/ },
+  { name: 'yargs', pattern: /from\s+['"]yargs(\/[\w]+)?['"]|require\(\s*['"]yargs(\/[\w]+)?['"]\s*\)/ },
+  { name: 'click', pattern: /^\s*(import\s+click\b|from\s+click\s+import\b)/m },
+  { name: 'typer', pattern: /^\s*(import\s+typer\b|from\s+typer\s+import\b)/m },
+  { name: 'argparse', pattern: /^\s*(import\s+argparse\b|from\s+argparse\s+import\b)/m },
+  { name: 'cobra', pattern: /"github\.com\/spf13\/cobra"/ },
+  { name: 'clap', pattern: /\buse\s+clap::|\bclap::/ },
+];
+
+interface SourceFile {
+  file: string;
+  content: string;
+}
+
+/** A command while it is being parsed, identified by its path below the root, e.g. `['remote', 'add']`. */
+interface ParsedCommand {
+  path: string[];
+  arguments: string[];
+  description?: string;
+  options: CliOption[];
+}
+
+interface ParsedCli {
+  /** The program name, when the definition states it. */
+  name?: string;
+  commands: ParsedCommand[];
+}
+
+function truncate(text: string, limit: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > limit ? `${clean.slice(0, limit - 1).trimEnd()}…` : clean;
+}
+
+function command(commands: ParsedCommand[], commandPath: string[]): ParsedCommand {
+  let existing = commands.find(candidate => candidate.path.join(' ') === commandPath.join(' '));
+  if (!existing) {
+    existing = { path: commandPath, arguments: [], options: [] };
+    commands.push(existing);
+  }
+  return existing;
+}
+
+// Call parsing shared by all languages: `name(arg, arg)` with balanced brackets and string literals.
+
+interface Call {
+  method: string;
+  args: string[];
+  start: number;
+  end: number;
+}
+
+/** Finds the end of the string literal starting at `start`; single-quoted ones end at the line at the latest, for Rust lifetimes. */
+function stringEnd(content: string, start: number): number {
+  const char = content[start];
+  const quote = content.startsWith(char.repeat(3), start) ? char.repeat(3) : char;
+  for (let i = start + quote.length; i < content.length; i++) {
+    if (content[i] === '\\') i++;
+    else if (content.startsWith(quote, i)) return i + quote.length - 1;
+    else if (quote.length === 1 && char !== '`' && content[i] === '\n') return i;
+  }
+  return content.length - 1;
+}
+
+/** Finds the end of the line of a `//` comment, which may contain unbalanced quotes. */
+function lineEnd(content: string, start: number): number {
+  const end = content.indexOf('\n', start);
+  return end === -1 ? content.length - 1 : end;
+}
+
+/** Finds the end of the bracketed expression opening at `open`, skipping string literals. */
+function closingIndex(content: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = stringEnd(content, i);
+    } else if (content.startsWith('//', i)) {
+      i = lineEnd(content, i);
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return content.length - 1;
+}
+
+/** Splits an argument list at its top-level commas. */
+function splitArgs(text: string): string[] {
+  const args: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('"\'`'.includes(char)) {
+      i = stringEnd(text, i);
+    } else if (text.startsWith('//', i)) {
+      i = lineEnd(text, i);
+    } else if ('([{'.includes(char)) {
+      i = closingIndex(text, i);
+    } else if (char === ',') {
+      args.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = text.slice(start).trim();
+  if (last) args.push(last);
+  return args;
+}
+
+/** Finds calls whose name matches `pattern`, which must end right before the opening parenthesis; group 1 is the name. */
+function findCalls(content: string, pattern: RegExp): Call[] {
+  const calls: Call[] = [];
+  for (const match of content.matchAll(new RegExp(pattern.source, `${pattern.flags.replace('g', '')}g`))) {
+    const open = match.index! + match[0].length;
+    if (content[open] !== '(') continue;
+    const end = closingIndex(content, open);
+    calls.push({ method: match[1], args: splitArgs(content.slice(open + 1, end)), start: match.index!, end });
+  }
+  return calls;
+}
+
+/** The value of a string literal in any of the supported languages, or undefined for other expressions. */
+function literal(text: string | undefined): string | undefined {
+  const match = text?.trim().match(/^[rbuf]?("""|'''|"|'|`)([\s\S]*)\1$/);
+  if (!match || (match[1] === '`' && match[2].includes('${'))) return undefined;
+  return match[2].replace(/\\(["'`\\])/g, '$1').replace(/\\n/g, '\n');
+}
+
+/** A literal as a default value: strings unquoted, numbers and booleans as written. */
+function defaultValue(text: string | undefined): string | undefined {
+  const value = text?.trim();
+  if (!value) return undefined;
+  const string = literal(value);
+  if (string !== undefined) return string;
+  return /^(-?\d+(\.\d+)?|true|false|True|False|None|null)$/.test(value) ? value : undefined;
+}
+
+/** Looks up `key=value` (Python) or `key: value` (JS, Go) among the arguments or fields of a call or literal. */
+function keyed(args: string[], key: string): string | undefined {
+  for (const arg of args) {
+    const match = arg.match(new RegExp(`^${key}\\s*[:=]\\s*([\\s\\S]*)$`));
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
+
+/** The fields of an object or struct literal argument, e.g. `{ alias: 'v', describe: '...' }`. */
+function fields(arg: string | undefined): string[] {
+  const body = arg?.trim().match(/^&?[\w.]*\{([\s\S]*)\}$/)?.[1];
+  return body ? splitArgs(body) : [];
+}
+
+/** The string literals among the positional arguments of a Python call, e.g. the names of an option. */
+function positional(args: string[]): string[] {
+  return args.filter(arg => !/^\w+\s*=/.test(arg)).map(literal).filter((value): value is string => value !== undefined);
+}
+
+function description(text: string | undefined): string | undefined {
+  const value = literal(text);
+  return value ? truncate(value, MAX_DESCRIPTION_LENGTH) : undefined;
+}
+
+// JavaScript and TypeScript
+
+/** commander: calls are chained, so each `.command()` starts the command that the following calls configure. */
+function parseCommander(sources: SourceFile[]): ParsedCli {
+  const cli: ParsedCli = { commands: [] };
+  for (const { content } of sources) {
+    let current = command(cli.commands, []);
+    const calls = [
+      ...findCalls(content, /\bnew\s+(Command)\s*/),
+      ...findCalls(content, /\.(name|command|description|summary|option|requiredOption|argument|arguments)\s*/),
+    ].sort((a, b) => a.start - b.start);
+    for (const call of calls) {
+      const first = literal(call.args[0]);
+      if (call.method === 'Command' || call.method === 'name') {
+        if (first && current.path.length === 0) cli.name ??= first;
+      } else if (call.method === 'command' && first) {
+        const [name, ...args] = first.split(/\s+/);
+        current = command(cli.commands, [name]);
+        current.arguments.push(...args);
+        current.description ??= description(call.args[1]);
+      } else if ((call.method === 'description' || call.method === 'summary') && first) {
+        current.description ??= truncate(first, MAX_DESCRIPTION_LENGTH);
+      } else if ((call.method === 'option' || call.method === 'requiredOption') && first) {
+        current.options.push({ flags: first, description: description(call.args[1]), default: defaultValue(call.args[2]) });
+      } else if ((call.method === 'argument' || call.method === 'arguments') && first) {
+        current.arguments.push(...first.split(/\s+/));
+      }
+    }
+  }
+  return cli;
+}
+
+/** yargs: options belong to the command whose builder contains them, and to the program otherwise. */
+function parseYargs(sources: SourceFile[]): ParsedCli {
+  const cli: ParsedCli = { commands: [command([], [])] };
+  for (const { content } of sources) {
+    const commandCalls = findCalls(content, /\.(command)\s*/).map(call => {
+      const object = fields(call.args[0]);
+      const usage = literal(call.args[0]) ?? literal(keyed(object, 'command')) ?? '';
+      const [name, ...args] = usage.split(/\s+/);
+      return { call, name, args, description: description(call.args[1]) ?? description(keyed(object, 'describe') ?? keyed(object, 'description')) };
+    }).filter(entry => entry.name && entry.name !== '$0');
+    for (const entry of commandCalls) {
+      const parsed = command(cli.commands, [entry.name]);
+      parsed.arguments.push(...entry.args);
+      parsed.description ??= entry.description;
+    }
+    const owner = (position: number) => {
+      const entry = commandCalls.find(candidate => candidate.call.start < position && position < candidate.call.end);
+      return command(cli.commands, entry ? [entry.name] : []);
+    };
+    for (const call of findCalls(content, /\.(option|positional|usage|scriptName)\s*/)) {
+      const name = literal(call.args[0]);
+      if (!name) continue;
+      if (call.method === 'scriptName') {
+        cli.name ??= name;
+      } else if (call.method === 'usage') {
+        owner(call.start).description ??= truncate(name.replace(/^\$0\s*/, ''), MAX_DESCRIPTION_LENGTH) || undefined;
+      } else if (call.method === 'positional') {
+        continue;
+      } else {
+        const settings = fields(call.args[1]);
+        const alias = literal(keyed(settings, 'alias')) ?? literal(keyed(settings, 'alias')?.replace(/^\[|\]$/g, '').split(',')[0]);
+        const type = literal(keyed(settings, 'type'));
+        const flag = (value: string) => value.length === 1 ? `-${value}` : `--${value}`;
+        const flags = [alias, name].filter((value): value is string => !!value).sort((a, b) => a.length - b.length).map(flag).join(', ');
+        owner(call.start).options.push({
+          flags: type && type !== 'boolean' ? `${flags} <${type}>` : flags,
+          description: description(keyed(settings, 'describe') ?? keyed(settings, 'description') ?? keyed(settings, 'desc')),
+          default: defaultValue(keyed(settings, 'default')),
+        });
+      }
+    }
+  }
+  return cli;
+}
+
+// Python
+
+/** argparse: parsers are tracked by variable, so arguments land on the subcommand they were added to. */
+function parseArgparse(sources: SourceFile[]): ParsedCli {
+  const cli: ParsedCli = { commands: [] };
+  const parsers = new Map<string, string[]>();
+  for (const { content } of sources) {
+    for (const match of content.matchAll(/^\s*(\w+)\s*=\s*(?:argparse\.)?(ArgumentParser)\s*(?=\()/gm)) {
+      const [call] = findCalls(content.slice(match.index!), /(ArgumentParser)\s*/);
+      parsers.set(match[1], []);
+      const root = command(cli.commands, []);
+      cli.name ??= literal(keyed(call?.args ?? [], 'prog'));
+      root.description ??= description(keyed(call?.args ?? [], 'description'));
+    }
+    const subparsers = new Map<string, string>();
+    for (const match of content.matchAll(/^\s*(\w+)\s*=\s*(\w+)\.add_subparsers\b/gm)) subparsers.set(match[1], match[2]);
+    const calls = [
+      ...findCalls(content, /(?:\b\w+\s*=\s*)?\b\w+\.(add_parser)\s*/),
+      ...findCalls(content, /(\w+)\.add_argument\s*/),
+    ].sort((a, b) => a.start - b.start);
+    for (const call of calls) {
+      const text = content.slice(call.start, call.end);
+      if (call.method === 'add_parser') {
+        const assigned = text.match(/^(\w+)\s*=\s*(\w+)\.add_parser/);
+        const parent = assigned ? parsers.get(subparsers.get(assigned[2]) ?? '') ?? [] : [];
+        const name = literal(call.args[0]);
+        if (!name) continue;
+        const parsed = command(cli.commands, [...parent, name]);
+        parsed.description ??= description(keyed(call.args, 'help') ?? keyed(call.args, 'description'));
+        if (assigned) parsers.set(assigned[1], parsed.path);
+      } else {
+        const target = parsers.get(call.method);
+        if (!target) continue;
+        const names = positional(call.args);
+        if (names.length === 0) continue;
+        const parsed = command(cli.commands, target);
+        const metavar = literal(keyed(call.args, 'metavar'));
+        const action = literal(keyed(call.args, 'action'));
+        if (!names[0].startsWith('-')) {
+          parsed.arguments.push(`<${metavar ?? names[0]}>`);
+          continue;
+        }
+        const takesValue = !action || !/^(store_true|store_false|count|help|version)$/.test(action);
+        const longName = names.find(name => name.startsWith('--')) ?? names[0];
+        parsed.options.push({
+          flags: `${names.join(', ')}${takesValue ? ` <${metavar ?? longName.replace(/^-+/, '').replace(/-/g, '_')}>` : ''}`,
+          description: description(keyed(call.args, 'help')),
+          default: defaultValue(keyed(call.args, 'default')),
+        });
+      }
+    }
+  }
+  return cli;
+}
+
+interface DecoratedFunction {
+  name: string;
+  decorators: Call[];
+  params: string[];
+  doc?: string;
+}
+
+/** The functions of a Python file with the decorators above them and the first paragraph of their docstring. */
+function decoratedFunctions(content: string): DecoratedFunction[] {
+  const functions: DecoratedFunction[] = [];
+  const decorators = [
+    ...findCalls(content, /^[ \t]*@([\w.]+)\s*/m),
+    ...[...content.matchAll(/^[ \t]*@([\w.]+)[ \t]*$/gm)].map(match => ({ method: match[1], args: [], start: match.index!, end: match.index! + match[0].length })),
+  ];
+  let previousEnd = -1;
+  for (const def of findCalls(content, /^[ \t]*(?:async\s+)?def\s+(\w+)\s*/m)) {
+    const own = decorators.filter(decorator => decorator.start > previousEnd && decorator.end < def.start);
+    const body = content.slice(def.end).match(/^[^:]*:\s*\n\s*[rRuU]?("""|''')([\s\S]*?)\1/);
+    functions.push({ name: def.method, decorators: own, params: def.args, doc: body?.[2].trim().split(/\n\s*\n/)[0] });
+    previousEnd = def.end;
+  }
+  return functions;
+}
+
+/** click and typer: commands are decorated functions, and click groups nest the commands registered on them. */
+function parseClick(sources: SourceFile[]): ParsedCli {
+  const cli: ParsedCli = { commands: [] };
+  // Group functions by name, with the command path they define.
+  const groups = new Map<string, string[]>();
+  for (const { content } of sources) {
+    const apps = new Map<string, string[]>();
+    for (const match of content.matchAll(/^\s*(\w+)\s*=\s*typer\.Typer\s*\(([^)]*)\)/gm)) {
+      apps.set(match[1], []);
+      command(cli.commands, []).description ??= description(keyed(splitArgs(match[2]), 'help'));
+    }
+    for (const fn of decoratedFunctions(content)) {
+      const definition = fn.decorators.find(decorator => /(^|\.)(command|group|callback)$/.test(decorator.method));
+      if (!definition) continue;
+      const owner = definition.method.split('.')[0];
+      const kind = definition.method.split('.').pop()!;
+      const parent = groups.get(owner) ?? apps.get(owner) ?? [];
+      const explicit = literal(definition.args[0]) ?? literal(keyed(definition.args, 'name'));
+      const isRoot = (owner === 'click' && kind === 'group') || kind === 'callback' || (owner === 'click' && groups.size === 0 && kind === 'command' && !apps.size);
+      const commandPath = isRoot ? [] : [...parent, explicit ?? fn.name.replace(/_/g, '-')];
+      if (kind === 'group') groups.set(fn.name, commandPath);
+      const parsed = command(cli.commands, commandPath);
+      parsed.description ??= description(keyed(definition.args, 'help')) ?? (fn.doc ? truncate(fn.doc, MAX_DESCRIPTION_LENGTH) : undefined);
+
+      for (const decorator of fn.decorators) {
+        const names = positional(decorator.args);
+        if (/(^|\.)option$/.test(decorator.method) && names.length) {
+          const isFlag = keyed(decorator.args, 'is_flag') === 'True' || names.some(name => name.includes('/'));
+          parsed.options.push({
+            flags: `${names.filter(name => name.startsWith('-')).join(', ')}${isFlag ? '' : ` <${names.find(name => !name.startsWith('-')) ?? names[0].replace(/^-+/, '')}>`}`,
+            description: description(keyed(decorator.args, 'help')),
+            default: defaultValue(keyed(decorator.args, 'default')),
+          });
+        } else if (/(^|\.)argument$/.test(decorator.method) && names.length) {
+          parsed.arguments.push(`<${names[0]}>`);
+        }
+      }
+      // typer declares options and arguments as parameters.
+      for (const param of fn.params) {
+        const match = param.match(/^(\w+)\s*(?::\s*([^=]+?))?\s*(?:=\s*([\s\S]+))?$/);
+        if (!match || ['self', 'ctx'].includes(match[1]) || !apps.has(owner)) continue;
+        const [, name, type = '', value] = match;
+        const call = value && findCalls(value, /(?:typer\.)?(Option|Argument)\s*/)[0];
+        const isOption = call ? call.method === 'Option' : value !== undefined;
+        if (!isOption) {
+          parsed.arguments.push(`<${name}>`);
+          continue;
+        }
+        const flagNames = call ? call.args.map(literal).filter((flag): flag is string => !!flag?.startsWith('-')) : [];
+        const flag = flagNames.length ? flagNames.join(', ') : `--${name.replace(/_/g, '-')}`;
+        parsed.options.push({
+          flags: /\bbool\b/.test(type) ? flag : `${flag} <${name}>`,
+          description: call ? description(keyed(call.args, 'help')) : undefined,
+          default: defaultValue(call ? call.args.find(arg => !/^\w+\s*=/.test(arg)) ?? keyed(call.args, 'default') : value),
+        });
+      }
+    }
+  }
+  return cli;
+}
+
+// Go
+
+/** cobra: commands are `&cobra.Command{...}` literals linked with AddCommand, across the files of the package. */
+function parseCobra(sources: SourceFile[]): ParsedCli {
+  const definitions: { variable: string; fn?: string; use: string; short?: string; options: CliOption[]; file: string; start: number }[] = [];
+  const children: { parent: string; child: string }[] = [];
+  for (const { file, content } of sources) {
+    for (const match of content.matchAll(/(\w+)\s*(?::=|=)\s*&cobra\.Command\s*(?=\{)/g)) {
+      const open = match.index! + match[0].length;
+      const body = splitArgs(content.slice(open + 1, closingIndex(content, open)));
+      const use = literal(keyed(body, 'Use'));
+      if (!use) continue;
+      const fn = [...content.slice(0, match.index).matchAll(/^func\s+(?:\([^)]*\)\s*)?(\w+)/gm)].pop()?.[1];
+      definitions.push({ variable: match[1], fn, use, short: literal(keyed(body, 'Short')), options: [], file, start: match.index! });
+    }
+    // Flags attach to the latest definition of their variable in the same file.
+    const latest = (variable: string, position: number) => definitions
+      .filter(definition => definition.file === file && definition.variable === variable && definition.start < position)
+      .pop() ?? definitions.filter(definition => definition.variable === variable).pop();
+    for (const call of findCalls(content, /(\w+)\.(?:Persistent)?Flags\(\)\.(?:\w+)\s*/)) {
+      const method = content.slice(call.start, call.end).match(/Flags\(\)\.(\w+)/)?.[1] ?? '';
+      const args = /Var/.test(method) ? call.args.slice(1) : call.args;
+      const [name, ...rest] = args;
+      const shorthand = method.endsWith('P') ? literal(rest.shift()) : undefined;
+      const [value, usage] = rest;
+      const flagName = literal(name);
+      const definition = latest(call.method, call.start);
+      if (!flagName || !definition) continue;
+      const isBool = /^Bool/.test(method);
+      definition.options.push({
+        flags: `${shorthand ? `-${shorthand}, ` : ''}--${flagName}${isBool ? '' : ` <${method.replace(/Var|P$/g, '').toLowerCase() || 'value'}>`}`,
+        description: description(usage),
+        default: defaultValue(value) || undefined,
+      });
+    }
+    for (const call of findCalls(content, /(\w+)\.AddCommand\s*/)) {
+      for (const arg of call.args) children.push({ parent: call.method, child: arg.replace(/\(\)$/, '()') });
+    }
+  }
+
+  const find = (reference: string) => reference.endsWith('()')
+    ? definitions.find(definition => definition.fn === reference.slice(0, -2))
+    : definitions.find(definition => definition.variable === reference);
+  const parentOf = new Map<typeof definitions[number], typeof definitions[number]>();
+  for (const { parent, child } of children) {
+    const childDefinition = find(child);
+    // A parent variable is usually named in the function that defines it, e.g. `cmd.AddCommand(...)`.
+    const parentDefinition = find(parent) ?? definitions.find(definition => definition.variable === parent);
+    if (childDefinition && parentDefinition && childDefinition !== parentDefinition) parentOf.set(childDefinition, parentDefinition);
+  }
+  const commandPath = (definition: typeof definitions[number], seen = new Set<typeof definition>()): string[] => {
+    const parent = parentOf.get(definition);
+    if (!parent || seen.has(parent)) return [];
+    seen.add(definition);
+    return [...commandPath(parent, seen), definition.use.split(/\s+/)[0]];
+  };
+
+  const root = definitions.find(definition => !parentOf.has(definition));
+  const cli: ParsedCli = { name: root?.use.split(/\s+/)[0], commands: [] };
+  for (const definition of [...definitions].sort((a, b) => (a === root ? -1 : b === root ? 1 : 0))) {
+    const isRoot = definition === root;
+    if (!isRoot && !parentOf.has(definition)) continue;
+    const parsed = command(cli.commands, isRoot ? [] : commandPath(definition));
+    parsed.arguments.push(...definition.use.split(/\s+/).slice(1).filter(arg => arg !== '[flags]'));
+    parsed.description ??= definition.short && truncate(definition.short, MAX_DESCRIPTION_LENGTH);
+    parsed.options.push(...definition.options);
+  }
+  return cli;
+}
+
+// Rust
+
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/_/g, '-').toLowerCase();
+}
+
+interface RustMember {
+  name: string;
+  type?: string;
+  attributes: string;
+  doc?: string;
+  body?: string;
+}
+
+/** The fields or variants of a struct or enum body, with the attributes and `///` docs above them. */
+function rustMembers(body: string): RustMember[] {
+  const members: RustMember[] = [];
+  for (const part of splitArgs(body)) {
+    const docs: string[] = [];
+    const attributes: string[] = [];
+    let rest = part.trim();
+    while (rest.startsWith('//') || rest.startsWith('#[')) {
+      if (rest.startsWith('#[')) {
+        const end = closingIndex(rest, 1);
+        attributes.push(rest.slice(2, end));
+        rest = rest.slice(end + 1).trim();
+      } else {
+        const line = rest.match(/^.*/)![0];
+        if (line.startsWith('///')) docs.push(line.replace(/^\/\/\/\s?/, ''));
+        rest = rest.slice(line.length).trim();
+      }
+    }
+    const match = rest.replace(/^pub(\([^)]*\))?\s+/, '').match(/^(\w+)\s*(?::\s*([\s\S]+)|(\{[\s\S]*\}|\([\s\S]*\)))?$/);
+    if (match) members.push({ name: match[1], type: match[2]?.trim(), attributes: attributes.join(' '), doc: docs.join(' ').trim() || undefined, body: match[3] });
+  }
+  return members;
+}
+
+function clapOption(member: RustMember): CliOption | string | undefined {
+  if (/\b(command|clap)\s*\(\s*subcommand|\bflatten\b/.test(member.attributes)) return undefined;
+  const short = member.attributes.match(/\bshort(?:\s*=\s*'(.)')?/);
+  const long = member.attributes.match(/\blong(?:\s*=\s*"([^"]+)")?/);
+  const valueName = member.attributes.match(/\bvalue_name\s*=\s*"([^"]+)"/)?.[1] ?? member.name.toUpperCase();
+  const help = member.attributes.match(/\b(?:help|about)\s*=\s*"((?:[^"\\]|\\.)*)"/)?.[1] ?? member.doc;
+  if (!short && !long) return /^Vec</.test(member.type ?? '') ? `<${valueName}>...` : `<${valueName}>`;
+  const flags = [short && `-${short[1] ?? member.name[0]}`, long && `--${long[1] ?? kebabCase(member.name)}`].filter(Boolean).join(', ');
+  return {
+    flags: member.type === 'bool' ? flags : `${flags} <${valueName}>`,
+    description: help ? truncate(help, MAX_DESCRIPTION_LENGTH) : undefined,
+    default: member.attributes.match(/\bdefault_value(?:_t)?\s*=\s*"?([^",)]+)"?/)?.[1],
+  };
+}
+
+/** clap: derive-style `Parser`, `Subcommand` and `Args` types, or builder-style `Command::new` chains. */
+function parseClap(sources: SourceFile[]): ParsedCli {
+  const cli: ParsedCli = { commands: [] };
+  const content = sources.map(source => source.content).join('\n');
+  const types = new Map<string, { kind: string; derives: string; attributes: string; doc?: string; body: string }>();
+  for (const match of content.matchAll(/((?:^[ \t]*(?:#\[[^\n]*\]|\/\/\/[^\n]*)\s*\n)+)[ \t]*(?:pub(?:\([^)]*\))?\s+)?(struct|enum)\s+(\w+)[^{;]*(?=\{)/gm)) {
+    const open = match.index! + match[0].length;
+    const prefix = match[1];
+    types.set(match[3], {
+      kind: match[2],
+      derives: prefix.match(/#\[derive\(([^)]*)\)\]/)?.[1] ?? '',
+      attributes: [...prefix.matchAll(/#\[(?:command|clap)\(([\s\S]*?)\)\]/g)].map(attribute => attribute[1]).join(', '),
+      doc: [...prefix.matchAll(/^\s*\/\/\/\s?(.*)$/gm)].map(doc => doc[1]).join(' ').trim() || undefined,
+      body: content.slice(open + 1, closingIndex(content, open)),
+    });
+  }
+
+  const addFields = (parsed: ParsedCommand, body: string) => {
+    for (const member of rustMembers(body)) {
+      const option = clapOption(member);
+      if (typeof option === 'string') parsed.arguments.push(option);
+      else if (option) parsed.options.push(option);
+      // Flattened and subcommand fields pull in the fields or variants of their type.
+      const typeName = member.type?.replace(/^Option<(.*)>$/, '$1');
+      const type = typeName ? types.get(typeName) : undefined;
+      if (type && /\bflatten\b/.test(member.attributes)) addFields(parsed, type.body);
+      if (type && /subcommand/.test(member.attributes)) addSubcommands(parsed.path, type.body);
+    }
+  };
+  const addSubcommands = (parent: string[], body: string) => {
+    for (const variant of rustMembers(body)) {
+      const name = variant.attributes.match(/\bname\s*=\s*"([^"]+)"/)?.[1] ?? kebabCase(variant.name);
+      const parsed = command(cli.commands, [...parent, name]);
+      const about = variant.attributes.match(/\babout\s*=\s*"((?:[^"\\]|\\.)*)"/)?.[1] ?? variant.doc;
+      parsed.description ??= about ? truncate(about, MAX_DESCRIPTION_LENGTH) : undefined;
+      const inner = variant.body?.trim();
+      if (inner?.startsWith('{')) addFields(parsed, inner.slice(1, -1));
+      const wrapped = inner?.startsWith('(') ? types.get(inner.slice(1, -1).trim()) : undefined;
+      if (wrapped?.kind === 'struct') addFields(parsed, wrapped.body);
+      if (wrapped?.kind === 'enum') addSubcommands(parsed.path, wrapped.body);
+    }
+  };
+
+  const parser = [...types.values()].find(type => /\bParser\b/.test(type.derives));
+  if (parser) {
+    const root = command(cli.commands, []);
+    cli.name = parser.attributes.match(/\bname\s*=\s*"([^"]+)"/)?.[1];
+    const about = parser.attributes.match(/\babout\s*=\s*"((?:[^"\\]|\\.)*)"/)?.[1] ?? parser.doc;
+    root.description = about ? truncate(about, MAX_DESCRIPTION_LENGTH) : undefined;
+    addFields(root, parser.body);
+    return cli;
+  }
+
+  // Builder style: `.subcommand(...)` and `.arg(...)` calls own what is chained inside them.
+  const subcommands = findCalls(content, /\.(subcommand)\s*/).map(call => ({
+    ...call,
+    name: literal(findCalls(content.slice(call.start, call.end), /\b(Command::new)\s*/)[0]?.args[0]),
+  }));
+  const owner = (position: number) => command(cli.commands, subcommands
+    .filter(span => span.name && span.start < position && position < span.end)
+    .sort((a, b) => a.start - b.start)
+    .map(span => span.name!));
+  const root = findCalls(content, /\b(Command::new)\s*/).find(call => !subcommands.some(span => span.start < call.start && call.end < span.end));
+  if (!root) return cli;
+  cli.name = literal(root.args[0]);
+  const args = findCalls(content, /\.(arg)\s*/);
+  for (const call of findCalls(content, /\.(about)\s*/)) {
+    if (!args.some(span => span.start < call.start && call.end < span.end)) owner(call.start).description ??= description(call.args[0]);
+  }
+  for (const arg of args) {
+    const text = content.slice(arg.start, arg.end + 1);
+    const setting = (method: string) => {
+      const value = findCalls(text, new RegExp(`(${method})\\s*`))[0]?.args[0];
+      return literal(value) ?? value;
+    };
+    const id = literal(findCalls(text, /\b(Arg::new)\s*/)[0]?.args[0]);
+    if (!id) continue;
+    const short = setting('\\.short');
+    const long = setting('\\.long');
+    const help = setting('\\.help');
+    const flags = [short && `-${short}`, long && `--${long}`].filter(Boolean).join(', ');
+    const parsed = owner(arg.start);
+    if (!flags) {
+      parsed.arguments.push(`<${id.toUpperCase()}>`);
+      continue;
+    }
+    parsed.options.push({
+      flags: /SetTrue|SetFalse|Count/.test(setting('\\.action') ?? '') ? flags : `${flags} <${id.toUpperCase()}>`,
+      description: help ? truncate(help, MAX_DESCRIPTION_LENGTH) : undefined,
+      default: setting('\\.default_value'),
+    });
+  }
+  return cli;
+}
+
+const parsers: Record<string, (sources: SourceFile[]) => ParsedCli> = {
+  commander: parseCommander,
+  yargs: parseYargs,
+  argparse: parseArgparse,
+  click: parseClick,
+  typer: parseClick,
+  cobra: parseCobra,
+  clap: parseClap,
+};
+
+/** Maps entry files to the program names they are installed as. */
+async function entryPoints(tree: string[], read: ReadRepoFile): Promise<Map<string, string>> {
+  const files = new Set(tree);
+  const entries = new Map<string, string>();
+  const packageJson = files.has('package.json') ? await read('package.json') : null;
+  if (packageJson) {
+    try {
+      const data = JSON.parse(packageJson);
+      const bins: Record<string, string> = typeof data.bin === 'string' ? { [String(data.name ?? '').replace(/^@[^/]+\//, '')]: data.bin } : data.bin ?? {};
+      for (const [name, target] of Object.entries(bins)) {
+        const file = typeof target === 'string' ? publishedSource(target, files) : undefined;
+        if (file && name) entries.set(file, name);
+      }
+    } catch {
+      // A malformed package.json is reported by the manifest analysis.
+    }
+  }
+
+  const pyproject = files.has('pyproject.toml') ? await read('pyproject.toml') : null;
+  const setupPy = files.has('setup.py') ? await read('setup.py') : null;
+  const scripts: Record<string, string> = {};
+  if (pyproject) {
+    try {
+      const data: Record<string, any> = parseToml(pyproject);
+      Object.assign(scripts, data.project?.scripts, data.tool?.poetry?.scripts);
+    } catch {
+      // A malformed pyproject.toml is reported by the manifest analysis.
+    }
+  }
+  for (const match of setupPy?.matchAll(/["']([\w.-]+)\s*=\s*([\w.]+):\w+["']/g) ?? []) scripts[match[1]] = match[2];
+  for (const [name, target] of Object.entries(scripts)) {
+    const modulePath = String(target).split(':')[0].replace(/\./g, '/');
+    const file = [`${modulePath}.py`, `src/${modulePath}.py`, `${modulePath}/__init__.py`, `src/${modulePath}/__init__.py`].find(candidate => files.has(candidate));
+    if (file) entries.set(file, name);
+  }
+
+  const cargo = files.has('Cargo.toml') ? await read('Cargo.toml') : null;
+  if (cargo) {
+    try {
+      const data: Record<string, any> = parseToml(cargo);
+      if (data.package?.name && files.has('src/main.rs')) entries.set('src/main.rs', data.package.name);
+      for (const bin of Array.isArray(data.bin) ? data.bin : []) {
+        const file = bin.path ?? `src/bin/${bin.name}.rs`;
+        if (bin.name && files.has(file)) entries.set(file, bin.name);
+      }
+    } catch {
+      // A malformed Cargo.toml is reported by the manifest analysis.
+    }
+    for (const file of tree.filter(file => /^src\/bin\/[^/]+\.rs$/.test(file) && !entries.has(file))) {
+      entries.set(file, path.posix.basename(file, '.rs'));
+    }
+  }
+
+  const goMod = files.has('go.mod') ? await read('go.mod') : null;
+  const modulePath = goMod?.match(/^module\s+(\S+)/m)?.[1];
+  for (const file of tree.filter(file => /^cmd\/[^/]+\/main\.go$/.test(file))) entries.set(file, file.split('/')[1]);
+  if (modulePath && files.has('main.go')) entries.set('main.go', modulePath.split('/').pop()!);
+  return entries;
+}
+
+/** Names a program after its file, or after its directory for files like `__main__.py` or `cli/index.ts`. */
+function programName(file: string): string {
+  const name = path.posix.basename(file).replace(/\.\w+$/, '');
+  const dir = path.posix.basename(path.posix.dirname(file));
+  return /^(__main__|main|cli|index|mod)$/.test(name) && !['.', 'src', 'bin', 'cmd', 'cli'].includes(dir) ? dir : name;
+}
+
+function flagsOf(command: CliCommand): string {
+  return [command.options.length ? '[options]' : '', ...command.arguments].filter(Boolean).join(' ');
+}
+
+function cell(text: string | undefined): string {
+  return (text ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function renderCliUsage(tools: CliTool[]): string {
+  if (tools.length === 0) return '';
+  const sections = tools.map(tool => {
+    const [root, ...subcommands] = tool.commands;
+    const heading = tools.length > 1 ? '###' : '';
+    const commandHeading = tools.length > 1 ? '####' : '###';
+    const parts: string[] = [];
+    if (heading) parts.push(`${heading} \`${tool.name}\``);
+    const synopsis = [tool.name, subcommands.length ? '<command>' : '', flagsOf(root)].filter(Boolean).join(' ');
+    parts.push(`\`\`\`sh\n${synopsis}\n\`\`\``);
+    if (root.description) parts.push(root.description);
+    if (subcommands.length) {
+      parts.push(['| Command | Description |', '| --- | --- |', ...subcommands.map(sub => `| \`${cell([sub.name, ...sub.arguments].join(' '))}\` | ${cell(sub.description)} |`)].join('\n'));
+    }
+    for (const entry of [root, ...subcommands]) {
+      if (entry.options.length === 0) continue;
+      const rows = entry.options.map(option => `| \`${cell(option.flags)}\` | ${cell(option.description)} | ${option.default !== undefined ? `\`${cell(option.default)}\`` : ''} |`);
+      const title = entry === root ? (subcommands.length ? `${commandHeading} Global options` : `${commandHeading} Options`) : `${commandHeading} \`${[entry.name, flagsOf(entry)].filter(Boolean).join(' ')}\``;
+      parts.push([title, entry !== root ? entry.description : undefined, ['| Option | Description | Default |', '| --- | --- | --- |', ...rows].join('\n')].filter(Boolean).join('\n\n'));
+    }
+    return parts.join('\n\n');
+  });
+  return `## Usage\n\n${sections.join('\n\n')}\n`;
+}
+
+export async function collectCliFacts(tree: string[], readFile: ReadRepoFile): Promise<CliFacts> {
+  const read = (file: string) => readFile(file).catch(e => {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return null;
+  });
+  const entries = await entryPoints(tree, read);
+  const candidates = [...new Set([
+    ...entries.keys(),
+    ...tree.filter(file => SOURCE_PATTERN.test(file) && CLI_PATH_PATTERN.test(file) && !IGNORED_PATH_PATTERN.test(file) && !/\.d\.ts$/.test(file))
+      .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b)),
+  ])].slice(0, MAX_CLI_FILES);
+
+  const byFramework = new Map<string, SourceFile[]>();
+  const contents = await Promise.all(candidates.map(read));
+  candidates.forEach((file, i) => {
+    const content = contents[i];
+    const framework = content ? FRAMEWORKS.find(candidate => candidate.pattern.test(content))?.name : undefined;
+    if (framework) byFramework.set(framework, [...byFramework.get(framework) ?? [], { file, content: content! }]);
+  });
+
+  const tools: CliTool[] = [];
+  for (const [framework, sources] of byFramework) {
+    let parsed: ParsedCli;
+    try {
+      parsed = parsers[framework](sources);
+    } catch (e) {
+      console.error(`Failed to parse ${framework} CLI definitions`, e);
+      continue;
+    }
+    const root = parsed.commands.find(entry => entry.path.length === 0);
+    if (!root && parsed.commands.length === 0) continue;
+    const entryName = sources.map(source => entries.get(source.file)).find(Boolean);
+    const name = entryName ?? parsed.name ?? [...entries.values()][0] ?? programName(sources[0].file);
+    const ordered = [root ?? { path: [], arguments: [], options: [] }, ...parsed.commands.filter(entry => entry !== root)];
+    const commands = ordered.slice(0, MAX_COMMANDS).map(entry => ({
+      name: [name, ...entry.path].join(' '),
+      arguments: entry.arguments,
+      description: entry.description,
+      options: entry.options.slice(0, MAX_OPTIONS_PER_COMMAND),
+    }));
+    if (commands.every(entry => entry.options.length === 0 && entry.arguments.length === 0) && commands.length === 1) continue;
+    tools.push({ name, framework, files: sources.map(source => source.file), commands });
+  }
+  return { tools, usage: renderCliUsage(tools) };
+}
@@ -0,0 +1,215 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {collectDeploymentFacts, parseDeploymentConfig} from './deployment';
+
+const lines = (...content: string[]) => content.join('\n');
+
+describe('deployment config parsing', () => {
+  test('Dockerfile with a multi-stage build', () => {
+    const config = parseDeploymentConfig('api/Dockerfile', lines(
+      'FROM node:20 AS build',
+      'ARG NPM_TOKEN',
+      'RUN npm ci',
+      'FROM node:20-slim',
+      'ENV NODE_ENV=production PORT=8080',
+      'EXPOSE 8080',
+      'CMD ["node", "dist/server.js"]',
+    ));
+    assert.deepEqual(config?.services, [{ name: 'api', image: 'node:20-slim', ports: ['8080'], command: 'node dist/server.js' }]);
+    assert.deepEqual(config?.env, ['NPM_TOKEN (build argument)', 'NODE_ENV', 'PORT']);
+    assert.deepEqual(config?.details, ['Multi-stage build with 2 stages (node:20, node:20-slim)']);
+    assert.deepEqual(config?.commands, ['docker build -t api api', 'docker run -p 8080:8080 api']);
+  });
+
+  test('docker-compose.yml with short and long port syntax', () => {
+    const config = parseDeploymentConfig('docker-compose.yml', lines(
+      'services:',
+      '  web:',
+      '    build: .',
+      '    ports:',
+      '      - "3000:3000"',
+      '    environment:',
+      '      - DATABASE_URL=postgres://db/app',
+      '    depends_on: [db]',
+      '  db:',
+      '    image: postgres:16',
+      '    ports:',
+      '      - published: 5433',
+      '        target: 5432',
+      '    environment:',
+      '      POSTGRES_PASSWORD: secret',
+      'volumes:',
+      '  pgdata: {}',
+    ));
+    assert.equal(config?.target, 'Docker Compose');
+    assert.deepEqual(config?.services.map(service => [service.name, service.image ?? service.build, service.ports]), [
+      ['web', '.', ['3000:3000']],
+      ['db', 'postgres:16', ['5433:5432']],
+    ]);
+    assert.deepEqual(config?.env, ['DATABASE_URL', 'POSTGRES_PASSWORD']);
+    assert.deepEqual(config?.details, ['web depends on db', 'Named volume pgdata']);
+    assert.deepEqual(config?.commands, ['docker compose up']);
+  });
+
+  test('apphosting.yaml marks secrets', () => {
+    const config = parseDeploymentConfig('apphosting.yaml', lines(
+      'runConfig:',
+      '  minInstances: 0',
+      '  maxInstances: 4',
+      'env:',
+      '  - variable: API_BASE_URL',
+      '    value: https://api.example.com',
+      '  - variable: GEMINI_API_KEY',
+      '    secret: gemini-key',
+    ));
+    assert.equal(config?.target, 'Firebase App Hosting');
+    assert.deepEqual(config?.env, ['API_BASE_URL', 'GEMINI_API_KEY (from Secret Manager)']);
+    assert.ok(config?.details.includes('runConfig.maxInstances: 4'));
+  });
+
+  test('firebase.json deploys the configured products', () => {
+    const config = parseDeploymentConfig('firebase.json', JSON.stringify({
+      hosting: { public: 'dist' },
+      functions: { source: 'functions', runtime: 'nodejs20' },
+      emulators: { auth: { port: 9099 } },
+    }));
+    assert.equal(config?.target, 'Firebase Hosting, Cloud Functions for Firebase');
+    assert.deepEqual(config?.details, ['Hosting serves dist', 'Functions from functions on nodejs20']);
+    assert.deepEqual(config?.services, [{ name: 'auth emulator', ports: ['9099'] }]);
+    assert.deepEqual(config?.commands, ['firebase deploy --only hosting,functions', 'firebase emulators:start']);
+  });
+
+  test('vercel.json', () => {
+    const config = parseDeploymentConfig('vercel.json', JSON.stringify({
+      framework: 'nextjs',
+      regions: ['fra1'],
+      env: { NEXT_PUBLIC_SITE_URL: 'https://example.com' },
+    }));
+    assert.deepEqual(config?.details, ['framework: nextjs', 'Regions: fra1']);
+    assert.deepEqual(config?.env, ['NEXT_PUBLIC_SITE_URL']);
+    assert.deepEqual(config?.commands, ['vercel deploy --prod']);
+  });
+
+  test('netlify.toml', () => {
+    const config = parseDeploymentConfig('netlify.toml', lines(
+      '[build]',
+      'command = "npm run build"',
+      'publish = "dist"',
+      '',
+      '[build.environment]',
+      'NODE_VERSION = "20"',
+      '',
+      '[dev]',
+      'port = 8888',
+      '',
+      '[[redirects]]',
+      'from = "/api/*"',
+      'to = "/.netlify/functions/:splat"',
+    ));
+    assert.deepEqual(config?.details, ['build.command: npm run build', 'build.publish: dist', '1 redirect rule(s)']);
+    assert.deepEqual(config?.env, ['NODE_VERSION']);
+    assert.deepEqual(config?.services, [{ name: 'netlify dev', ports: ['8888'], command: undefined }]);
+  });
+
+  test('fly.toml', () => {
+    const config = parseDeploymentConfig('fly.toml', lines(
+      'app = "hello-fly"',
+      'primary_region = "ams"',
+      '',
+      '[env]',
+      'LOG_LEVEL = "info"',
+      '',
+      '[http_service]',
+      'internal_port = 8080',
+      '',
+      '[[mounts]]',
+      'source = "data"',
+      'destination = "/data"',
+    ));
+    assert.deepEqual(config?.services, [{ name: 'hello-fly', image: undefined, build: undefined, ports: ['443:8080'] }]);
+    assert.deepEqual(config?.env, ['LOG_LEVEL']);
+    assert.deepEqual(config?.details, ['Primary region: ams', 'Volume data mounted at /data']);
+    assert.deepEqual(config?.commands, ['fly deploy']);
+  });
+
+  test('Helm chart with its values.yaml', () => {
+    const config = parseDeploymentConfig('charts/web/Chart.yaml', lines(
+      'apiVersion: v2',
+      'name: web',
+      'version: 1.2.0',
+      'appVersion: "3.4.5"',
+    ), lines(
+      'image:',
+      '  repository: ghcr.io/acme/web',
+      '  tag: "3.4.5"',
+      'service:',
+      '  type: ClusterIP',
+      '  port: 80',
+      'env:',
+      '  - name: REDIS_URL',
+      '    value: redis://redis:6379',
+    ));
+    assert.equal(config?.target, 'Kubernetes (Helm)');
+    assert.deepEqual(config?.services, [{ name: 'web', image: 'ghcr.io/acme/web:3.4.5', ports: ['80'] }]);
+    assert.deepEqual(config?.env, ['REDIS_URL']);
+    assert.deepEqual(config?.details, ['Chart version 1.2.0, app version 3.4.5', 'Service type ClusterIP']);
+    assert.deepEqual(config?.commands, ['helm install web charts/web']);
+  });
+
+  test('Kubernetes manifests with several documents', () => {
+    const config = parseDeploymentConfig('k8s/app.yaml', lines(
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'metadata:',
+      '  name: api',
+      'spec:',
+      '  replicas: 3',
+      '  template:',
+      '    spec:',
+      '      containers:',
+      '        - name: server',
+      '          image: acme/api:1.0',
+      '          ports:',
+      '            - containerPort: 8080',
+      '          env:',
+      '            - name: DATABASE_URL',
+      '              valueFrom:',
+      '                secretKeyRef: { name: db, key: url }',
+      '---',
+      'apiVersion: v1',
+      'kind: Service',
+      'metadata:',
+      '  name: api',
+      'spec:',
+      '  ports:',
+      '    - port: 80',
+      '      targetPort: 8080',
+    ));
+    assert.deepEqual(config?.services, [{ name: 'api/server', image: 'acme/api:1.0', ports: ['8080'], command: undefined }]);
+    assert.deepEqual(config?.env, ['DATABASE_URL']);
+    assert.deepEqual(config?.details, ['Deployment api: 3 replicas', 'Service api (ClusterIP) on ports 80:8080']);
+    assert.deepEqual(config?.commands, ['kubectl apply -f k8s/app.yaml']);
+  });
+
+  test('YAML that is not a Kubernetes manifest is skipped', () => {
+    assert.equal(parseDeploymentConfig('deploy/settings.yaml', 'region: eu\n'), null);
+  });
+
+  test('malformed configs yield no facts', () => {
+    assert.equal(parseDeploymentConfig('fly.toml', 'app = '), null);
+    assert.equal(parseDeploymentConfig('vercel.json', '{'), null);
+  });
+
+  test('collects configs from a repository, skipping nested and example ones', async () => {
+    const files: Record<string, string> = {
+      'Dockerfile': 'FROM python:3.12\nEXPOSE 8000\n',
+      'fly.toml': 'app = "svc"\n',
+      'examples/Dockerfile': 'FROM scratch\n',
+      'a/b/c/Dockerfile': 'FROM scratch\n',
+      'README.md': '# svc\n',
+    };
+    const facts = await collectDeploymentFacts(Object.keys(files), async file => files[file] ?? null);
+    assert.deepEqual(facts.configs.map(config => config.file), ['Dockerfile', 'fly.toml']);
+    assert.deepEqual(facts.targets, ['Docker', 'Fly.io']);
+  });
+});
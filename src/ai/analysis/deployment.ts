@@ -0,0 +1,406 @@
+/**
+ * @fileOverview Structured analysis of container and deployment configuration.
+ *
+ * Each supported config is reduced to its deploy target, the services it
+ * runs with their images and ports, the names of the environment variables it
+ * expects and the canonical commands to deploy it. Only variable names are
+ * kept, never values, since deployment configs regularly carry secrets.
+ *
+ * Supported: Dockerfile, docker-compose.yml / compose.yaml, apphosting.yaml
+ * (Firebase App Hosting), firebase.json, vercel.json, netlify.toml, fly.toml,
+ * Helm charts (Chart.yaml with values.yaml) and Kubernetes manifests.
+ *
+ * - DeploymentConfigSchema - The Zod schema for the facts of a single deployment config.
+ * - DeploymentConfig - The TypeScript type for the facts of a single deployment config.
+ * - DeploymentFactsSchema - The Zod schema for the deployment facts of a whole repository.
+ * - DeploymentFacts - The TypeScript type for the deployment facts of a whole repository.
+ * - isDeploymentConfig - Checks whether a path may name a supported deployment config.
+ * - parseDeploymentConfig - Parses a single deployment config into its facts.
+ * - collectDeploymentFacts - Finds, reads and parses the deployment configs of a repository.
+ */
+
+import path from 'node:path';
+import {parse as parseToml} from 'smol-toml';
+import {parseAllDocuments, parseDocument} from 'yaml';
+import {z} from 'zod';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import {YAML_OPTIONS, type ReadRepoFile, type YamlValue} from './types';
+
+const DeploymentServiceSchema = z.object({
+  name: z.string(),
+  image: z.string().optional().describe('The image the service runs, or the base image of a Dockerfile.'),
+  build: z.string().optional().describe('The build context or Dockerfile the image is built from.'),
+  ports: z.array(z.string()).describe('Exposed ports, as "host:container" where both are known.'),
+  command: z.string().optional(),
+});
+
+export const DeploymentConfigSchema = z.object({
+  file: z.string().describe('The path of the config file.'),
+  kind: z.string().describe('The kind of config, e.g. dockerfile, docker-compose, firebase-app-hosting, firebase, vercel, netlify, fly, helm or kubernetes.'),
+  target: z.string().describe('What the config deploys to, e.g. "Docker", "Firebase App Hosting" or "Kubernetes".'),
+  services: z.array(DeploymentServiceSchema),
+  env: z.array(z.string()).describe('Names of the environment variables the deployment sets or expects; values are never included.'),
+  details: z.array(z.string()).describe('Other settings worth documenting, e.g. regions, instance limits or build commands.'),
+  commands: z.array(z.string()).describe('The canonical commands to build, run or deploy with this config.'),
+});
+
+export type DeploymentConfig = z.infer<typeof DeploymentConfigSchema>;
+
+export const DeploymentFactsSchema = z.object({
+  configs: z.array(DeploymentConfigSchema),
+  targets: z.array(z.string()).describe('The distinct deploy targets found.'),
+});
+
+export type DeploymentFacts = z.infer<typeof DeploymentFactsSchema>;
+
+const MAX_DEPLOYMENT_CONFIGS = 15;
+/** Deployment configs deeper than this belong to nested services that are rarely worth a README section. */
+const MAX_DEPLOYMENT_DEPTH = 3;
+const MAX_ENV_NAMES = 40;
+
+const CONFIG_KINDS: Record<string, string> = {
+  'docker-compose.yml': 'docker-compose',
+  'docker-compose.yaml': 'docker-compose',
+  'compose.yml': 'docker-compose',
+  'compose.yaml': 'docker-compose',
+  'apphosting.yaml': 'firebase-app-hosting',
+  'firebase.json': 'firebase',
+  'vercel.json': 'vercel',
+  'netlify.toml': 'netlify',
+  'fly.toml': 'fly',
+  'Chart.yaml': 'helm',
+};
+
+/** Directories that conventionally hold Kubernetes manifests. */
+const KUBERNETES_DIR_PATTERN = /(^|\/)(k8s|kube|kubernetes|deploy|deployment|deployments|manifests|kustomize)\//;
+
+function configKind(filePath: string): string | undefined {
+  const base = path.posix.basename(filePath);
+  if (CONFIG_KINDS[base]) return CONFIG_KINDS[base];
+  if (/^Dockerfile(\..+)?$|\.Dockerfile$/i.test(base)) return 'dockerfile';
+  // Helm templates are Go templates rather than YAML; the chart's values describe them instead.
+  if (/\.ya?ml$/.test(base) && KUBERNETES_DIR_PATTERN.test(filePath) && !/(^|\/)templates\//.test(filePath)) return 'kubernetes';
+  return undefined;
+}
+
+export function isDeploymentConfig(filePath: string): boolean {
+  return configKind(filePath) !== undefined;
+}
+
+type YamlMap = { [key: string]: YamlValue };
+
+function asMap(value: unknown): YamlMap {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as YamlMap : {};
+}
+
+function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function dig(value: unknown, ...keys: string[]): YamlMap {
+  return keys.reduce<YamlMap>((map, key) => asMap(map[key]), asMap(value));
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Environment variables come as `NAME=value` lists, `{NAME: value}` maps or `{name: NAME}` entries. */
+function envNames(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => asText(item)?.split('=')[0] ?? asText(asMap(item).name) ?? asText(asMap(item).variable))
+      .filter((name): name is string => !!name);
+  }
+  return Object.keys(asMap(value));
+}
+
+function emptyConfig(file: string, kind: string, target: string): DeploymentConfig {
+  return { file, kind, target, services: [], env: [], details: [], commands: [] };
+}
+
+/** CMD and ENTRYPOINT take a JSON array in exec form; it reads better as a shell command. */
+function execForm(args: string): string {
+  try {
+    const parts = JSON.parse(args);
+    return Array.isArray(parts) ? parts.join(' ') : args;
+  } catch {
+    return args;
+  }
+}
+
+function parseDockerfile(file: string, content: string): DeploymentConfig {
+  const config = emptyConfig(file, 'dockerfile', 'Docker');
+  const dir = path.posix.dirname(file);
+  const service: z.infer<typeof DeploymentServiceSchema> = { name: dir === '.' ? 'app' : path.posix.basename(dir), ports: [] };
+  const images: string[] = [];
+  const instructions = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  for (const line of instructions) {
+    const [, instruction = '', args = ''] = line.match(/^(\w+)\s+(.*)$/) ?? [];
+    switch (instruction.toUpperCase()) {
+      case 'FROM':
+        images.push(args.split(/\s+/)[0]);
+        break;
+      case 'EXPOSE':
+        service.ports.push(...args.split(/\s+/).filter(Boolean));
+        break;
+      case 'ENV':
+      case 'ARG': {
+        const names = args.includes('=') ? [...args.matchAll(/([\w.-]+)=/g)].map(match => match[1]) : [args.split(/\s+/)[0]];
+        config.env.push(...names.map(name => instruction.toUpperCase() === 'ARG' ? `${name} (build argument)` : name));
+        break;
+      }
+      case 'CMD':
+      case 'ENTRYPOINT':
+        service.command = execForm(args);
+        break;
+    }
+  }
+  // The last stage is the image that runs; earlier ones are build stages.
+  service.image = images[images.length - 1];
+  if (images.length > 1) config.details.push(`Multi-stage build with ${images.length} stages (${images.join(', ')})`);
+  config.services.push(service);
+  const dockerfileFlag = path.posix.basename(file) === 'Dockerfile' ? '' : ` -f ${file}`;
+  const port = service.ports[0]?.split('/')[0];
+  config.commands.push(`docker build${dockerfileFlag} -t ${service.name} ${dir}`);
+  config.commands.push(`docker run${port ? ` -p ${port}:${port}` : ''} ${service.name}`);
+  return config;
+}
+
+function parseCompose(file: string, content: string): DeploymentConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'docker-compose', 'Docker Compose');
+  for (const [name, value] of Object.entries(asMap(data.services))) {
+    const service = asMap(value);
+    const ports = asList(service.ports).map(port => {
+      const long = asMap(port);
+      return asText(port) ?? [asText(long.published), asText(long.target)].filter(Boolean).join(':');
+    }).filter(Boolean);
+    config.services.push({
+      name,
+      image: asText(service.image),
+      build: asText(service.build) ?? asText(asMap(service.build).context),
+      ports,
+      command: asText(service.command) ?? (Array.isArray(service.command) ? service.command.join(' ') : undefined),
+    });
+    config.env.push(...envNames(service.environment));
+    for (const envFile of asList(service.env_file)) config.details.push(`${name} reads environment variables from ${asText(envFile) ?? asText(asMap(envFile).path)}`);
+    const dependsOn = Array.isArray(service.depends_on) ? service.depends_on.map(String) : Object.keys(asMap(service.depends_on));
+    if (dependsOn.length) config.details.push(`${name} depends on ${dependsOn.join(', ')}`);
+  }
+  for (const volume of Object.keys(asMap(data.volumes))) config.details.push(`Named volume ${volume}`);
+  config.commands.push(path.posix.dirname(file) === '.' && /^(docker-)?compose\.ya?ml$/.test(path.posix.basename(file))
+    ? 'docker compose up'
+    : `docker compose -f ${file} up`);
+  return config;
+}
+
+function parseAppHosting(file: string, content: string): DeploymentConfig {
+  const data = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'firebase-app-hosting', 'Firebase App Hosting');
+  for (const [key, value] of Object.entries(asMap(data.runConfig))) {
+    if (asText(value)) config.details.push(`runConfig.${key}: ${asText(value)}`);
+  }
+  for (const entry of asList(data.env).map(asMap)) {
+    const name = asText(entry.variable);
+    if (name) config.env.push(entry.secret !== undefined ? `${name} (from Secret Manager)` : name);
+  }
+  config.details.push('Rollouts are triggered by pushes to the backend\'s live branch, or from the Firebase console.');
+  config.commands.push('firebase apphosting:backends:create');
+  return config;
+}
+
+const FIREBASE_PRODUCTS: Record<string, string> = {
+  hosting: 'Firebase Hosting',
+  functions: 'Cloud Functions for Firebase',
+  firestore: 'Cloud Firestore',
+  database: 'Realtime Database',
+  storage: 'Cloud Storage for Firebase',
+  apphosting: 'Firebase App Hosting',
+};
+
+function parseFirebaseJson(file: string, content: string): DeploymentConfig {
+  const data = JSON.parse(content);
+  const products = Object.keys(FIREBASE_PRODUCTS).filter(key => data[key] !== undefined);
+  const config = emptyConfig(file, 'firebase', products.length ? products.map(key => FIREBASE_PRODUCTS[key]).join(', ') : 'Firebase');
+  for (const hosting of asList(data.hosting).map(asMap)) {
+    if (asText(hosting.public)) config.details.push(`Hosting serves ${asText(hosting.public)}${asText(hosting.site) ? ` for site ${asText(hosting.site)}` : ''}`);
+    if (asText(asMap(hosting.frameworksBackend).region)) config.details.push(`Framework backend region: ${asText(asMap(hosting.frameworksBackend).region)}`);
+    if (asText(hosting.source)) config.details.push(`Hosting builds the web framework app in ${asText(hosting.source)}`);
+  }
+  for (const functions of asList(data.functions).map(asMap)) {
+    config.details.push(`Functions from ${asText(functions.source) ?? 'functions'}${asText(functions.runtime) ? ` on ${asText(functions.runtime)}` : ''}`);
+  }
+  for (const [name, emulator] of Object.entries(asMap(data.emulators))) {
+    const port = asText(asMap(emulator).port);
+    if (port) config.services.push({ name: `${name} emulator`, ports: [port] });
+  }
+  config.commands.push(products.length ? `firebase deploy --only ${products.join(',')}` : 'firebase deploy');
+  if (data.emulators) config.commands.push('firebase emulators:start');
+  return config;
+}
+
+function parseVercelJson(file: string, content: string): DeploymentConfig {
+  const data = JSON.parse(content);
+  const config = emptyConfig(file, 'vercel', 'Vercel');
+  for (const key of ['framework', 'buildCommand', 'installCommand', 'outputDirectory', 'devCommand']) {
+    if (asText(data[key])) config.details.push(`${key}: ${asText(data[key])}`);
+  }
+  if (Array.isArray(data.regions)) config.details.push(`Regions: ${data.regions.join(', ')}`);
+  if (Array.isArray(data.crons)) config.details.push(`${data.crons.length} cron job(s)`);
+  config.env.push(...envNames(data.env), ...envNames(asMap(data.build).env));
+  config.commands.push('vercel deploy --prod');
+  return config;
+}
+
+function parseNetlifyToml(file: string, content: string): DeploymentConfig {
+  const data: Record<string, any> = parseToml(content);
+  const config = emptyConfig(file, 'netlify', 'Netlify');
+  const build = asMap(data.build);
+  for (const key of ['base', 'command', 'publish', 'functions', 'edge_functions']) {
+    if (asText(build[key])) config.details.push(`build.${key}: ${asText(build[key])}`);
+  }
+  config.env.push(...envNames(build.environment));
+  const dev = asMap(data.dev);
+  if (asText(dev.port)) config.services.push({ name: 'netlify dev', ports: [asText(dev.port)!], command: asText(dev.command) });
+  if (Array.isArray(data.redirects)) config.details.push(`${data.redirects.length} redirect rule(s)`);
+  if (Array.isArray(data.plugins)) config.details.push(`Build plugins: ${data.plugins.map(plugin => asText(asMap(plugin).package)).filter(Boolean).join(', ')}`);
+  config.commands.push('netlify deploy --prod');
+  return config;
+}
+
+function parseFlyToml(file: string, content: string): DeploymentConfig {
+  const data: Record<string, any> = parseToml(content);
+  const config = emptyConfig(file, 'fly', 'Fly.io');
+  const app = asText(data.app) ?? 'app';
+  if (asText(data.primary_region)) config.details.push(`Primary region: ${asText(data.primary_region)}`);
+  const build = asMap(data.build);
+  const ports: string[] = [];
+  const httpService = asMap(data.http_service);
+  if (asText(httpService.internal_port)) ports.push(`443:${asText(httpService.internal_port)}`);
+  for (const service of asList(data.services).map(asMap)) {
+    const internal = asText(service.internal_port);
+    for (const port of asList(service.ports).map(asMap)) {
+      if (asText(port.port) && internal) ports.push(`${asText(port.port)}:${internal}`);
+    }
+  }
+  config.services.push({ name: app, image: asText(build.image), build: asText(build.dockerfile) ?? asText(build.builder), ports });
+  config.env.push(...envNames(data.env));
+  for (const mount of asList(data.mounts).map(asMap)) {
+    if (asText(mount.source)) config.details.push(`Volume ${asText(mount.source)} mounted at ${asText(mount.destination)}`);
+  }
+  config.commands.push('fly deploy');
+  return config;
+}
+
+/** Reads a chart's metadata together with the image and service settings from its values.yaml. */
+function parseHelmChart(file: string, content: string, values: string | null): DeploymentConfig {
+  const chart = asMap(parseDocument(content, YAML_OPTIONS).toJS());
+  const config = emptyConfig(file, 'helm', 'Kubernetes (Helm)');
+  const name = asText(chart.name) ?? path.posix.basename(path.posix.dirname(file));
+  if (asText(chart.version)) config.details.push(`Chart version ${asText(chart.version)}${asText(chart.appVersion) ? `, app version ${asText(chart.appVersion)}` : ''}`);
+  const dependencies = asList(chart.dependencies).map(dep => asText(asMap(dep).name)).filter(Boolean);
+  if (dependencies.length) config.details.push(`Chart dependencies: ${dependencies.join(', ')}`);
+
+  const data = asMap(values ? parseDocument(values, YAML_OPTIONS).toJS() : null);
+  const image = asMap(data.image);
+  const service = asMap(data.service);
+  config.services.push({
+    name,
+    image: asText(image.repository) ? `${asText(image.repository)}${asText(image.tag) ? `:${asText(image.tag)}` : ''}` : undefined,
+    ports: asText(service.port) ? [asText(service.port)!] : [],
+  });
+  if (asText(service.type)) config.details.push(`Service type ${asText(service.type)}`);
+  if (asMap(data.ingress).enabled === true) config.details.push('Ingress enabled');
+  config.env.push(...envNames(data.env), ...envNames(data.extraEnv));
+  config.commands.push(`helm install ${name} ${path.posix.dirname(file)}`);
+  return config;
+}
+
+const WORKLOAD_KINDS = new Set(['Deployment', 'StatefulSet', 'DaemonSet', 'Job', 'CronJob', 'Pod']);
+
+function parseKubernetesManifest(file: string, content: string): DeploymentConfig | null {
+  const documents = parseAllDocuments(content, YAML_OPTIONS).map(doc => asMap(doc.toJS())).filter(doc => asText(doc.apiVersion) && asText(doc.kind));
+  if (documents.length === 0) return null;
+  const config = emptyConfig(file, 'kubernetes', 'Kubernetes');
+  for (const doc of documents) {
+    const kind = asText(doc.kind)!;
+    const name = asText(asMap(doc.metadata).name) ?? kind.toLowerCase();
+    if (WORKLOAD_KINDS.has(kind)) {
+      // Pods are nested differently per workload kind; CronJobs add a job template level.
+      const podSpec = kind === 'Pod' ? asMap(doc.spec)
+        : kind === 'CronJob' ? dig(doc, 'spec', 'jobTemplate', 'spec', 'template', 'spec')
+        : dig(doc, 'spec', 'template', 'spec');
+      for (const container of asList(podSpec.containers).map(asMap)) {
+        config.services.push({
+          name: `${name}/${asText(container.name) ?? 'container'}`,
+          image: asText(container.image),
+          ports: asList(container.ports).map(port => asText(asMap(port).containerPort)).filter((port): port is string => !!port),
+          command: asList(container.command).length ? asList(container.command).map(String).join(' ') : undefined,
+        });
+        config.env.push(...envNames(container.env));
+      }
+      if (asText(asMap(doc.spec).replicas)) config.details.push(`${kind} ${name}: ${asText(asMap(doc.spec).replicas)} replicas`);
+    } else if (kind === 'Service') {
+      const ports = asList(asMap(doc.spec).ports).map(asMap).map(port => [asText(port.port), asText(port.targetPort)].filter(Boolean).join(':'));
+      config.details.push(`Service ${name} (${asText(asMap(doc.spec).type) ?? 'ClusterIP'}) on ports ${ports.join(', ') || 'none'}`);
+    } else if (kind === 'Ingress') {
+      const hosts = asList(asMap(doc.spec).rules).map(rule => asText(asMap(rule).host)).filter(Boolean);
+      config.details.push(`Ingress ${name}${hosts.length ? ` for ${hosts.join(', ')}` : ''}`);
+    } else {
+      config.details.push(`${kind} ${name}`);
+    }
+  }
+  const dir = path.posix.dirname(file);
+  config.commands.push(path.posix.basename(file).startsWith('kustomization.') ? `kubectl apply -k ${dir}` : `kubectl apply -f ${file}`);
+  return config;
+}
+
+const parsers: Record<string, (file: string, content: string, chartValues: string | null) => DeploymentConfig | null> = {
+  'dockerfile': parseDockerfile,
+  'docker-compose': parseCompose,
+  'firebase-app-hosting': parseAppHosting,
+  'firebase': parseFirebaseJson,
+  'vercel': parseVercelJson,
+  'netlify': parseNetlifyToml,
+  'fly': parseFlyToml,
+  'helm': parseHelmChart,
+  'kubernetes': parseKubernetesManifest,
+};
+
+/** `chartValues` is the content of a Helm chart's values.yaml, next to its Chart.yaml. */
+export function parseDeploymentConfig(file: string, content: string, chartValues: string | null = null): DeploymentConfig | null {
+  const kind = configKind(file);
+  if (!kind) return null;
+  try {
+    const config = parsers[kind](file, content, chartValues);
+    if (config) config.env = [...new Set(config.env)].slice(0, MAX_ENV_NAMES);
+    return config;
+  } catch (e) {
+    console.error(`Failed to parse deployment config ${file}`, e);
+    return null;
+  }
+}
+
+export async function collectDeploymentFacts(tree: string[], readFile: ReadRepoFile): Promise<DeploymentFacts> {
+  const files = tree
+    .filter(filePath => isDeploymentConfig(filePath) && filePath.split('/').length <= MAX_DEPLOYMENT_DEPTH)
+    .filter(filePath => !/(^|\/)(node_modules|vendor|examples?|tests?|fixtures)\//.test(filePath))
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .slice(0, MAX_DEPLOYMENT_CONFIGS);
+
+  const read = (filePath: string) => readFile(filePath).catch(e => {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return null;
+  });
+  const configs = await Promise.all(files.map(async file => {
+    const content = await read(file);
+    if (!content) return null;
+    const values = configKind(file) === 'helm' ? await read(path.posix.join(path.posix.dirname(file), 'values.yaml')) : null;
+    return parseDeploymentConfig(file, content, values);
+  }));
+
+  const found = configs.filter((config): config is DeploymentConfig => config !== null);
+  return { configs: found, targets: [...new Set(found.map(config => config.target))] };
+}
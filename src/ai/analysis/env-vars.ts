@@ -0,0 +1,232 @@
+/**
+ * @fileOverview Discovery of the environment variables a project reads.
+ *
+ * Source files are scanned for the idioms each language uses to read the
+ * environment, and example env files (.env.example and the like) for the
+ * variables a project asks its users to set. The sources are taken from the
+ * whole tree rather than from the files picked for the prompt, since the
+ * variables are often read in modules that are too deep to make that cut.
+ * Each variable is reported with the files that read it, the default the code
+ * falls back to where that is a literal, and the comment and value an example
+ * file documents it with. Example values are often placeholders, so they are
+ * kept apart from defaults, and dropped for variables named like secrets.
+ * Values from real .env files are never read, since they hold secrets.
+ *
+ * Supported: JavaScript and TypeScript (process.env, import.meta.env, Deno and
+ * Bun), Python (os.environ, os.getenv), Go (os.Getenv, os.LookupEnv), Rust
+ * (std::env::var, env!), Ruby (ENV), PHP (getenv, $_ENV, env()), Java
+ * (System.getenv) and C# (Environment.GetEnvironmentVariable).
+ *
+ * - EnvVarSchema - The Zod schema for a single environment variable.
+ * - EnvVar - The TypeScript type for a single environment variable.
+ * - EnvFactsSchema - The Zod schema for the environment variables of a repository.
+ * - EnvFacts - The TypeScript type for the environment variables of a repository.
+ * - isEnvExample - Checks whether a path names an example env file.
+ * - findEnvVarReads - Finds the environment variables a source file reads.
+ * - parseEnvExample - Parses the variables of an example env file.
+ * - collectEnvFacts - Reads the sources and example env files of a repository and merges their variables.
+ */
+
+import path from 'node:path';
+import {z} from 'zod';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {ReadRepoFile} from './types';
+
+export const EnvVarSchema = z.object({
+  name: z.string(),
+  files: z.array(z.string()).describe('The files that read or declare the variable.'),
+  hasDefault: z.boolean().describe('Whether the code falls back to a default when the variable is not set.'),
+  defaultValue: z.string().optional().describe('The default, when it is a short literal.'),
+  description: z.string().optional().describe('The comment an example env file documents the variable with.'),
+  exampleValue: z.string().optional().describe('The value an example env file suggests, when it is short. Not a default: it may be a placeholder.'),
+});
+
+export type EnvVar = z.infer<typeof EnvVarSchema>;
+
+export const EnvFactsSchema = z.object({
+  variables: z.array(EnvVarSchema),
+});
+
+export type EnvFacts = z.infer<typeof EnvFactsSchema>;
+
+const MAX_ENV_VARS = 50;
+const MAX_FILES_PER_VAR = 5;
+const MAX_DEFAULT_LENGTH = 60;
+const MAX_ENV_EXAMPLES = 5;
+/** Example values of these variables are left out, in case a real secret was committed to the example file. */
+const SECRET_NAME_PATTERN = /SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|(^|_)(API_?)?KEY($|_)|(^|_)PASS($|_)/i;
+/** Bounds the reads per generation; shallow files are scanned first. */
+const MAX_SOURCE_FILES = 150;
+
+const IGNORED_PATH_PATTERN = /(^|\/)(node_modules|vendor|dist|build|out|\.next|target|tests?|__tests__|testdata|e2e|fixtures|examples?)\/|\.(test|spec)\.\w+$|_test\.go$|\.d\.ts$/;
+
+/** Variables set by the OS, shell or tooling rather than by whoever configures the project. */
+const IGNORED_VARIABLES = new Set(['NODE_ENV', 'CI', 'HOME', 'PATH', 'PWD', 'USER', 'SHELL', 'TERM', 'TMPDIR', 'LANG']);
+const IGNORED_PREFIXES = ['CARGO_', 'npm_'];
+
+const ENV_EXAMPLE_PATTERN = /^(\.env\.(example|sample|template|dist|defaults)|\.env\.local\.example|example\.env|env\.example|sample\.env)$/;
+
+export function isEnvExample(filePath: string): boolean {
+  return ENV_EXAMPLE_PATTERN.test(path.posix.basename(filePath));
+}
+
+const NAME = '([A-Za-z_][A-Za-z0-9_]*)';
+/** How far past a read its fallback may start, e.g. after `?? `. */
+const FALLBACK_WINDOW = 200;
+/** A string or number literal, as a default value. */
+const LITERAL = `("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'|\`[^\`$\\n]*\`|-?\\d+(?:\\.\\d+)?|true|false|True|False)`;
+
+interface ReadPattern {
+  /** Matches a read; group 1 is the variable name. */
+  read: RegExp;
+  /** Matches what directly follows a read when it falls back to a default; group 1 is the default. */
+  fallback?: RegExp;
+  /** Whether the matched read passes its default inline, as group 2. */
+  inlineDefault?: boolean;
+}
+
+const JS_FALLBACK = new RegExp(`^\\s*(?:\\|\\||\\?\\?)\\s*(${LITERAL.slice(1, -1)}|[\\w.]+)`);
+
+const PATTERNS: Record<string, ReadPattern[]> = {
+  js: [
+    { read: new RegExp(`\\b(?:process\\.env|import\\.meta\\.env|Bun\\.env)\\.${NAME}`, 'g'), fallback: JS_FALLBACK },
+    { read: new RegExp(`\\b(?:process\\.env|import\\.meta\\.env|Bun\\.env)\\[\\s*["'\`]${NAME}["'\`]\\s*\\]`, 'g'), fallback: JS_FALLBACK },
+    { read: new RegExp(`\\bDeno\\.env\\.get\\(\\s*["'\`]${NAME}["'\`]\\s*\\)`, 'g'), fallback: JS_FALLBACK },
+  ],
+  py: [
+    { read: new RegExp(`\\bos\\.environ\\[\\s*["']${NAME}["']\\s*\\]`, 'g') },
+    { read: new RegExp(`\\b(?:os\\.environ\\.get|os\\.getenv|getenv|environ\\.get)\\(\\s*["']${NAME}["']\\s*(?:,\\s*${LITERAL}|,\\s*(?:default\\s*=\\s*)?([\\w.]+))?\\s*\\)`, 'g'), inlineDefault: true },
+    { read: new RegExp(`\\bos\\.environ\\.setdefault\\(\\s*["']${NAME}["']\\s*,\\s*${LITERAL}`, 'g'), inlineDefault: true },
+  ],
+  go: [
+    { read: new RegExp(`\\bos\\.(?:Getenv|LookupEnv)\\(\\s*"${NAME}"\\s*\\)`, 'g') },
+  ],
+  rs: [
+    { read: new RegExp(`\\b(?:std::)?env::var(?:_os)?\\(\\s*"${NAME}"\\s*\\)`, 'g'), fallback: new RegExp(`^\\s*\\.unwrap_or(?:_else)?\\(\\s*(?:\\|\\|\\s*)?${LITERAL}`) },
+    { read: new RegExp(`\\b(?:option_)?env!\\(\\s*"${NAME}"\\s*\\)`, 'g') },
+  ],
+  rb: [
+    { read: new RegExp(`\\bENV\\[\\s*["']${NAME}["']\\s*\\]`, 'g'), fallback: new RegExp(`^\\s*\\|\\|\\s*${LITERAL}`) },
+    { read: new RegExp(`\\bENV\\.fetch\\(\\s*["']${NAME}["']\\s*(?:,\\s*${LITERAL})?`, 'g'), inlineDefault: true },
+  ],
+  php: [
+    { read: new RegExp(`\\$_(?:ENV|SERVER)\\[\\s*["']${NAME}["']\\s*\\]`, 'g'), fallback: new RegExp(`^\\s*\\?\\?\\s*${LITERAL}`) },
+    { read: new RegExp(`\\b(?:getenv|env)\\(\\s*["']${NAME}["']\\s*(?:,\\s*${LITERAL})?`, 'g'), inlineDefault: true },
+  ],
+  java: [
+    { read: new RegExp(`\\bSystem\\.getenv\\(\\s*"${NAME}"\\s*\\)`, 'g') },
+  ],
+  cs: [
+    { read: new RegExp(`\\bEnvironment\\.GetEnvironmentVariable\\(\\s*"${NAME}"\\s*\\)`, 'g'), fallback: new RegExp(`^\\s*\\?\\?\\s*${LITERAL}`) },
+  ],
+};
+
+const LANGUAGES: Record<string, string> = {
+  '.js': 'js', '.jsx': 'js', '.mjs': 'js', '.cjs': 'js', '.ts': 'js', '.tsx': 'js', '.mts': 'js', '.cts': 'js', '.vue': 'js', '.svelte': 'js', '.astro': 'js',
+  '.py': 'py',
+  '.go': 'go',
+  '.rs': 'rs',
+  '.rb': 'rb',
+  '.php': 'php',
+  '.java': 'java', '.kt': 'java', '.scala': 'java',
+  '.cs': 'cs',
+};
+
+function unquote(literal: string): string {
+  return /^["'`]/.test(literal) ? literal.slice(1, -1) : literal;
+}
+
+/** Defaults that are identifiers or expressions rather than literals are reported as present but unknown. */
+function literalDefault(value: string | undefined): string | undefined {
+  if (value === undefined || !new RegExp(`^${LITERAL}$`).test(value)) return undefined;
+  const text = unquote(value);
+  return text.length <= MAX_DEFAULT_LENGTH ? text : undefined;
+}
+
+export function findEnvVarReads(filePath: string, content: string): { name: string; hasDefault: boolean; defaultValue?: string }[] {
+  const language = LANGUAGES[path.posix.extname(filePath).toLowerCase()];
+  if (!language) return [];
+  const reads: { name: string; hasDefault: boolean; defaultValue?: string }[] = [];
+  for (const pattern of PATTERNS[language]) {
+    for (const match of content.matchAll(pattern.read)) {
+      const name = match[1];
+      const fallback = pattern.inlineDefault
+        ? match[2] ?? match[3]
+        : pattern.fallback && content.slice(match.index! + match[0].length, match.index! + match[0].length + FALLBACK_WINDOW).match(pattern.fallback)?.[1];
+      reads.push({ name, hasDefault: fallback !== undefined && fallback !== null, defaultValue: literalDefault(fallback ?? undefined) });
+    }
+  }
+  return reads;
+}
+
+/** Comments directly above a variable describe it; a blank line ends a comment block. */
+export function parseEnvExample(content: string): { name: string; value?: string; description?: string }[] {
+  const variables: { name: string; value?: string; description?: string }[] = [];
+  let comments: string[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      comments = [];
+      continue;
+    }
+    if (line.startsWith('#')) {
+      comments.push(line.replace(/^#+\s*/, ''));
+      continue;
+    }
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (match) {
+      const [, name, rest] = match;
+      const [, rawValue = '', inlineComment] = rest.match(/^("(?:[^"\\]|\\.)*"|'[^']*'|[^#]*?)\s*(?:#\s*(.*))?$/) ?? [];
+      const value = unquote(rawValue.trim());
+      const description = [...comments, inlineComment].filter(Boolean).join(' ').trim();
+      variables.push({ name, value: value || undefined, description: description || undefined });
+    }
+    comments = [];
+  }
+  return variables;
+}
+
+const byDepth = (a: string, b: string) => a.split('/').length - b.split('/').length || a.localeCompare(b);
+
+export async function collectEnvFacts(tree: string[], readFile: ReadRepoFile): Promise<EnvFacts> {
+  const examples = tree.filter(isEnvExample).sort(byDepth).slice(0, MAX_ENV_EXAMPLES);
+  const sources = tree
+    .filter(file => LANGUAGES[path.posix.extname(file).toLowerCase()] && !IGNORED_PATH_PATTERN.test(file))
+    .sort(byDepth)
+    .slice(0, MAX_SOURCE_FILES);
+  const read = (filePath: string) => readFile(filePath).catch(e => {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return null;
+  });
+
+  const variables = new Map<string, EnvVar>();
+  const add = (name: string, file: string, details: Partial<EnvVar>) => {
+    if (IGNORED_VARIABLES.has(name) || IGNORED_PREFIXES.some(prefix => name.startsWith(prefix))) return;
+    const variable = variables.get(name) ?? { name, files: [], hasDefault: false };
+    if (!variable.files.includes(file) && variable.files.length < MAX_FILES_PER_VAR) variable.files.push(file);
+    variable.hasDefault ||= !!details.hasDefault;
+    variable.defaultValue ??= details.defaultValue;
+    variable.description ??= details.description;
+    variable.exampleValue ??= details.exampleValue;
+    variables.set(name, variable);
+  };
+
+  const [exampleContents, sourceContents] = await Promise.all([
+    Promise.all(examples.map(read)),
+    Promise.all(sources.map(read)),
+  ]);
+  // Example files come first, so their descriptions lead and their variables are kept when the list is cut.
+  examples.forEach((file, i) => {
+    for (const { name, value, description } of parseEnvExample(exampleContents[i] ?? '')) {
+      const exampleValue = value && value.length <= MAX_DEFAULT_LENGTH && !SECRET_NAME_PATTERN.test(name) ? value : undefined;
+      add(name, file, { description, exampleValue });
+    }
+  });
+  sources.forEach((file, i) => {
+    for (const { name, hasDefault, defaultValue } of findEnvVarReads(file, sourceContents[i] ?? '')) {
+      add(name, file, { hasDefault, defaultValue });
+    }
+  });
+
+  return { variables: [...variables.values()].slice(0, MAX_ENV_VARS) };
+}
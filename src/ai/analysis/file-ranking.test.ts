@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import {describe, mock, test} from 'node:test';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import {rankPaths, selectFiles} from './file-ranking';
+
+/** Selects files of an in-memory repository. */
+function select(files: Record<string, string>, tokenBudget?: number) {
+  return selectFiles(Object.keys(files), async file => files[file] ?? null, { tokenBudget });
+}
+
+/** A source file of the given number of numbered lines. */
+const source = (lineCount: number) => Array.from({ length: lineCount }, (_, i) => `export const value${i} = ${i};`).join('\n');
+
+describe('file ranking', () => {
+  test('manifests, the README and entry points rank above configuration, docs and other sources', () => {
+    const ranked = rankPaths([
+      'src/components/Button.tsx', 'README.md', 'package.json', 'src/index.ts', 'next.config.js',
+      'cmd/tool/main.go', 'app/users/page.tsx', 'docs/guide.md', 'notes.txt',
+    ]);
+    assert.deepEqual(ranked.map(entry => [entry.path, entry.reasons]), [
+      ['package.json', ['manifest']],
+      ['README.md', ['readme']],
+      ['src/index.ts', ['entry point']],
+      ['cmd/tool/main.go', ['entry point']],
+      ['next.config.js', ['config']],
+      ['app/users/page.tsx', ['app route']],
+      ['docs/guide.md', ['docs']],
+      ['src/components/Button.tsx', ['source']],
+      ['notes.txt', []],
+    ]);
+  });
+
+  test('tests rank below the sources they cover', () => {
+    const ranked = rankPaths(['src/index.test.ts', 'tests/helpers.py', 'src/util.ts']);
+    assert.deepEqual(ranked.map(entry => entry.path), ['src/util.ts', 'src/index.test.ts', 'tests/helpers.py']);
+    assert.ok(ranked.slice(1).every(entry => entry.score < 0 && entry.reasons.includes('test')));
+  });
+
+  test('vendored, generated, binary and lock files are left out', () => {
+    const ranked = rankPaths([
+      'node_modules/left-pad/index.js', 'dist/app.js', 'vendor/lib.go', 'logo.png', 'package-lock.json',
+      'public/app.min.js', 'src/index.ts',
+    ]);
+    assert.deepEqual(ranked.map(entry => entry.path), ['src/index.ts']);
+  });
+
+  test('frequently imported modules are boosted', async () => {
+    const { files, omitted } = await select({
+      'src/index.ts': "import {a} from './util';\nimport b from '@/lib/helpers';\n",
+      'src/cli.ts': "import {a} from './util.js';\n",
+      'src/server.ts': "const {a} = require('./util');\n",
+      'src/util.ts': 'export const a = 1;\n',
+      'src/config.ts': 'export const config = {};\n',
+      'src/lib/helpers.ts': 'export default 1;\n',
+    });
+    // Unboosted, src/config.ts would come first by name and src/lib/helpers.ts last by depth.
+    assert.deepEqual(files.map(file => file.path), [
+      'src/cli.ts', 'src/index.ts', 'src/server.ts', 'src/util.ts', 'src/lib/helpers.ts', 'src/config.ts',
+    ]);
+    assert.deepEqual(omitted, []);
+  });
+
+  test('Python imports and Rust modules are resolved against the tree', async () => {
+    const { files } = await select({
+      'mypkg/__main__.py': 'from .core import run\nimport mypkg.models\n',
+      'mypkg/cache.py': 'CACHE = {}\n',
+      'mypkg/core.py': 'def run(): pass\n',
+      'mypkg/models/__init__.py': 'class Model: pass\n',
+      'src/main.rs': 'mod parser;\nfn main() {}\n',
+      'src/config.rs': 'pub struct Config;\n',
+      'src/parser.rs': 'pub fn parse() {}\n',
+    });
+    const order = files.map(file => file.path);
+    assert.ok(order.indexOf('mypkg/core.py') < order.indexOf('mypkg/cache.py'));
+    assert.ok(order.indexOf('mypkg/models/__init__.py') < order.indexOf('mypkg/cache.py'));
+    assert.ok(order.indexOf('src/parser.rs') < order.indexOf('src/config.rs'));
+  });
+
+  test('large files keep their head and tail', async () => {
+    const { files } = await select({ 'package.json': '{}', 'src/index.ts': source(400) }, 2000);
+    const index = files.find(file => file.path === 'src/index.ts')!;
+    assert.ok(index.truncated);
+    const lines = index.content.split('\n');
+    assert.equal(lines[0], 'export const value0 = 0;');
+    assert.equal(lines[lines.length - 1], 'export const value399 = 399;');
+    assert.ok(lines.some(line => /^\.\.\. \[\d+ lines truncated\] \.\.\.$/.test(line)));
+    assert.ok(files.find(file => file.path === 'package.json')?.truncated === false);
+  });
+
+  test('files past the token budget are reported as omitted', async () => {
+    const { files, omitted } = await select({
+      'src/index.ts': source(200),
+      'src/a.ts': source(200),
+      'src/b.ts': source(200),
+      'src/c.ts': source(200),
+      'src/d.ts': source(200),
+      'src/e.ts': source(200),
+    }, 1000);
+    assert.ok(omitted.length > 0);
+    assert.deepEqual([...files.map(file => file.path), ...omitted].sort(), ['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts', 'src/e.ts', 'src/index.ts']);
+    assert.equal(files[0].path, 'src/index.ts');
+  });
+
+  test('unreadable files are skipped, but a rate limit fails the selection', async () => {
+    const failing = (error: Error) => (file: string) => file === 'src/broken.ts' ? Promise.reject(error) : Promise.resolve('export {};\n');
+    const paths = ['src/index.ts', 'src/broken.ts'];
+    mock.method(console, 'error', () => {});
+    try {
+      const { files, omitted } = await selectFiles(paths, failing(new Error('Not Found')));
+      assert.deepEqual(files.map(file => file.path), ['src/index.ts']);
+      assert.deepEqual(omitted, []);
+    } finally {
+      mock.restoreAll();
+    }
+    await assert.rejects(selectFiles(paths, failing(new GitHubRateLimitError(new Date()))), GitHubRateLimitError);
+  });
+});
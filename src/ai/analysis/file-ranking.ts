@@ -0,0 +1,292 @@
+/**
+ * @fileOverview Relevance ranking and token-budgeted selection of repository files.
+ *
+ * Every path in the tree is scored from its name and location (manifests,
+ * entry points, configuration, docs, sources), with vendored, generated and
+ * binary files excluded. The top candidates are read, their imports resolved
+ * against the tree, and frequently imported modules boosted. Files are then
+ * taken in score order until the token budget is spent, truncating large
+ * files to their head and tail so the most telling parts survive.
+ *
+ * - RankedPath - A path with its relevance score and the reasons behind it.
+ * - SelectedFile - A file chosen for the prompt, possibly truncated.
+ * - FileSelection - The outcome of selecting files for a token budget.
+ * - estimateTokens - Roughly estimates the token count of a text.
+ * - rankPaths - Scores and sorts repository paths by relevance.
+ * - selectFiles - Reads and selects the most relevant files within a token budget.
+ */
+
+import {DEFAULT_TOKEN_BUDGET} from '@/ai/flows/readme.types';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import path from 'node:path';
+import type {ReadRepoFile} from './types';
+
+export interface RankedPath {
+  path: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface SelectedFile {
+  path: string;
+  content: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface FileSelection {
+  files: SelectedFile[];
+  /** Candidate files that were read and ranked but left out because the budget ran out. */
+  omitted: string[];
+}
+
+/** No single file may take more than this share of the budget. */
+const MAX_FILE_SHARE = 0.2;
+/** Files that would be truncated below this many tokens are skipped instead. */
+const MIN_FILE_TOKENS = 200;
+/** Number of top-ranked files read up front to discover imports. */
+const MAX_CANDIDATES = 40;
+/** Upper bound on the number of files included, however small they are. */
+const MAX_FILES = 60;
+/** Paths scoring below this are never worth including. */
+const MIN_SCORE = 1;
+const IMPORT_WEIGHT = 8;
+const MAX_IMPORT_BOOST = 40;
+
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', 'vendor', 'dist', 'build', 'out', '.next', 'target', 'coverage',
+  '__pycache__', '.git', '.venv', 'venv', '.idea', '.gradle', 'bin', 'obj',
+]);
+
+const IGNORED_FILES = new Set([
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'Cargo.lock', 'poetry.lock',
+  'Pipfile.lock', 'Gemfile.lock', 'composer.lock', 'go.sum', 'mix.lock', 'pubspec.lock', '.DS_Store',
+]);
+
+const BINARY_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.svg', '.bmp', '.pdf', '.zip', '.gz', '.tgz',
+  '.tar', '.jar', '.war', '.class', '.woff', '.woff2', '.ttf', '.eot', '.otf', '.mp3', '.mp4', '.mov',
+  '.wasm', '.exe', '.dll', '.so', '.dylib', '.bin', '.pyc', '.map',
+]);
+
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.rb', '.php',
+  '.cs', '.swift', '.dart', '.ex', '.exs', '.c', '.cc', '.cpp', '.h', '.scala', '.vue', '.svelte',
+]);
+
+const MANIFESTS = new Set([
+  'package.json', 'Cargo.toml', 'pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt', 'Pipfile',
+  'go.mod', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'Gemfile', 'composer.json', 'pubspec.yaml',
+  'mix.exs', 'deno.json', 'Package.swift',
+]);
+
+const ENTRY_POINT_NAMES = new Set(['main', 'index', 'app', 'server', 'cli', '__main__', 'manage', 'lib', 'mod', 'program']);
+
+const CONFIG_FILES = [
+  /^next\.config\./, /^vite\.config\./, /^webpack\.config\./, /^tailwind\.config\./, /^tsconfig\.json$/,
+  /^Dockerfile$/, /^docker-compose\.ya?ml$/, /^compose\.ya?ml$/, /^firebase\.json$/, /^apphosting\.yaml$/,
+  /^\.env\.(example|sample)$/, /^Makefile$/, /^Procfile$/, /^vercel\.json$/, /^netlify\.toml$/, /^fly\.toml$/,
+  /^angular\.json$/, /^nuxt\.config\./, /^svelte\.config\./, /^astro\.config\./,
+];
+
+const JS_RESOLVE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function isIgnored(filePath: string): boolean {
+  const segments = filePath.split('/');
+  const base = segments[segments.length - 1];
+  const ext = path.posix.extname(base).toLowerCase();
+  return segments.slice(0, -1).some(segment => IGNORED_DIRECTORIES.has(segment)) ||
+    IGNORED_FILES.has(base) ||
+    BINARY_EXTENSIONS.has(ext) ||
+    base.endsWith('.min.js') ||
+    base.endsWith('.min.css');
+}
+
+function scorePath(filePath: string): RankedPath {
+  const segments = filePath.split('/');
+  const depth = segments.length - 1;
+  const base = segments[depth];
+  const ext = path.posix.extname(base).toLowerCase();
+  const stem = path.posix.basename(base, ext);
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (MANIFESTS.has(base) || base.endsWith('.csproj')) {
+    score += 100;
+    reasons.push('manifest');
+  } else if (/^readme(\.|$)/i.test(base)) {
+    score += depth === 0 ? 90 : 35;
+    reasons.push('readme');
+  } else if (/^(contributing|changelog|license|licence|copying)(\.|$)/i.test(base) || (ext === '.md' && segments[0] === 'docs')) {
+    score += 30;
+    reasons.push('docs');
+  } else if (CONFIG_FILES.some(pattern => pattern.test(base))) {
+    score += 50;
+    reasons.push('config');
+  } else if (SOURCE_EXTENSIONS.has(ext)) {
+    score += 10;
+    if (ENTRY_POINT_NAMES.has(stem) || (segments[0] === 'cmd' && stem === 'main')) {
+      score += 70;
+      reasons.push('entry point');
+    } else if (/^(page|layout|route)$/.test(stem) && segments.includes('app')) {
+      score += 40;
+      reasons.push('app route');
+    } else {
+      reasons.push('source');
+    }
+    if (['src', 'lib', 'app', 'cmd', 'pkg', 'internal'].includes(segments[0])) {
+      score += 5;
+    }
+  } else {
+    score += 2;
+  }
+
+  if (/(^|\/)(tests?|__tests__|spec|fixtures|examples?)\//.test(filePath) || /\.(test|spec)\.[a-z]+$/.test(base)) {
+    score -= 25;
+    reasons.push('test');
+  }
+  score -= depth * 3;
+
+  return { path: filePath, score, reasons };
+}
+
+export function rankPaths(paths: string[]): RankedPath[] {
+  return paths
+    .filter(filePath => !isIgnored(filePath))
+    .map(scorePath)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+function importSpecifiers(filePath: string, content: string): string[] {
+  const ext = path.posix.extname(filePath).toLowerCase();
+  if (['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'].includes(ext)) {
+    return [...content.matchAll(/(?:from\s+|import\s*\(\s*|require\s*\(\s*|import\s+)['"]([^'"]+)['"]/g)].map(match => match[1]);
+  }
+  if (ext === '.py') {
+    return [...content.matchAll(/^\s*(?:from\s+(\.*[\w.]*)\s+import|import\s+([\w.]+))/gm)].map(match => match[1] ?? match[2]);
+  }
+  if (ext === '.rs') {
+    return [...content.matchAll(/^\s*(?:pub\s+)?mod\s+(\w+)\s*;/gm)].map(match => `mod:${match[1]}`);
+  }
+  return [];
+}
+
+function resolveImport(fromPath: string, specifier: string, files: Set<string>): string | null {
+  const dir = path.posix.dirname(fromPath);
+  const candidates: string[] = [];
+
+  if (specifier.startsWith('mod:')) {
+    const name = specifier.slice(4);
+    candidates.push(path.posix.join(dir, `${name}.rs`), path.posix.join(dir, name, 'mod.rs'));
+  } else if (fromPath.endsWith('.py')) {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const modulePath = specifier.slice(dots).replace(/\./g, '/');
+    let base = dots ? dir : '';
+    for (let i = 1; i < dots; i++) base = path.posix.dirname(base);
+    const target = path.posix.join(base || '.', modulePath);
+    candidates.push(`${target}.py`, `${target}/__init__.py`);
+  } else if (specifier.startsWith('.') || specifier.startsWith('@/') || specifier.startsWith('~/')) {
+    const target = specifier.startsWith('.') ? path.posix.join(dir, specifier) : path.posix.join('src', specifier.slice(2));
+    candidates.push(...JS_RESOLVE_SUFFIXES.map(suffix => target + suffix));
+  }
+
+  return candidates.map(candidate => path.posix.normalize(candidate)).find(candidate => files.has(candidate)) ?? null;
+}
+
+function truncateContent(content: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  const lines = content.split('\n');
+  const headBudget = Math.floor(maxChars * 0.7);
+  const tailBudget = maxChars - headBudget;
+
+  const head: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    if (used + line.length + 1 > headBudget) break;
+    head.push(line);
+    used += line.length + 1;
+  }
+  const tail: string[] = [];
+  used = 0;
+  for (let i = lines.length - 1; i >= head.length; i--) {
+    if (used + lines[i].length + 1 > tailBudget) break;
+    tail.unshift(lines[i]);
+    used += lines[i].length + 1;
+  }
+
+  const skipped = lines.length - head.length - tail.length;
+  return [...head, `... [${skipped} lines truncated] ...`, ...tail].join('\n');
+}
+
+export async function selectFiles(
+  paths: string[],
+  readFile: ReadRepoFile,
+  options: { tokenBudget?: number } = {}
+): Promise<FileSelection> {
+  const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  const maxFileTokens = Math.max(MIN_FILE_TOKENS, Math.floor(tokenBudget * MAX_FILE_SHARE));
+  const files = new Set(paths);
+  const ranked = rankPaths(paths);
+  const scores = new Map(ranked.map(entry => [entry.path, entry.score]));
+
+  const contents = new Map<string, string | null>();
+  const read = async (filePaths: string[]) => {
+    await Promise.all(filePaths.filter(filePath => !contents.has(filePath)).map(async filePath => {
+      try {
+        contents.set(filePath, await readFile(filePath));
+      } catch (e) {
+        // Nothing else can be read until the limit resets, so fail the whole selection.
+        if (e instanceof GitHubRateLimitError) throw e;
+        console.error(`Failed to fetch content for ${filePath}`, e);
+        contents.set(filePath, null);
+      }
+    }));
+  };
+
+  // Read the top candidates, then boost the modules they import most often.
+  await read(ranked.slice(0, MAX_CANDIDATES).map(entry => entry.path));
+  const importCounts = new Map<string, number>();
+  for (const [filePath, content] of contents) {
+    if (!content) continue;
+    for (const specifier of importSpecifiers(filePath, content)) {
+      const target = resolveImport(filePath, specifier, files);
+      if (target && target !== filePath && scores.has(target)) {
+        importCounts.set(target, (importCounts.get(target) ?? 0) + 1);
+      }
+    }
+  }
+  for (const [filePath, count] of importCounts) {
+    scores.set(filePath, scores.get(filePath)! + Math.min(count * IMPORT_WEIGHT, MAX_IMPORT_BOOST));
+  }
+  const order = [...scores.keys()]
+    .filter(filePath => scores.get(filePath)! >= MIN_SCORE)
+    .sort((a, b) => scores.get(b)! - scores.get(a)! || a.localeCompare(b));
+  const candidates = order.slice(0, MAX_FILES);
+  await read(candidates);
+
+  const selected: SelectedFile[] = [];
+  const omitted: string[] = [];
+  let remaining = tokenBudget;
+  // Only readable candidates count as omitted, not every low-ranked path in the tree.
+  for (const filePath of candidates) {
+    const content = contents.get(filePath);
+    if (!content) continue;
+    if (remaining < MIN_FILE_TOKENS) {
+      omitted.push(filePath);
+      continue;
+    }
+
+    const limit = Math.min(maxFileTokens, remaining);
+    const truncated = estimateTokens(content) > limit;
+    const finalContent = truncated ? truncateContent(content, limit) : content;
+    const tokens = estimateTokens(finalContent);
+    selected.push({ path: filePath, content: finalContent, tokens, truncated });
+    remaining -= tokens;
+  }
+
+  return { files: selected, omitted };
+}
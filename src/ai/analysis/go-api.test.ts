@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {collectGoApi} from './go-api';
+
+/** Collects the API of an in-memory repository. */
+function collect(files: Record<string, string>) {
+  return collectGoApi(Object.keys(files), async file => files[file] ?? null);
+}
+
+const lines = (...content: string[]) => content.join('\n');
+
+describe('Go API extraction', () => {
+  test('reads the exported identifiers of the public packages with their doc comments', async () => {
+    const modules = await collect({
+      'go.mod': 'module github.com/acme/shapes\n\ngo 1.22\n',
+      'shapes.go': lines(
+        '// Package shapes computes areas.',
+        'package shapes',
+        '',
+        '// Pi is close enough.',
+        'const Pi = 3.14',
+        '',
+        'const (',
+        '\t// Small is a size.',
+        '\tSmall Size = iota',
+        '\tLarge',
+        '\thidden',
+        ')',
+        '',
+        '// Size of a shape.',
+        'type Size int',
+        '',
+        '// Circle is round.',
+        'type Circle struct {',
+        '\t// Radius in cm.',
+        '\tRadius float64',
+        '\tcolor string',
+        '}',
+        '',
+        '// Area returns the area.',
+        'func (c Circle) Area() float64 {',
+        '\treturn Pi * c.Radius * c.Radius',
+        '}',
+        '',
+        '// Shape has an area.',
+        'type Shape interface {',
+        '\tArea() float64',
+        '}',
+        '',
+        '// New makes a circle.',
+        'func New(r float64) *Circle { return &Circle{Radius: r} }',
+        '',
+        'func helper() {}',
+      ),
+      'shapes_test.go': 'package shapes\n\nfunc TestArea() {}\n',
+      'internal/geometry/geometry.go': 'package geometry\n\nfunc Hidden() {}\n',
+      'cmd/shapes/main.go': 'package main\n\nfunc main() {}\n',
+    });
+    assert.deepEqual(modules.map(module => [module.name, module.file]), [['github.com/acme/shapes', 'shapes.go']]);
+    assert.deepEqual(modules[0].symbols.map(symbol => [symbol.kind, symbol.signature, symbol.doc]), [
+      ['constant', 'const Pi = 3.14', 'Pi is close enough.'],
+      ['constant', 'const Small Size = iota', 'Small is a size.'],
+      ['constant', 'const Large', undefined],
+      ['type', 'type Size int', 'Size of a shape.'],
+      ['struct', 'type Circle struct', 'Circle is round.'],
+      ['method', 'func (c Circle) Area() float64', 'Area returns the area.'],
+      ['interface', 'type Shape interface', 'Shape has an area.'],
+      ['function', 'func New(r float64) *Circle', 'New makes a circle.'],
+    ]);
+    const circle = modules[0].symbols.find(symbol => symbol.name === 'Circle')!;
+    assert.deepEqual(circle.members, [{ name: 'Radius', signature: 'Radius float64', doc: 'Radius in cm.' }]);
+    const shape = modules[0].symbols.find(symbol => symbol.name === 'Shape')!;
+    assert.deepEqual(shape.members.map(member => member.signature), ['Area() float64']);
+  });
+
+  test('modules with only a main package have no API', async () => {
+    assert.deepEqual(await collect({
+      'go.mod': 'module example.com/tool\n',
+      'main.go': 'package main\n\nfunc main() {}\n',
+    }), []);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @fileOverview Public API extraction for Go modules.
+ *
+ * Every non-main package of the module outside internal/, cmd/, testdata/,
+ * vendor/ and examples/ is a public package, shallowest first. Its exported
+ * identifiers (those starting with an upper-case letter) are read from the
+ * package's non-test files with the `//` doc comments directly above them,
+ * the way go doc presents them: functions, types with their exported fields
+ * or interface methods, methods as `Type.Method`, and constants and
+ * variables, also from grouped declarations.
+ *
+ * - collectGoApi - Extracts the exported API of a repository's Go module.
+ */
+
+import path from 'node:path';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {ApiModule, ApiSymbol} from './api-reference';
+import type {ReadRepoFile} from './types';
+
+const MAX_PACKAGES = 5;
+const MAX_FILES_PER_PACKAGE = 20;
+const MAX_SYMBOLS_PER_MODULE = 40;
+const MAX_MEMBERS = 20;
+const MAX_SIGNATURE_LENGTH = 300;
+const MAX_DOC_LENGTH = 600;
+
+const IGNORED_DIRECTORY_PATTERN = /(^|\/)(internal|cmd|testdata|vendor|examples?|_[^/]*|\.[^/]+)(\/|$)/;
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text;
+}
+
+function isExported(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+/** Drops comments and the contents of string and rune literals, so braces in them are not counted. */
+function code(line: string): string {
+  return line
+    .replace(/"(?:[^"\\]|\\.)*"|`[^`]*`|'(?:[^'\\]|\\.)*'/g, '""')
+    .replace(/\/\/.*$/, '')
+    .replace(/\/\*.*?\*\//g, '');
+}
+
+/** Drops a trailing `//` comment but keeps literals, for signatures. */
+function withoutComment(line: string): string {
+  const literals: string[] = [];
+  return line
+    .replace(/"(?:[^"\\]|\\.)*"|`[^`]*`|'(?:[^'\\]|\\.)*'/g, literal => `\0${literals.push(literal) - 1}\0`)
+    .replace(/\/\/.*$/, '')
+    .replace(/\0(\d+)\0/g, (_, index) => literals[Number(index)])
+    .trim();
+}
+
+function depthChange(line: string, open: string, close: string): number {
+  let change = 0;
+  for (const char of code(line)) {
+    if (char === open) change++;
+    else if (char === close) change--;
+  }
+  return change;
+}
+
+function docComment(comments: string[]): string | undefined {
+  const doc = comments.map(comment => comment.replace(/^\/\/\s?/, '')).join('\n').trim();
+  return doc ? truncate(doc, MAX_DOC_LENGTH) : undefined;
+}
+
+/** The fields of a struct or the methods of an interface, from the lines of its body. */
+function typeMembers(lines: string[]): ApiSymbol['members'] {
+  const members: ApiSymbol['members'] = [];
+  let comments: string[] = [];
+  let depth = 0;
+  for (const line of lines) {
+    const text = line.trim();
+    if (depth === 0 && text.startsWith('//')) {
+      comments.push(text);
+      continue;
+    }
+    const body = code(text).trim();
+    const name = body.match(/^(\*?[\w.]+)/)?.[1];
+    // Embedded types are named by their last selector, e.g. `io.Reader`.
+    const identifier = name?.replace(/^\*/, '').split('.').pop();
+    if (depth === 0 && identifier && isExported(identifier)) {
+      members.push({ name: identifier, signature: truncate(body.replace(/\s+/g, ' '), MAX_SIGNATURE_LENGTH), doc: docComment(comments) });
+    }
+    depth += depthChange(text, '{', '}');
+    comments = [];
+  }
+  return members.slice(0, MAX_MEMBERS);
+}
+
+function parseGoFile(content: string): { packageName?: string; symbols: ApiSymbol[] } {
+  const lines = content.split(/\r?\n/);
+  const symbols: ApiSymbol[] = [];
+  let packageName: string | undefined;
+  let comments: string[] = [];
+
+  /** Reads a declaration up to where its braces close again; returns its lines and the next line. */
+  const block = (start: number) => {
+    let depth = 0;
+    let i = start;
+    do {
+      depth += depthChange(lines[i], '{', '}') + depthChange(lines[i], '(', ')');
+      i++;
+    } while (depth > 0 && i < lines.length);
+    return { body: lines.slice(start, i), next: i };
+  };
+
+  /** A type spec, `Name struct {...}` or `Name = Other`, starting at `start` without the `type` keyword. */
+  const typeSpec = (start: number, text: string, doc: string | undefined): number => {
+    const match = text.match(/^(\w+)(\[[^\]]*\])?\s*(=\s*)?(.*)$/);
+    if (!match) return start + 1;
+    const [, name, typeParameters = '', alias = '', rest] = match;
+    const { body, next } = code(rest).includes('{') ? block(start) : { body: [lines[start]], next: start + 1 };
+    if (isExported(name)) {
+      const kind = /^struct\b/.test(rest) ? 'struct' : /^interface\b/.test(rest) ? 'interface' : 'type';
+      const heading = kind === 'type' ? `type ${name}${typeParameters} ${alias}${withoutComment(rest)}` : `type ${name}${typeParameters} ${kind}`;
+      symbols.push({
+        name,
+        kind,
+        signature: truncate(heading.replace(/\s+/g, ' '), MAX_SIGNATURE_LENGTH),
+        doc,
+        members: kind === 'type' ? [] : typeMembers(body.slice(1, -1)),
+      });
+    }
+    return next;
+  };
+
+  /** A constant or variable spec, `A, B = 1, 2` or `A Type`, without the keyword. */
+  const valueSpec = (keyword: string, text: string, doc: string | undefined) => {
+    const names = code(text).match(/^([\w\s,]+?)(?:\s+[^=,\s][^=]*)?(?:\s*=.*)?$/)?.[1].split(',').map(name => name.trim()) ?? [];
+    for (const name of names.filter(isExported)) {
+      symbols.push({ name, kind: keyword === 'const' ? 'constant' : 'variable', signature: truncate(`${keyword} ${withoutComment(text)}`, MAX_SIGNATURE_LENGTH), doc, members: [] });
+    }
+  };
+
+  for (let i = 0; i < lines.length;) {
+    const text = lines[i].trim();
+    if (text.startsWith('//')) {
+      comments.push(text);
+      i++;
+      continue;
+    }
+    const doc = docComment(comments);
+    comments = [];
+
+    const packageMatch = text.match(/^package\s+(\w+)/);
+    const funcMatch = text.match(/^func\s+(?:\(\s*(?:\w+\s+)?\*?(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)/);
+    const group = text.match(/^(type|const|var)\s*\($/);
+    const single = text.match(/^(type|const|var)\s+(.*)$/);
+    if (packageMatch) {
+      packageName = packageMatch[1];
+      i++;
+    } else if (funcMatch) {
+      const { body, next } = block(i);
+      const [, receiver, name] = funcMatch;
+      if (isExported(name) && (!receiver || isExported(receiver))) {
+        const declaration = body.map(line => code(line).trim()).join(' ');
+        // The signature ends where the body's brace opens, after the parameters and results.
+        let depth = 0;
+        let end = declaration.length;
+        for (let j = 0; j < declaration.length; j++) {
+          if (declaration[j] === '(' || declaration[j] === '[') depth++;
+          else if (declaration[j] === ')' || declaration[j] === ']') depth--;
+          else if (declaration[j] === '{' && depth === 0 && !/\binterface\s*$|\bstruct\s*$/.test(declaration.slice(0, j))) { end = j; break; }
+        }
+        const signature = truncate(declaration.slice(0, end).replace(/\s+/g, ' ').replace(/\( /g, '(').replace(/,? \)/g, ')').trim(), MAX_SIGNATURE_LENGTH);
+        symbols.push({ name: receiver ? `${receiver}.${name}` : name, kind: receiver ? 'method' : 'function', signature, doc, members: [] });
+      }
+      i = next;
+    } else if (group) {
+      const { body, next } = block(i);
+      let specComments: string[] = [];
+      for (let j = 1; j < body.length - 1;) {
+        const spec = body[j].trim();
+        if (spec.startsWith('//')) {
+          specComments.push(spec);
+          j++;
+          continue;
+        }
+        const specDoc = docComment(specComments) ?? doc;
+        specComments = [];
+        if (!spec) {
+          j++;
+        } else if (group[1] === 'type') {
+          j = typeSpec(i + j, spec, specDoc) - i;
+        } else {
+          valueSpec(group[1], spec, specDoc);
+          j++;
+        }
+      }
+      i = next;
+    } else if (single) {
+      if (single[1] === 'type') {
+        i = typeSpec(i, single[2], doc);
+      } else {
+        valueSpec(single[1], single[2], doc);
+        i = block(i).next;
+      }
+    } else {
+      i = text.includes('{') || text.includes('(') ? block(i).next : i + 1;
+    }
+  }
+  return { packageName, symbols };
+}
+
+export async function collectGoApi(tree: string[], readFile: ReadRepoFile): Promise<ApiModule[]> {
+  if (!tree.includes('go.mod')) return [];
+  const read = (file: string) => readFile(file).catch(e => {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return null;
+  });
+  const modulePath = (await read('go.mod'))?.match(/^module\s+(\S+)/m)?.[1];
+  if (!modulePath) return [];
+
+  const sources = tree.filter(file => file.endsWith('.go') && !file.endsWith('_test.go') && !IGNORED_DIRECTORY_PATTERN.test(path.posix.dirname(file)));
+  const directories = [...new Set(sources.map(file => path.posix.dirname(file)))]
+    .sort((a, b) => (a === '.' ? 0 : a.split('/').length) - (b === '.' ? 0 : b.split('/').length) || a.localeCompare(b));
+
+  const modules: ApiModule[] = [];
+  for (const dir of directories) {
+    if (modules.length >= MAX_PACKAGES) break;
+    const files = sources.filter(file => path.posix.dirname(file) === dir).sort().slice(0, MAX_FILES_PER_PACKAGE);
+    const parsed = (await Promise.all(files.map(read))).map(content => parseGoFile(content ?? ''));
+    const packageName = parsed.find(file => file.packageName)?.packageName;
+    if (!packageName || packageName === 'main') continue;
+    // Methods are listed after the types they belong to, the way go doc orders them.
+    const symbols = parsed.flatMap(file => file.symbols);
+    const ordered = symbols.filter(symbol => symbol.kind !== 'method').flatMap(symbol => [
+      symbol,
+      ...symbols.filter(method => method.kind === 'method' && method.name.startsWith(`${symbol.name}.`)),
+    ]);
+    const orphans = symbols.filter(symbol => symbol.kind === 'method' && !ordered.includes(symbol));
+    modules.push({
+      language: 'go',
+      name: dir === '.' ? modulePath : `${modulePath}/${dir}`,
+      file: files.find(file => path.posix.basename(file) === `${packageName}.go`) ?? files[0],
+      symbols: [...ordered, ...orphans].slice(0, MAX_SYMBOLS_PER_MODULE),
+    });
+  }
+  return modules.filter(module => module.symbols.length > 0);
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {parseManifest} from './manifests';
+
+describe('manifest parsing', () => {
+  test('package.json with a scoped packageManager', () => {
+    const facts = parseManifest('package.json', JSON.stringify({
+      name: '@acme/web',
+      packageManager: '@yarnpkg/cli@4.1.0+sha512.abc',
+      engines: { node: '>=20' },
+      dependencies: { next: '15.0.0', local: { version: '1.2.0' } },
+      devDependencies: { typescript: '^5' },
+    }));
+    assert.deepEqual(facts?.runtimes, [{ name: 'node', version: '>=20' }, { name: '@yarnpkg/cli', version: '4.1.0' }]);
+    assert.deepEqual(facts?.dependencies, ['next@15.0.0', 'local@1.2.0']);
+    assert.deepEqual(facts?.devDependencies, ['typescript@^5']);
+  });
+
+  test('package.json with an unscoped packageManager', () => {
+    const facts = parseManifest('package.json', JSON.stringify({ name: 'web', packageManager: 'pnpm@9.1.0' }));
+    assert.deepEqual(facts?.runtimes, [{ name: 'pnpm', version: '9.1.0' }]);
+  });
+
+  test('pyproject.toml (PEP 621) reports optional dependencies as extras', () => {
+    const facts = parseManifest('pyproject.toml', [
+      '[project]',
+      'name = "mypkg"',
+      'version = "0.3.0"',
+      'requires-python = ">=3.10"',
+      'dependencies = [',
+      '  "httpx>=0.27",  # HTTP client',
+      '  "pydantic",',
+      ']',
+      '',
+      '[project.optional-dependencies]',
+      'docs = ["sphinx"]',
+      'test = ["pytest", "pytest-cov"]',
+      '',
+      '[project.scripts]',
+      'mypkg = "mypkg.cli:main"',
+    ].join('\n'));
+    assert.equal(facts?.name, 'mypkg');
+    assert.equal(facts?.version, '0.3.0');
+    assert.deepEqual(facts?.runtimes, [{ name: 'python', version: '>=3.10' }]);
+    assert.deepEqual(facts?.dependencies, ['httpx>=0.27', 'pydantic']);
+    assert.deepEqual(facts?.devDependencies, []);
+    assert.deepEqual(facts?.extras, [
+      { name: 'docs', dependencies: ['sphinx'] },
+      { name: 'test', dependencies: ['pytest', 'pytest-cov'] },
+    ]);
+    assert.deepEqual(facts?.scripts, [{ name: 'mypkg', command: 'mypkg.cli:main' }]);
+  });
+
+  test('pyproject.toml (Poetry) keeps dev groups as dev dependencies', () => {
+    const facts = parseManifest('pyproject.toml', [
+      '[tool.poetry]',
+      'name = "poetic"',
+      '',
+      '[tool.poetry.dependencies]',
+      'python = "^3.11"',
+      'requests = { version = "^2.31", extras = ["socks"] }',
+      '',
+      '[tool.poetry.group.dev.dependencies]',
+      'ruff = "*"',
+    ].join('\n'));
+    assert.equal(facts?.name, 'poetic');
+    assert.deepEqual(facts?.runtimes, [{ name: 'python', version: '^3.11' }]);
+    assert.deepEqual(facts?.dependencies, ['requests@^2.31']);
+    assert.deepEqual(facts?.devDependencies, ['ruff']);
+  });
+
+  test('setup.cfg reports extras_require as extras', () => {
+    const facts = parseManifest('setup.cfg', [
+      '[metadata]',
+      'name = cfgpkg',
+      '',
+      '[options.extras_require]',
+      'yaml =',
+      '    pyyaml',
+    ].join('\n'));
+    assert.deepEqual(facts?.extras, [{ name: 'yaml', dependencies: ['pyyaml'] }]);
+  });
+
+  test('Cargo.toml', () => {
+    const facts = parseManifest('Cargo.toml', [
+      '[package]',
+      'name = "crabby"',
+      'version = "0.1.0"',
+      'rust-version = "1.74"',
+      '',
+      '[dependencies]',
+      'serde = { version = "1", features = ["derive"] }',
+      'anyhow = "1.0"',
+      '',
+      '[dev-dependencies]',
+      'insta = "1"',
+    ].join('\n'));
+    assert.equal(facts?.name, 'crabby');
+    assert.deepEqual(facts?.runtimes, [{ name: 'rust', version: '1.74' }]);
+    assert.deepEqual(facts?.dependencies, ['serde@1', 'anyhow@1.0']);
+    assert.deepEqual(facts?.devDependencies, ['insta@1']);
+  });
+
+  test('malformed TOML yields no facts', () => {
+    assert.equal(parseManifest('Cargo.toml', '[package\nname = '), null);
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * @fileOverview Structured parsing of project manifests across ecosystems.
+ *
+ * Each supported manifest is reduced to the same shape: name, version,
+ * description, runnable scripts/commands, dependencies and required runtime
+ * versions. The resulting project facts are handed to the model as ground
+ * truth, so it does not have to infer them from raw manifest text.
+ *
+ * Supported: package.json, composer.json, pyproject.toml (PEP 621 and Poetry),
+ * setup.cfg, requirements.txt, Pipfile, go.mod, Cargo.toml, pom.xml,
+ * build.gradle(.kts), *.csproj, pubspec.yaml, mix.exs and Gemfile.
+ *
+ * - ManifestFactsSchema - The Zod schema for the facts of a single manifest.
+ * - ManifestFacts - The TypeScript type for the facts of a single manifest.
+ * - ProjectFactsSchema - The Zod schema for the facts of a whole project.
+ * - ProjectFacts - The TypeScript type for the facts of a whole project.
+ * - isManifest - Checks whether a path names a supported manifest.
+ * - parseManifest - Parses a single manifest into its facts.
+ * - collectProjectFacts - Finds, reads and parses the manifests of a repository.
+ */
+
+import path from 'node:path';
+import {parse as parseToml} from 'smol-toml';
+import {z} from 'zod';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {ReadRepoFile} from './types';
+
+export const ManifestFactsSchema = z.object({
+  manifest: z.string().describe('The path of the manifest file.'),
+  ecosystem: z.string().describe('The language ecosystem, e.g. node, python, go, rust, java, dotnet, dart, elixir, ruby or php.'),
+  name: z.string().optional(),
+  version: z.string().optional(),
+  description: z.string().optional(),
+  scripts: z.array(z.object({ name: z.string(), command: z.string() })).describe('Runnable scripts, commands or binaries.'),
+  dependencies: z.array(z.string()).describe('Runtime dependencies, with version constraints where known.'),
+  devDependencies: z.array(z.string()).describe('Development-only dependencies.'),
+  extras: z.array(z.object({ name: z.string(), dependencies: z.array(z.string()) }))
+    .describe('Optional dependency groups that users install on demand, e.g. Python extras (pip install "pkg[name]").'),
+  runtimes: z.array(z.object({ name: z.string(), version: z.string() })).describe('Required language or runtime versions.'),
+});
+
+export type ManifestFacts = z.infer<typeof ManifestFactsSchema>;
+
+export const ProjectFactsSchema = z.object({
+  manifests: z.array(ManifestFactsSchema),
+});
+
+export type ProjectFacts = z.infer<typeof ProjectFactsSchema>;
+
+/** Manifests deeper than this are left to the monorepo package analysis. */
+const MAX_MANIFEST_DEPTH = 2;
+const MAX_MANIFESTS = 10;
+/** Dependency lists are capped so a huge manifest cannot flood the prompt. */
+const MAX_DEPENDENCIES = 50;
+
+const MANIFEST_NAMES = new Set([
+  'package.json', 'composer.json', 'pyproject.toml', 'setup.cfg', 'requirements.txt', 'Pipfile', 'go.mod',
+  'Cargo.toml', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'pubspec.yaml', 'mix.exs', 'Gemfile',
+]);
+
+export function isManifest(filePath: string): boolean {
+  const base = path.posix.basename(filePath);
+  return MANIFEST_NAMES.has(base) || base.endsWith('.csproj');
+}
+
+function emptyFacts(manifest: string, ecosystem: string): ManifestFacts {
+  return { manifest, ecosystem, scripts: [], dependencies: [], devDependencies: [], extras: [], runtimes: [] };
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function dependencyList(record: unknown): string[] {
+  if (!record || typeof record !== 'object') return [];
+  return Object.entries(record as Record<string, unknown>).map(([name, spec]) => {
+    if (typeof spec === 'string' && spec !== '*') return `${name}@${spec}`;
+    const version = spec && typeof spec === 'object' && 'version' in spec ? asString(spec.version) : undefined;
+    return version ? `${name}@${version}` : name;
+  });
+}
+
+function scriptList(record: unknown): { name: string; command: string }[] {
+  if (!record || typeof record !== 'object') return [];
+  return Object.entries(record as Record<string, unknown>).map(([name, command]) => ({
+    name,
+    command: Array.isArray(command) ? command.join(' && ') : String(typeof command === 'object' ? JSON.stringify(command) : command),
+  }));
+}
+
+function parsePackageJson(manifest: string, content: string): ManifestFacts {
+  const data = JSON.parse(content);
+  const facts = emptyFacts(manifest, 'node');
+  facts.name = asString(data.name);
+  facts.version = asString(data.version);
+  facts.description = asString(data.description);
+  facts.scripts = scriptList(data.scripts);
+  if (typeof data.bin === 'string' && facts.name) {
+    facts.scripts.push({ name: `bin:${facts.name}`, command: data.bin });
+  } else if (data.bin && typeof data.bin === 'object') {
+    facts.scripts.push(...scriptList(data.bin).map(({ name, command }) => ({ name: `bin:${name}`, command })));
+  }
+  facts.dependencies = [...dependencyList(data.dependencies), ...dependencyList(data.peerDependencies)];
+  facts.devDependencies = dependencyList(data.devDependencies);
+  for (const [name, version] of Object.entries(data.engines ?? {})) {
+    facts.runtimes.push({ name, version: String(version) });
+  }
+  const packageManager = asString(data.packageManager);
+  if (packageManager) {
+    // The version follows the last '@', which for a scoped name is not the first one.
+    const at = packageManager.lastIndexOf('@');
+    const [name, version] = at > 0 ? [packageManager.slice(0, at), packageManager.slice(at + 1)] : [packageManager, '*'];
+    facts.runtimes.push({ name, version: version.split('+')[0] });
+  }
+  return facts;
+}
+
+function parseComposerJson(manifest: string, content: string): ManifestFacts {
+  const data = JSON.parse(content);
+  const facts = emptyFacts(manifest, 'php');
+  facts.name = asString(data.name);
+  facts.version = asString(data.version);
+  facts.description = asString(data.description);
+  facts.scripts = scriptList(data.scripts);
+  const require = { ...(data.require ?? {}) };
+  if (require.php) {
+    facts.runtimes.push({ name: 'php', version: String(require.php) });
+    delete require.php;
+  }
+  facts.dependencies = dependencyList(require).filter(dep => !dep.startsWith('ext-'));
+  facts.devDependencies = dependencyList(data['require-dev']);
+  return facts;
+}
+
+function parsePyprojectToml(manifest: string, content: string): ManifestFacts {
+  const data: Record<string, any> = parseToml(content);
+  const facts = emptyFacts(manifest, 'python');
+  const project = data.project ?? {};
+  const poetry = data.tool?.poetry ?? {};
+
+  facts.name = asString(project.name) ?? asString(poetry.name);
+  facts.version = asString(project.version) ?? asString(poetry.version);
+  facts.description = asString(project.description) ?? asString(poetry.description);
+  facts.scripts = scriptList({ ...(poetry.scripts ?? {}), ...(project.scripts ?? {}) });
+
+  const requiresPython = asString(project['requires-python']);
+  if (requiresPython) facts.runtimes.push({ name: 'python', version: requiresPython });
+
+  if (Array.isArray(project.dependencies)) {
+    facts.dependencies.push(...project.dependencies.map(String));
+  }
+  const poetryDeps = { ...(poetry.dependencies ?? {}) };
+  if (poetryDeps.python) {
+    facts.runtimes.push({ name: 'python', version: String(poetryDeps.python) });
+    delete poetryDeps.python;
+  }
+  facts.dependencies.push(...dependencyList(poetryDeps));
+
+  for (const [name, deps] of Object.entries(project['optional-dependencies'] ?? {})) {
+    if (Array.isArray(deps)) facts.extras.push({ name, dependencies: deps.map(String) });
+  }
+  facts.devDependencies.push(...dependencyList(poetry['dev-dependencies']));
+  for (const group of Object.values(poetry.group ?? {}) as any[]) {
+    facts.devDependencies.push(...dependencyList(group?.dependencies));
+  }
+  return facts;
+}
+
+function parseIni(content: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let section: Record<string, string> | null = null;
+  let lastKey: string | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*[#;]/.test(line) || !line.trim()) continue;
+    const header = line.match(/^\[(.+)\]\s*$/);
+    if (header) {
+      section = sections[header[1].trim()] = {};
+      lastKey = null;
+    } else if (section && /^\s/.test(line) && lastKey) {
+      section[lastKey] += `\n${line.trim()}`;
+    } else if (section) {
+      const match = line.match(/^([^=:]+)[=:](.*)$/);
+      if (match) {
+        lastKey = match[1].trim();
+        section[lastKey] = match[2].trim();
+      }
+    }
+  }
+  return sections;
+}
+
+function lines(value: string | undefined): string[] {
+  return (value ?? '').split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function parseSetupCfg(manifest: string, content: string): ManifestFacts {
+  const ini = parseIni(content);
+  const facts = emptyFacts(manifest, 'python');
+  facts.name = asString(ini.metadata?.name);
+  facts.version = asString(ini.metadata?.version);
+  facts.description = asString(ini.metadata?.description);
+  facts.dependencies = lines(ini.options?.install_requires);
+  const pythonRequires = asString(ini.options?.python_requires);
+  if (pythonRequires) facts.runtimes.push({ name: 'python', version: pythonRequires });
+  for (const entry of lines(ini['options.entry_points']?.console_scripts)) {
+    const [name, command] = entry.split('=').map(part => part.trim());
+    if (name && command) facts.scripts.push({ name, command });
+  }
+  for (const [name, extra] of Object.entries(ini['options.extras_require'] ?? {})) {
+    facts.extras.push({ name, dependencies: lines(extra) });
+  }
+  return facts;
+}
+
+function parseRequirementsTxt(manifest: string, content: string): ManifestFacts {
+  const facts = emptyFacts(manifest, 'python');
+  facts.dependencies = content
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line && !line.startsWith('-'));
+  return facts;
+}
+
+function parsePipfile(manifest: string, content: string): ManifestFacts {
+  const data: Record<string, any> = parseToml(content);
+  const facts = emptyFacts(manifest, 'python');
+  facts.dependencies = dependencyList(data.packages);
+  facts.devDependencies = dependencyList(data['dev-packages']);
+  facts.scripts = scriptList(data.scripts);
+  const pythonVersion = asString(data.requires?.python_version);
+  if (pythonVersion) facts.runtimes.push({ name: 'python', version: pythonVersion });
+  return facts;
+}
+
+function parseGoMod(manifest: string, content: string): ManifestFacts {
+  const facts = emptyFacts(manifest, 'go');
+  facts.name = content.match(/^module\s+(\S+)/m)?.[1];
+  const goVersion = content.match(/^go\s+(\S+)/m)?.[1];
+  if (goVersion) facts.runtimes.push({ name: 'go', version: goVersion });
+  const toolchain = content.match(/^toolchain\s+(\S+)/m)?.[1];
+  if (toolchain) facts.runtimes.push({ name: 'toolchain', version: toolchain });
+
+  const requires: string[] = [];
+  for (const block of content.matchAll(/^require\s*\(([\s\S]*?)\)/gm)) {
+    requires.push(...block[1].split('\n'));
+  }
+  for (const single of content.matchAll(/^require\s+([^\s(].*)$/gm)) {
+    requires.push(single[1]);
+  }
+  for (const line of requires) {
+    // Indirect requirements are pulled in by other modules and not worth listing.
+    const match = line.trim().match(/^(\S+)\s+(\S+)(.*)$/);
+    if (match && !match[3].includes('// indirect')) facts.dependencies.push(`${match[1]}@${match[2]}`);
+  }
+  return facts;
+}
+
+function parseCargoToml(manifest: string, content: string): ManifestFacts {
+  const data: Record<string, any> = parseToml(content);
+  const facts = emptyFacts(manifest, 'rust');
+  const pkg = data.package ?? {};
+  facts.name = asString(pkg.name);
+  facts.version = asString(pkg.version);
+  facts.description = asString(pkg.description);
+  const rustVersion = asString(pkg['rust-version']);
+  if (rustVersion) facts.runtimes.push({ name: 'rust', version: rustVersion });
+  const edition = asString(pkg.edition) ?? (typeof pkg.edition === 'number' ? String(pkg.edition) : undefined);
+  if (edition) facts.runtimes.push({ name: 'rust-edition', version: edition });
+  facts.dependencies = dependencyList(data.dependencies);
+  facts.devDependencies = [...dependencyList(data['dev-dependencies']), ...dependencyList(data['build-dependencies'])];
+  for (const bin of Array.isArray(data.bin) ? data.bin : []) {
+    if (bin?.name) facts.scripts.push({ name: `bin:${bin.name}`, command: `cargo run --bin ${bin.name}` });
+  }
+  return facts;
+}
+
+function xmlText(content: string, tag: string): string | undefined {
+  return content.match(new RegExp(`<${tag}>\\s*([^<]+?)\\s*</${tag}>`))?.[1];
+}
+
+function parsePomXml(manifest: string, content: string): ManifestFacts {
+  const facts = emptyFacts(manifest, 'java');
+  // Drop the parent, dependency and plugin blocks so top-level tags are not confused with theirs.
+  const project = content
+    .replace(/<parent>[\s\S]*?<\/parent>/g, '')
+    .replace(/<dependencies>[\s\S]*?<\/dependencies>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '');
+  facts.name = xmlText(project, 'artifactId');
+  facts.version = xmlText(project, 'version');
+  facts.description = xmlText(project, 'description');
+
+  const javaVersion = xmlText(content, 'maven.compiler.release') ?? xmlText(content, 'maven.compiler.source') ?? xmlText(content, 'java.version');
+  if (javaVersion) facts.runtimes.push({ name: 'java', version: javaVersion });
+
+  for (const dep of content.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = xmlText(dep[1], 'groupId');
+    const artifactId = xmlText(dep[1], 'artifactId');
+    if (!artifactId) continue;
+    const name = groupId ? `${groupId}:${artifactId}` : artifactId;
+    (xmlText(dep[1], 'scope') === 'test' ? facts.devDependencies : facts.dependencies).push(name);
+  }
+  return facts;
+}
+
+function parseGradle(manifest: string, content: string): ManifestFacts {
+  const facts = emptyFacts(manifest, 'java');
+  facts.version = content.match(/^\s*version\s*=?\s*["']([^"']+)["']/m)?.[1];
+  facts.description = content.match(/^\s*description\s*=?\s*["']([^"']+)["']/m)?.[1];
+
+  const javaVersion = content.match(/JavaVersion\.VERSION_(\d+(?:_\d+)?)/)?.[1]?.replace('_', '.')
+    ?? content.match(/(?:jvmToolchain|languageVersion\.set\(JavaLanguageVersion\.of)\((\d+)\)/)?.[1]
+    ?? content.match(/sourceCompatibility\s*=\s*['"]?([\d.]+)/)?.[1];
+  if (javaVersion) facts.runtimes.push({ name: 'java', version: javaVersion });
+  if (/kotlin\(|org\.jetbrains\.kotlin/.test(content)) facts.ecosystem = 'kotlin';
+
+  const configurations = /^\s*(implementation|api|compileOnly|runtimeOnly|testImplementation|testRuntimeOnly|androidTestImplementation|kapt|ksp)\s*\(?\s*["']([^"']+)["']/gm;
+  for (const match of content.matchAll(configurations)) {
+    (match[1].startsWith('test') || match[1].startsWith('androidTest') ? facts.devDependencies : facts.dependencies).push(match[2]);
+  }
+  for (const match of content.matchAll(/^\s*id\s*\(?\s*["']([^"']+)["']/gm)) {
+    facts.devDependencies.push(`plugin:${match[1]}`);
+  }
+  return facts;
+}
+
+function parseCsproj(manifest: string, content: string): ManifestFacts {
+  const facts = emptyFacts(manifest, 'dotnet');
+  facts.name = xmlText(content, 'AssemblyName') ?? path.posix.basename(manifest, '.csproj');
+  facts.version = xmlText(content, 'Version');
+  facts.description = xmlText(content, 'Description');
+  const frameworks = xmlText(content, 'TargetFramework') ?? xmlText(content, 'TargetFrameworks');
+  for (const framework of (frameworks ?? '').split(';').filter(Boolean)) {
+    facts.runtimes.push({ name: 'dotnet', version: framework });
+  }
+  for (const ref of content.matchAll(/<PackageReference\s+Include="([^"]+)"(?:\s+Version="([^"]+)")?/g)) {
+    facts.dependencies.push(ref[2] ? `${ref[1]}@${ref[2]}` : ref[1]);
+  }
+  if (/<OutputType>\s*Exe\s*<\/OutputType>/i.test(content)) {
+    facts.scripts.push({ name: 'run', command: 'dotnet run' });
+  }
+  return facts;
+}
+
+/** Parses the two-level key/value structure of a simple YAML document such as pubspec.yaml. */
+function parseSimpleYaml(content: string): Record<string, string | Record<string, string>> {
+  const result: Record<string, string | Record<string, string>> = {};
+  let section: Record<string, string> | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const top = line.match(/^([\w-]+):\s*(.*)$/);
+    if (top) {
+      const value = top[2].replace(/\s+#.*$/, '').replace(/^["']|["']$/g, '');
+      if (value) {
+        result[top[1]] = value;
+        section = null;
+      } else {
+        section = {};
+        result[top[1]] = section;
+      }
+      continue;
+    }
+    const nested = line.match(/^ {2}([\w-]+):\s*(.*)$/);
+    if (nested && section) {
+      section[nested[1]] = nested[2].replace(/\s+#.*$/, '').replace(/^["']|["']$/g, '');
+    }
+  }
+  return result;
+}
+
+function parsePubspecYaml(manifest: string, content: string): ManifestFacts {
+  const data = parseSimpleYaml(content);
+  const facts = emptyFacts(manifest, 'dart');
+  facts.name = asString(data.name);
+  facts.version = asString(data.version);
+  facts.description = asString(data.description);
+  const environment = typeof data.environment === 'object' ? data.environment : {};
+  for (const [name, version] of Object.entries(environment)) {
+    if (version) facts.runtimes.push({ name: name === 'sdk' ? 'dart' : name, version });
+  }
+  const deps = typeof data.dependencies === 'object' ? data.dependencies : {};
+  facts.dependencies = Object.entries(deps).map(([name, version]) => (version ? `${name}@${version}` : name));
+  const devDeps = typeof data.dev_dependencies === 'object' ? data.dev_dependencies : {};
+  facts.devDependencies = Object.entries(devDeps).map(([name, version]) => (version ? `${name}@${version}` : name));
+  return facts;
+}
+
+function parseMixExs(manifest: string, content: string): ManifestFacts {
+  const facts = emptyFacts(manifest, 'elixir');
+  facts.name = content.match(/app:\s*:(\w+)/)?.[1];
+  facts.version = content.match(/version:\s*"([^"]+)"/)?.[1];
+  facts.description = content.match(/description:\s*"([^"]+)"/)?.[1];
+  const elixir = content.match(/elixir:\s*"([^"]+)"/)?.[1];
+  if (elixir) facts.runtimes.push({ name: 'elixir', version: elixir });
+  for (const dep of content.matchAll(/\{:(\w+),\s*(?:"([^"]+)")?([^}]*)\}/g)) {
+    const name = dep[2] ? `${dep[1]}@${dep[2]}` : dep[1];
+    (/only:\s*(?:\[?\s*:(?:dev|test))/.test(dep[3]) ? facts.devDependencies : facts.dependencies).push(name);
+  }
+  const aliases = content.match(/defp\s+aliases\s+do([\s\S]*?)\n\s*end/)?.[1] ?? '';
+  for (const alias of aliases.matchAll(/^\s*"?([\w.]+)"?:/gm)) {
+    facts.scripts.push({ name: alias[1], command: `mix ${alias[1]}` });
+  }
+  return facts;
+}
+
+function parseGemfile(manifest: string, content: string): ManifestFacts {
+  const facts = emptyFacts(manifest, 'ruby');
+  const ruby = content.match(/^\s*ruby\s+["']([^"']+)["']/m)?.[1];
+  if (ruby) facts.runtimes.push({ name: 'ruby', version: ruby });
+
+  let group: string | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    const groupMatch = line.match(/^\s*group\s+(.+?)\s+do/);
+    if (groupMatch) {
+      group = groupMatch[1];
+      continue;
+    }
+    if (/^\s*end\b/.test(line)) {
+      group = null;
+      continue;
+    }
+    const gem = line.match(/^\s*gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?/);
+    if (!gem) continue;
+    const name = gem[2] ? `${gem[1]}@${gem[2]}` : gem[1];
+    (group && /:(development|test)/.test(group) ? facts.devDependencies : facts.dependencies).push(name);
+  }
+  return facts;
+}
+
+const parsers: Record<string, (manifest: string, content: string) => ManifestFacts> = {
+  'package.json': parsePackageJson,
+  'composer.json': parseComposerJson,
+  'pyproject.toml': parsePyprojectToml,
+  'setup.cfg': parseSetupCfg,
+  'requirements.txt': parseRequirementsTxt,
+  'Pipfile': parsePipfile,
+  'go.mod': parseGoMod,
+  'Cargo.toml': parseCargoToml,
+  'pom.xml': parsePomXml,
+  'build.gradle': parseGradle,
+  'build.gradle.kts': parseGradle,
+  'pubspec.yaml': parsePubspecYaml,
+  'mix.exs': parseMixExs,
+  'Gemfile': parseGemfile,
+};
+
+export function parseManifest(manifest: string, content: string): ManifestFacts | null {
+  const base = path.posix.basename(manifest);
+  const parser = base.endsWith('.csproj') ? parseCsproj : parsers[base];
+  if (!parser) return null;
+  try {
+    const facts = parser(manifest, content);
+    facts.dependencies = facts.dependencies.slice(0, MAX_DEPENDENCIES);
+    facts.devDependencies = facts.devDependencies.slice(0, MAX_DEPENDENCIES);
+    facts.extras = facts.extras.map(extra => ({ ...extra, dependencies: extra.dependencies.slice(0, MAX_DEPENDENCIES) }));
+    return facts;
+  } catch (e) {
+    console.error(`Failed to parse manifest ${manifest}`, e);
+    return null;
+  }
+}
+
+export async function collectProjectFacts(tree: string[], readFile: ReadRepoFile): Promise<ProjectFacts> {
+  const manifestPaths = tree
+    .filter(filePath => isManifest(filePath) && filePath.split('/').length <= MAX_MANIFEST_DEPTH)
+    .filter(filePath => !/(^|\/)(node_modules|vendor|examples?|tests?|fixtures)\//.test(filePath))
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .slice(0, MAX_MANIFESTS);
+
+  const manifests = await Promise.all(manifestPaths.map(async manifest => {
+    const content = await readFile(manifest).catch(e => {
+      if (e instanceof GitHubRateLimitError) throw e;
+      return null;
+    });
+    return content ? parseManifest(manifest, content) : null;
+  }));
+
+  return { manifests: manifests.filter((facts): facts is ManifestFacts => facts !== null) };
+}
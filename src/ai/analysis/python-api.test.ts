@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {collectPythonApi} from './python-api';
+
+/** Collects the API of an in-memory repository. */
+function collect(files: Record<string, string>) {
+  return collectPythonApi(Object.keys(files), async file => files[file] ?? null);
+}
+
+const lines = (...content: string[]) => content.join('\n');
+
+describe('Python API extraction', () => {
+  test('follows names imported by __init__.py to the modules that define them', async () => {
+    const [module, ...rest] = await collect({
+      'pyproject.toml': '[project]\nname = "geo-tools"\n',
+      'src/geo_tools/__init__.py': lines(
+        '"""Geo tools."""',
+        'from .distance import haversine, Point',
+        '',
+        '__version__ = "1.0"',
+      ),
+      'src/geo_tools/distance.py': lines(
+        'import math',
+        '',
+        'class Point:',
+        '    """A point on the globe."""',
+        '',
+        '    def __init__(self, lat: float, lon: float) -> None:',
+        '        self.lat = lat',
+        '',
+        '    def offset(self, km: float) -> "Point":',
+        '        """Moves the point."""',
+        '        return self',
+        '',
+        '    def _hidden(self):',
+        '        pass',
+        '',
+        'def haversine(a: Point,',
+        '              b: Point) -> float:',
+        '    """Great-circle distance in km."""',
+        '    return 0.0',
+      ),
+    });
+    assert.equal(rest.length, 0);
+    assert.equal(module.name, 'geo_tools');
+    assert.equal(module.file, 'src/geo_tools/__init__.py');
+    assert.deepEqual(module.symbols.map(symbol => [symbol.kind, symbol.signature, symbol.doc]), [
+      ['function', 'def haversine(a: Point, b: Point) -> float', 'Great-circle distance in km.'],
+      ['class', 'class Point', 'A point on the globe.'],
+    ]);
+    assert.deepEqual(module.symbols[1].members.map(member => member.signature), [
+      'def __init__(self, lat: float, lon: float) -> None',
+      'def offset(self, km: float) -> "Point"',
+    ]);
+  });
+
+  test('__all__ limits the API of a flat layout package', async () => {
+    const [module] = await collect({
+      'setup.py': 'from setuptools import setup\nsetup(name="flatpkg")\n',
+      'flatpkg/__init__.py': lines(
+        '__all__ = ["greet"]',
+        '',
+        'def greet(name: str) -> str:',
+        '    """Says hello."""',
+        '    return name',
+        '',
+        'def other():',
+        '    pass',
+      ),
+    });
+    assert.equal(module.name, 'flatpkg');
+    assert.deepEqual(module.symbols.map(symbol => symbol.name), ['greet']);
+  });
+
+  test('repositories without a package have no API', async () => {
+    assert.deepEqual(await collect({ 'script.py': 'print("hi")\n' }), []);
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * @fileOverview Public API extraction for Python packages.
+ *
+ * The package is named by pyproject.toml, setup.cfg or setup.py and found in
+ * the src or flat layout. Its `__init__.py` defines the public API: the names
+ * in `__all__` when it is set, and otherwise its public definitions and the
+ * names it imports from the package's own modules. Imported names are
+ * followed to the module that defines them, so they are documented with their
+ * real signatures and docstrings. When `__init__.py` exports nothing, the
+ * package's public modules are documented one by one instead.
+ *
+ * - collectPythonApi - Extracts the public API of a repository's Python package.
+ */
+
+import path from 'node:path';
+import {parse as parseToml} from 'smol-toml';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {ApiModule, ApiSymbol} from './api-reference';
+import type {ReadRepoFile} from './types';
+
+const MAX_MODULES = 5;
+const MAX_SYMBOLS_PER_MODULE = 40;
+const MAX_MEMBERS = 20;
+const MAX_SIGNATURE_LENGTH = 300;
+const MAX_DOC_LENGTH = 600;
+const MAX_IMPORT_DEPTH = 4;
+
+interface PythonModule {
+  /** Top-level definitions by name, in order. */
+  definitions: Map<string, ApiSymbol>;
+  all?: string[];
+  /** Names imported from other modules, by local name. */
+  imports: Map<string, { module: string; name: string }>;
+  starImports: string[];
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function bracketDepth(text: string): number {
+  let depth = 0;
+  for (const char of stripComment(text).replace(/("|')(?:\\.|(?!\1).)*\1/g, '')) {
+    if ('([{'.includes(char)) depth++;
+    else if (')]}'.includes(char)) depth--;
+  }
+  return depth;
+}
+
+/** Reads a statement that may continue over several lines inside brackets; returns it and the next line. */
+function statement(lines: string[], start: number): { text: string; next: number } {
+  let text = stripComment(lines[start]).trim();
+  let next = start + 1;
+  while ((bracketDepth(text) > 0 || text.endsWith('\\')) && next < lines.length) {
+    text = `${text.replace(/\\$/, '')} ${stripComment(lines[next]).trim()}`;
+    next++;
+  }
+  return { text: text.replace(/\s+/g, ' ').replace(/([(\[]) /g, '$1').replace(/,? ([)\]])/g, '$1'), next };
+}
+
+/** Removes the common indentation of a docstring, like inspect.cleandoc. */
+function cleanDoc(text: string): string {
+  const [first, ...rest] = text.split('\n');
+  const indents = rest.filter(line => line.trim()).map(indentOf);
+  const common = indents.length ? Math.min(...indents) : 0;
+  return [first.trim(), ...rest.map(line => line.slice(common).trimEnd())].join('\n').trim();
+}
+
+/** The docstring of a block starting at `start`, if its first statement is a string literal. */
+function docstring(lines: string[], start: number, headerIndent: number): string | undefined {
+  let i = start;
+  while (i < lines.length && !lines[i].trim()) i++;
+  if (i >= lines.length || indentOf(lines[i]) <= headerIndent) return undefined;
+  const first = lines[i].trim();
+  const match = first.match(/^[rRuU]?("""|'''|"|')/);
+  if (!match) return undefined;
+  const quote = match[1];
+  const opening = first.slice(match[0].length);
+  let text: string;
+  if (opening.includes(quote)) {
+    text = opening.slice(0, opening.indexOf(quote));
+  } else if (quote.length === 1) {
+    return undefined;
+  } else {
+    const body = [opening];
+    for (i++; i < lines.length && !lines[i].includes(quote); i++) body.push(lines[i]);
+    body.push((lines[i] ?? '').slice(0, (lines[i] ?? '').indexOf(quote)));
+    text = body.join('\n');
+  }
+  const doc = cleanDoc(text);
+  return doc ? truncate(doc, MAX_DOC_LENGTH) : undefined;
+}
+
+/** The lines of an indented block starting after `start`, up to the first line indented at most `indent`. */
+function blockEnd(lines: string[], start: number, indent: number): number {
+  let i = start;
+  while (i < lines.length && (!lines[i].trim() || indentOf(lines[i]) > indent)) i++;
+  return i;
+}
+
+function isPublic(name: string): boolean {
+  return !name.startsWith('_') || name === '__init__' || name === '__call__';
+}
+
+/** Cuts a compound statement's header at the colon that opens its block, which is the first one outside brackets. */
+function header(text: string): string {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ':' && depth === 0) {
+      return text.slice(0, i).trim();
+    }
+  }
+  return text;
+}
+
+/** Reads a `def` or `class` header and its decorators into a signature. */
+function definition(lines: string[], start: number, decorators: string[]): { name: string; kind: string; signature: string; bodyStart: number } | null {
+  const { text, next } = statement(lines, start);
+  const match = text.match(/^(async\s+def|def|class)\s+(\w+)/);
+  if (!match) return null;
+  const signature = [...decorators, header(text)].join('\n');
+  return { name: match[2], kind: match[1] === 'class' ? 'class' : 'function', signature: truncate(signature, MAX_SIGNATURE_LENGTH), bodyStart: next };
+}
+
+function classMembers(lines: string[], start: number, end: number): ApiSymbol['members'] {
+  const members: ApiSymbol['members'] = [];
+  const firstLine = lines.slice(start, end).find(line => line.trim());
+  const bodyIndent = firstLine ? indentOf(firstLine) : 0;
+  let decorators: string[] = [];
+  for (let i = start; i < end; i++) {
+    const line = lines[i];
+    if (!line.trim() || indentOf(line) !== bodyIndent) continue;
+    const text = line.trim();
+    if (text.startsWith('@')) {
+      decorators.push(stripComment(text).trim());
+      continue;
+    }
+    const parsed = /^(async\s+)?def\s/.test(text) ? definition(lines, i, decorators) : null;
+    decorators = [];
+    if (parsed) {
+      if (isPublic(parsed.name)) {
+        members.push({ name: parsed.name, signature: parsed.signature, doc: docstring(lines, parsed.bodyStart, bodyIndent) });
+      }
+      i = blockEnd(lines, parsed.bodyStart, bodyIndent) - 1;
+    } else {
+      // Annotated class attributes, e.g. dataclass fields.
+      const field = stripComment(text).match(/^([A-Za-z]\w*)\s*:\s*(.+)$/);
+      if (field) members.push({ name: field[1], signature: truncate(`${field[1]}: ${field[2].trim()}`, MAX_SIGNATURE_LENGTH) });
+    }
+  }
+  return members.slice(0, MAX_MEMBERS);
+}
+
+function parsePythonModule(content: string): PythonModule {
+  const lines = content.split(/\r?\n/);
+  const module: PythonModule = { definitions: new Map(), imports: new Map(), starImports: [] };
+  let decorators: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim() || indentOf(line) > 0 || line.trimStart().startsWith('#')) continue;
+    const text = line.trim();
+    if (text.startsWith('@')) {
+      decorators.push(stripComment(text).trim());
+      continue;
+    }
+    const parsed = /^(async\s+def|def|class)\s/.test(text) ? definition(lines, i, decorators) : null;
+    decorators = [];
+    if (parsed) {
+      const end = blockEnd(lines, parsed.bodyStart, 0);
+      module.definitions.set(parsed.name, {
+        name: parsed.name,
+        kind: parsed.kind,
+        signature: parsed.signature,
+        doc: docstring(lines, parsed.bodyStart, 0),
+        members: parsed.kind === 'class' ? classMembers(lines, parsed.bodyStart, end) : [],
+      });
+      i = end - 1;
+      continue;
+    }
+
+    const { text: full, next } = statement(lines, i);
+    const fromImport = full.match(/^from\s+(\S+)\s+import\s+\(?(.+?)\)?$/);
+    const all = full.match(/^__all__\s*(?::[^=]+)?\+?=\s*[\[(](.*)[\])]$/);
+    const assignment = full.match(/^([A-Za-z]\w*)\s*(?::\s*([^=]+?))?\s*=\s*(.+)$/);
+    if (fromImport) {
+      const [, from, names] = fromImport;
+      if (names.trim() === '*') {
+        module.starImports.push(from);
+      } else {
+        for (const item of names.split(',')) {
+          const [name, alias] = item.trim().split(/\s+as\s+/);
+          if (name) module.imports.set(alias ?? name, { module: from, name });
+        }
+      }
+    } else if (all) {
+      module.all = [...(module.all ?? []), ...[...all[1].matchAll(/["']([^"']+)["']/g)].map(match => match[1])];
+    } else if (assignment && !module.definitions.has(assignment[1])) {
+      const [, name, type, value] = assignment;
+      const signature = type ? `${name}: ${type.trim()}` : `${name} = ${value.length <= 60 ? value : '...'}`;
+      module.definitions.set(name, { name, kind: 'variable', signature: truncate(signature, MAX_SIGNATURE_LENGTH), members: [] });
+    }
+    i = next - 1;
+  }
+  return module;
+}
+
+/** Where a package's Python modules live, so absolute imports of the package itself can be resolved. */
+interface PackageLayout {
+  files: Set<string>;
+  /** The directory the top-level package directory sits in, '' for the flat layout. */
+  root: string;
+  packageName: string;
+}
+
+function resolveModule(fromFile: string, from: string, layout: PackageLayout): string | undefined {
+  let base: string;
+  const relative = from.match(/^(\.+)(.*)$/);
+  if (relative) {
+    let dir = path.posix.dirname(fromFile);
+    for (let level = 1; level < relative[1].length; level++) dir = path.posix.dirname(dir);
+    base = relative[2] ? path.posix.join(dir, ...relative[2].split('.')) : dir;
+  } else if (from.split('.')[0] === layout.packageName) {
+    base = path.posix.join(layout.root, ...from.split('.'));
+  } else {
+    return undefined;
+  }
+  return [`${base}.py`, `${base}/__init__.py`].find(candidate => layout.files.has(candidate));
+}
+
+class PythonResolver {
+  private modules = new Map<string, Promise<PythonModule | null>>();
+
+  constructor(private layout: PackageLayout, private readFile: ReadRepoFile) {}
+
+  parse(file: string): Promise<PythonModule | null> {
+    if (!this.modules.has(file)) {
+      this.modules.set(file, this.readFile(file).then(content => content === null ? null : parsePythonModule(content), e => {
+        if (e instanceof GitHubRateLimitError) throw e;
+        return null;
+      }));
+    }
+    return this.modules.get(file)!;
+  }
+
+  /** Finds what a name in a module refers to, following imports within the package. */
+  async lookup(file: string, name: string, depth = 0): Promise<ApiSymbol | undefined> {
+    const module = await this.parse(file);
+    if (!module || depth > MAX_IMPORT_DEPTH) return undefined;
+    const definition = module.definitions.get(name);
+    if (definition) return definition;
+    const imported = module.imports.get(name);
+    const target = imported && resolveModule(file, imported.module, this.layout);
+    if (imported && target) {
+      const symbol = await this.lookup(target, imported.name, depth + 1);
+      return symbol && { ...symbol, name };
+    }
+    for (const from of module.starImports) {
+      const starTarget = resolveModule(file, from, this.layout);
+      if (starTarget && (await this.exportsOf(starTarget, depth + 1)).some(symbol => symbol.name === name)) {
+        return this.lookup(starTarget, name, depth + 1);
+      }
+    }
+    return undefined;
+  }
+
+  /** The public names of a module: `__all__`, or its public definitions and package-internal imports. */
+  async exportsOf(file: string, depth = 0): Promise<ApiSymbol[]> {
+    const module = await this.parse(file);
+    if (!module || depth > MAX_IMPORT_DEPTH) return [];
+    if (module.all) {
+      const symbols = await Promise.all(module.all.map(name => this.lookup(file, name, depth)));
+      return symbols.filter((symbol): symbol is ApiSymbol => !!symbol);
+    }
+    // Without __all__, only constants count among the module's variables.
+    const symbols = [...module.definitions.values()].filter(symbol => symbol.kind === 'variable' ? /^[A-Z][A-Z0-9_]*$/.test(symbol.name) : isPublic(symbol.name));
+    for (const [name, { module: from }] of module.imports) {
+      if (!isPublic(name) || !resolveModule(file, from, this.layout)) continue;
+      const symbol = await this.lookup(file, name, depth);
+      if (symbol) symbols.push(symbol);
+    }
+    for (const from of module.starImports) {
+      const target = resolveModule(file, from, this.layout);
+      if (target) symbols.push(...await this.exportsOf(target, depth + 1));
+    }
+    return symbols.filter((symbol, index) => symbols.findIndex(other => other.name === symbol.name) === index);
+  }
+}
+
+async function packageName(files: Set<string>, readFile: ReadRepoFile): Promise<string | undefined> {
+  const read = (file: string) => files.has(file) ? readFile(file).catch(e => {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return null;
+  }) : Promise.resolve(null);
+  const pyproject = await read('pyproject.toml');
+  if (pyproject) {
+    try {
+      const data: Record<string, any> = parseToml(pyproject);
+      const name = data.project?.name ?? data.tool?.poetry?.name ?? data.tool?.flit?.metadata?.module;
+      if (typeof name === 'string') return name;
+    } catch {
+      // A malformed pyproject.toml is reported by the manifest analysis.
+    }
+  }
+  const setupCfg = await read('setup.cfg');
+  const cfgName = setupCfg?.match(/^\s*name\s*=\s*(\S+)/m)?.[1];
+  if (cfgName) return cfgName;
+  const setupPy = await read('setup.py');
+  return setupPy?.match(/\bname\s*=\s*["']([^"']+)["']/)?.[1];
+}
+
+export async function collectPythonApi(tree: string[], readFile: ReadRepoFile): Promise<ApiModule[]> {
+  const files = new Set(tree);
+  const distribution = await packageName(files, readFile);
+  if (!distribution) return [];
+
+  // Distribution names are normalized to import names, e.g. `my-lib` to `my_lib`.
+  const importName = distribution.toLowerCase().replace(/[-.]/g, '_');
+  const root = ['src', ''].find(dir => files.has(path.posix.join(dir, importName, '__init__.py'))
+    || files.has(path.posix.join(dir, `${importName}.py`)));
+  if (root === undefined) return [];
+  const layout: PackageLayout = { files, root, packageName: importName };
+  const resolver = new PythonResolver(layout, readFile);
+
+  const init = path.posix.join(root, importName, '__init__.py');
+  const entry = files.has(init) ? init : path.posix.join(root, `${importName}.py`);
+  const symbols = await resolver.exportsOf(entry);
+  if (symbols.length > 0 || !files.has(init)) {
+    return [{ language: 'python', name: importName, file: entry, symbols: symbols.slice(0, MAX_SYMBOLS_PER_MODULE) }];
+  }
+
+  // An empty __init__.py leaves the public modules themselves as the API.
+  const dir = path.posix.dirname(init);
+  const modules: ApiModule[] = [];
+  const candidates = tree
+    .filter(file => path.posix.dirname(file) === dir && file.endsWith('.py') && !path.posix.basename(file).startsWith('_'))
+    .sort()
+    .slice(0, MAX_MODULES);
+  for (const file of candidates) {
+    const moduleSymbols = await resolver.exportsOf(file);
+    modules.push({ language: 'python', name: `${importName}.${path.posix.basename(file, '.py')}`, file, symbols: moduleSymbols.slice(0, MAX_SYMBOLS_PER_MODULE) });
+  }
+  return modules;
+}
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {collectRouteFacts} from './routes';
+
+/** Collects the routes of an in-memory repository. */
+function collect(files: Record<string, string>) {
+  return collectRouteFacts(Object.keys(files), async file => files[file] ?? null);
+}
+
+const summary = (facts: Awaited<ReturnType<typeof collect>>) => facts.routes.map(route => `${route.method} ${route.path} ${route.file}`);
+
+describe('route discovery', () => {
+  test('finds routes in files named after something else by the framework they import', async () => {
+    const facts = await collect({
+      'src/mypkg/cli.py': [
+        'from fastapi import FastAPI',
+        '',
+        'app = FastAPI()',
+        '',
+        '@app.get("/health")',
+        'def health():',
+        '    return {"ok": True}',
+      ].join('\n'),
+      'src/http.js': "const express = require('express');\nconst app = express();\napp.post('/login', login);\n",
+      'src/util.js': "export function get(path) { return fetch(path); }\nget('/not-a-route');\n",
+    });
+    assert.deepEqual(summary(facts), ['GET /health src/mypkg/cli.py', 'POST /login src/http.js']);
+  });
+
+  test('detects Next.js from the next dependency without a next.config', async () => {
+    const facts = await collect({
+      'package.json': JSON.stringify({ dependencies: { next: '15.0.0' } }),
+      'app/api/users/[id]/route.ts': 'export async function GET() {}\nexport async function DELETE() {}\n',
+      'app/page.tsx': 'export default function Home() { return null; }\n',
+    });
+    assert.deepEqual(summary(facts), [
+      'GET /api/users/[id] app/api/users/[id]/route.ts',
+      'DELETE /api/users/[id] app/api/users/[id]/route.ts',
+      'GET / app/page.tsx',
+    ]);
+  });
+});
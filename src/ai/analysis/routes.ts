@@ -0,0 +1,442 @@
+/**
+ * @fileOverview Discovery of the HTTP routes a web service exposes.
+ *
+ * Next.js routes come from the file system: pages and route handlers under
+ * app/ (with the HTTP methods a route.ts exports) and pages/, including
+ * pages/api, in projects that depend on next or have a next.config. Other
+ * frameworks declare their routes in code, so source files are read and the
+ * ones that import a web framework (or, like Fastify plugins and Flask views,
+ * declare routes on an instance they are handed) are scanned for them. Files
+ * where routes conventionally live (routes/, controllers/, api/, server.*,
+ * app.*, main.* and the like) are read first. Prefixes from mounted routers,
+ * blueprints and controllers are resolved across files where the mount names
+ * an imported module, so paths are reported the way a client calls them.
+ *
+ * Supported: Next.js (app and pages routers), Express, Fastify, NestJS,
+ * Flask, FastAPI, and Go's net/http (http.HandleFunc, http.Handle and
+ * ServeMux method patterns) as well as gin, echo, chi and fiber.
+ *
+ * - RouteSchema - The Zod schema for a single route.
+ * - Route - The TypeScript type for a single route.
+ * - RouteFactsSchema - The Zod schema for the routes of a repository.
+ * - RouteFacts - The TypeScript type for the routes of a repository.
+ * - collectRouteFacts - Finds the route files of a repository and extracts their routes.
+ */
+
+import path from 'node:path';
+import {z} from 'zod';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {ReadRepoFile} from './types';
+
+export const RouteSchema = z.object({
+  method: z.string().describe('The HTTP method, or ALL when the handler accepts any method.'),
+  path: z.string().describe('The full path, with the framework\'s parameter syntax, e.g. /users/:id or /users/[id].'),
+  kind: z.enum(['endpoint', 'page']).describe('Whether the route serves an API endpoint or a rendered page.'),
+  framework: z.string(),
+  file: z.string().describe('The file the handler is defined in.'),
+  handler: z.string().optional().describe('The name of the handler function, when it is named.'),
+});
+
+export type Route = z.infer<typeof RouteSchema>;
+
+export const RouteFactsSchema = z.object({
+  routes: z.array(RouteSchema),
+  omittedRouteCount: z.number().describe('How many more routes were found than are listed.'),
+});
+
+export type RouteFacts = z.infer<typeof RouteFactsSchema>;
+
+const MAX_ROUTES = 80;
+/** Bounds the reads per generation; likely route files are read first. */
+const MAX_SCANNED_FILES = 150;
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+const IGNORED_PATH_PATTERN = /(^|\/)(node_modules|vendor|dist|build|out|\.next|target|tests?|__tests__|testdata|e2e|fixtures|examples?)\/|\.(test|spec)\.\w+$|_test\.go$|\.d\.ts$/;
+/** Where routes declared in code conventionally live, so those files are read first. */
+const ROUTE_FILE_PATTERN = /(^|\/)(routes?|routers?|api|controllers?|handlers?|endpoints?|views|blueprints?|server|app|main|index)(\/|\.\w+$)|\.(controller|routes?|router)\.[jt]s$/;
+const SOURCE_PATTERN = /\.([mc]?[jt]sx?|py|go)$/;
+
+const NEXT_APP_PATTERN = /^(?:src\/)?app\/(?:(.*)\/)?(page|route)\.(?:[jt]sx?|mdx)$/;
+const NEXT_PAGES_PATTERN = /^(?:src\/)?pages\/(.*)\.(?:[jt]sx?|mdx)$/;
+
+/** A route as declared, before the prefixes of whatever mounts it are applied. */
+interface DeclaredRoute extends Omit<Route, 'file'> {
+  /** The router, app or blueprint variable the route is declared on, or `@nest` for NestJS controllers. */
+  receiver?: string;
+}
+
+/** A router mounted below a path, e.g. `app.use('/api', users)`. */
+interface Mount {
+  receiver: string;
+  path: string;
+  target: { file: string; name: string };
+  /** Whether the mount path replaces the router's own prefix, as in Flask. */
+  replaces?: boolean;
+}
+
+interface RouteFile {
+  file: string;
+  routes: DeclaredRoute[];
+  /** The prefixes routers are created with, e.g. `APIRouter(prefix='/items')`, by variable; `@nest` holds NestJS's global prefix. */
+  prefixes: Map<string, string>;
+  mounts: Mount[];
+}
+
+function joinPaths(...parts: string[]): string {
+  const segments = parts.flatMap(part => part.split('/')).filter(Boolean);
+  return `/${segments.join('/')}`;
+}
+
+/** The name an import or require binds, mapped to the file and export it refers to. */
+function jsImports(file: string, content: string, files: Set<string>): Map<string, { file: string; name: string }> {
+  const imports = new Map<string, { file: string; name: string }>();
+  const resolve = (specifier: string) => {
+    if (!specifier.startsWith('.')) return undefined;
+    const base = path.posix.join(path.posix.dirname(file), specifier).replace(/\.[mc]?js$/, '');
+    return ['', '.ts', '.js', '.mjs', '.cjs', '/index.ts', '/index.js'].map(extension => base + extension).find(candidate => files.has(candidate));
+  };
+  for (const match of content.matchAll(/\bimport\s+(?:(\w+)\s*,?\s*)?(?:\{([^}]*)\}|\*\s+as\s+(\w+))?\s*from\s*['"]([^'"]+)['"]/g)) {
+    const target = resolve(match[4]);
+    if (!target) continue;
+    if (match[1]) imports.set(match[1], { file: target, name: 'default' });
+    if (match[3]) imports.set(match[3], { file: target, name: '*' });
+    for (const binding of match[2]?.split(',') ?? []) {
+      const [name, alias = name] = binding.trim().split(/\s+as\s+/);
+      if (name) imports.set(alias.trim(), { file: target, name: name.trim() });
+    }
+  }
+  for (const match of content.matchAll(/\b(?:const|let|var)\s+(?:(\w+)|\{([^}]*)\})\s*=\s*require\(\s*['"]([^'"]+)['"]\s*\)/g)) {
+    const target = resolve(match[3]);
+    if (!target) continue;
+    if (match[1]) imports.set(match[1], { file: target, name: 'default' });
+    for (const binding of match[2]?.split(',') ?? []) {
+      const [name, alias = name] = binding.trim().split(/\s*:\s*/);
+      if (name) imports.set(alias.trim(), { file: target, name: name.trim() });
+    }
+  }
+  // Inline requires are bound to their specifier, e.g. `app.use('/api', require('./api'))`.
+  for (const match of content.matchAll(/require\(\s*['"]([^'"]+)['"]\s*\)/g)) {
+    const target = resolve(match[1]);
+    if (target) imports.set(`require:${match[1]}`, { file: target, name: 'default' });
+  }
+  return imports;
+}
+
+/** The index of the parenthesis closing the one at `open`, skipping string literals. */
+function closingParen(content: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"' || char === "'" || char === '`') {
+      const end = content.indexOf(char, i + 1);
+      i = end === -1 ? content.length : end;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+const JS_FRAMEWORKS: Record<string, string> = {
+  'express': 'express',
+  'fastify': 'fastify',
+  'hono': 'hono',
+  'koa-router': 'koa',
+  '@koa/router': 'koa',
+};
+const JS_FRAMEWORK_PATTERN = /from\s+['"](express|fastify|hono|koa-router|@koa\/router)['"]|require\(\s*['"](express|fastify|hono|koa-router|@koa\/router)['"]\s*\)/;
+/** Variables routes are conventionally declared on, also in files that get them passed in, like Fastify plugins. */
+const JS_RECEIVERS = new Set(['app', 'router', 'server', 'fastify', 'api', 'routes']);
+const JS_METHOD = '(get|post|put|patch|delete|del|all|options|head)';
+
+function parseJsRoutes(file: string, content: string, files: Set<string>): RouteFile {
+  const result: RouteFile = { file, routes: [], prefixes: new Map(), mounts: [] };
+  const imported = content.match(JS_FRAMEWORK_PATTERN);
+  // Fastify plugins get the instance passed in rather than importing fastify.
+  const framework = imported ? JS_FRAMEWORKS[imported[1] ?? imported[2]] : /\bfastify\.\w+\(/.test(content) ? 'fastify' : 'express';
+  const imports = jsImports(file, content, files);
+  const routers = new Set([...content.matchAll(/\b(\w+)\s*=\s*(?:await\s+)?(?:express(?:\.Router)?|Router|Fastify|fastify|require\(\s*['"]express['"]\s*\)\.Router|new\s+(?:Hono|Router|KoaRouter))\s*\(/g)].map(match => match[1]));
+  const isReceiver = (name: string) => routers.has(name) || JS_RECEIVERS.has(name);
+  const method = (name: string) => name.toUpperCase() === 'DEL' ? 'DELETE' : name.toUpperCase();
+
+  // NestJS: `@Controller('users')` prefixes the paths of the handler decorators below it.
+  const globalPrefix = content.match(/\.setGlobalPrefix\(\s*(['"`])([^'"`]*)\1/)?.[2];
+  if (globalPrefix) result.prefixes.set('@nest', globalPrefix);
+  if (/@Controller\(/.test(content)) {
+    let prefix = '';
+    const pattern = /@Controller\(\s*(?:(['"`])([^'"`]*)\1|\{[^}]*\bpath:\s*(['"`])([^'"`]*)\3[^}]*\})?\s*\)|@(Get|Post|Put|Patch|Delete|All|Options|Head)\(\s*(?:(['"`])([^'"`]*)\6)?\s*\)/g;
+    for (const match of content.matchAll(pattern)) {
+      if (!match[5]) {
+        prefix = match[2] ?? match[4] ?? '';
+        continue;
+      }
+      // The handler is the method the decorator stack ends at.
+      const handler = content.slice(match.index! + match[0].length).match(/^(?:\s*@\w+(?:\([^)]*\))?)*\s*(?:(?:public|async)\s+)*(\w+)\s*\(/)?.[1];
+      result.routes.push({ method: method(match[5]), path: joinPaths(prefix, match[7] ?? ''), kind: 'endpoint', framework: 'nestjs', handler, receiver: '@nest' });
+    }
+    return result;
+  }
+
+  // Only a handler passed by name is named; inline functions are not.
+  const handlerName = (args: string[]) => {
+    const last = args[args.length - 1]?.trim();
+    return last && /^[A-Za-z_$][\w$.]*$/.test(last) ? last : undefined;
+  };
+  const callArgs = (open: number) => content.slice(open + 1, closingParen(content, open)).split(',');
+  for (const match of content.matchAll(new RegExp(`\\b(\\w+)\\.${JS_METHOD}\\(\\s*(['"\`])(\\/[^'"\`]*|\\*)\\3\\s*,`, 'g'))) {
+    if (!isReceiver(match[1])) continue;
+    const args = callArgs(match.index! + match[0].indexOf('('));
+    result.routes.push({ method: method(match[2]), path: match[4], kind: 'endpoint', framework, handler: handlerName(args), receiver: match[1] });
+  }
+  // Express chains handlers on a route: `router.route('/users').get(list).post(create)`.
+  for (const match of content.matchAll(/\b(\w+)\.route\(\s*(['"`])(\/[^'"`]*)\2\s*\)/g)) {
+    if (!isReceiver(match[1])) continue;
+    let position = match.index! + match[0].length;
+    for (let chained = content.slice(position).match(new RegExp(`^\\s*\\.${JS_METHOD}\\(`)); chained; chained = content.slice(position).match(new RegExp(`^\\s*\\.${JS_METHOD}\\(`))) {
+      const open = position + chained[0].length - 1;
+      result.routes.push({ method: method(chained[1]), path: match[3], kind: 'endpoint', framework, handler: handlerName(callArgs(open)), receiver: match[1] });
+      position = closingParen(content, open) + 1;
+    }
+  }
+  // Fastify's full declaration: `fastify.route({ method: ['GET', 'HEAD'], url: '/', handler })`.
+  for (const match of content.matchAll(/\b(\w+)\.route\(\s*\{/g)) {
+    const body = content.slice(match.index!, closingParen(content, match.index! + match[0].indexOf('(')));
+    const url = body.match(/\burl:\s*(['"`])([^'"`]*)\1/)?.[2];
+    if (!url || !isReceiver(match[1])) continue;
+    const methods = body.match(/\bmethod:\s*(\[[^\]]*\]|(['"`])\w+\2)/)?.[1].match(/\w+/g) ?? ['ALL'];
+    for (const name of methods) {
+      result.routes.push({ method: method(name), path: url, kind: 'endpoint', framework, handler: body.match(/\bhandler:\s*(\w+)\s*[,}\n]/)?.[1], receiver: match[1] });
+    }
+  }
+
+  // Mounts: `app.use('/api', router)` in Express and `fastify.register(plugin, { prefix: '/api' })`.
+  const mountTarget = (expression: string) => {
+    const specifier = expression.match(/^require\(\s*['"]([^'"]+)['"]/)?.[1];
+    return imports.get(specifier ? `require:${specifier}` : expression) ?? { file, name: expression };
+  };
+  for (const match of content.matchAll(/\b(\w+)\.use\(\s*(['"`])(\/[^'"`]*)\2\s*,/g)) {
+    const args = callArgs(match.index! + match[0].indexOf('(')).slice(1).map(arg => arg.trim());
+    for (const arg of args.filter(arg => /^[\w.]+$|^require\(/.test(arg))) {
+      result.mounts.push({ receiver: match[1], path: match[3], target: mountTarget(arg) });
+    }
+  }
+  for (const match of content.matchAll(/\b(\w+)\.register\(\s*([\w.]+|require\([^)]*\))\s*,\s*\{[^}]*\bprefix:\s*(['"`])([^'"`]*)\3/g)) {
+    result.mounts.push({ receiver: match[1], path: match[4], target: mountTarget(match[2]) });
+  }
+  return result;
+}
+
+function pythonImports(file: string, content: string, files: Set<string>): Map<string, { file: string; name: string }> {
+  const imports = new Map<string, { file: string; name: string }>();
+  const moduleFile = (module: string) => {
+    const dots = module.match(/^\.*/)![0].length;
+    const relative = module.slice(dots).replace(/\./g, '/');
+    const bases = dots
+      ? [path.posix.join(path.posix.dirname(file), ...Array(dots - 1).fill('..'), relative)]
+      : [...files].filter(candidate => candidate === `${relative}.py` || candidate.endsWith(`/${relative}.py`) || candidate.endsWith(`/${relative}/__init__.py`) || candidate === `${relative}/__init__.py`).map(candidate => candidate.replace(/(\/__init__)?\.py$/, ''));
+    return bases.flatMap(base => [`${base}.py`, `${base}/__init__.py`]).find(candidate => files.has(candidate));
+  };
+  for (const match of content.matchAll(/^from\s+([\w.]+)\s+import\s+(?:\(([^)]*)\)|([^\n#]+))/gm)) {
+    for (const binding of (match[2] ?? match[3]).split(',')) {
+      const [name, alias = name] = binding.trim().split(/\s+as\s+/);
+      if (!name) continue;
+      // `from app import routes` may import a module rather than a name from one.
+      const submodule = moduleFile(`${match[1]}${match[1].endsWith('.') ? '' : '.'}${name}`);
+      const module = moduleFile(match[1]);
+      if (submodule) imports.set(alias.trim(), { file: submodule, name: '*' });
+      else if (module) imports.set(alias.trim(), { file: module, name: name.trim() });
+    }
+  }
+  for (const match of content.matchAll(/^import\s+([\w.]+)(?:\s+as\s+(\w+))?/gm)) {
+    const module = moduleFile(match[1]);
+    if (module) imports.set(match[2] ?? match[1], { file: module, name: '*' });
+  }
+  return imports;
+}
+
+function pythonKeyword(args: string, name: string): string | undefined {
+  return args.match(new RegExp(`\\b${name}\\s*=\\s*[rbuf]?(['"])([^'"]*)\\1`))?.[2];
+}
+
+function parsePythonRoutes(file: string, content: string, files: Set<string>): RouteFile {
+  const result: RouteFile = { file, routes: [], prefixes: new Map(), mounts: [] };
+  const framework = /^\s*(?:from\s+fastapi\b|import\s+fastapi\b)/m.test(content) ? 'fastapi' : 'flask';
+  const imports = pythonImports(file, content, files);
+
+  for (const match of content.matchAll(/^(\w+)\s*=\s*(?:\w+\.)?(Blueprint|APIRouter)\(([^)]*)\)/gm)) {
+    const prefix = pythonKeyword(match[3], match[2] === 'Blueprint' ? 'url_prefix' : 'prefix');
+    if (prefix) result.prefixes.set(match[1], prefix);
+  }
+  for (const match of content.matchAll(/^[ \t]*@(\w+)\.(route|get|post|put|patch|delete|head|options|api_route|websocket)\(\s*[rbuf]?(['"])([^'"]*)\3([^)]*(?:\([^)]*\)[^)]*)*)\)/gm)) {
+    const [, receiver, decorator, , routePath, rest] = match;
+    const handler = content.slice(match.index! + match[0].length).match(/^(?:\s*@[^\n]*)*\s*(?:async\s+)?def\s+(\w+)/)?.[1];
+    const listed = rest.match(/\bmethods\s*=\s*[[(]([^\])]*)[\])]/)?.[1].match(/\w+/g);
+    const methods = decorator === 'websocket' ? ['WEBSOCKET']
+      : decorator === 'route' || decorator === 'api_route' ? listed ?? [decorator === 'route' ? 'GET' : 'ALL']
+      : [decorator];
+    for (const name of methods) {
+      result.routes.push({ method: name.toUpperCase(), path: routePath, kind: 'endpoint', framework, handler, receiver });
+    }
+  }
+  for (const match of content.matchAll(/\b(\w+)\.(register_blueprint|include_router)\(\s*([\w.]+)([^)]*)\)/g)) {
+    const [, receiver, method, target, rest] = match;
+    const [object, attribute] = target.split('.');
+    const imported = imports.get(object);
+    const resolved = attribute
+      ? imported && { file: imported.file, name: attribute }
+      : imported ?? { file, name: object };
+    if (!resolved) continue;
+    const isBlueprint = method === 'register_blueprint';
+    const prefix = pythonKeyword(rest, isBlueprint ? 'url_prefix' : 'prefix');
+    result.mounts.push({ receiver, path: prefix ?? '', target: resolved, replaces: isBlueprint && prefix !== undefined });
+  }
+  return result;
+}
+
+const GO_FRAMEWORKS: [RegExp, string][] = [
+  [/"github\.com\/gin-gonic\/gin"/, 'gin'],
+  [/"github\.com\/labstack\/echo/, 'echo'],
+  [/"github\.com\/go-chi\/chi/, 'chi'],
+  [/"github\.com\/gofiber\/fiber/, 'fiber'],
+];
+
+function parseGoRoutes(file: string, content: string): RouteFile {
+  const result: RouteFile = { file, routes: [], prefixes: new Map(), mounts: [] };
+  for (const match of content.matchAll(/\b(\w+)\.(HandleFunc|Handle)\(\s*"([^"]*)"\s*,\s*(?!func\b)([\w.]+)?/g)) {
+    // Since Go 1.22 a ServeMux pattern may start with a method, e.g. "GET /users/{id}".
+    const [, receiver, , pattern, handler] = match;
+    const [, method = 'ALL', routePath] = pattern.match(/^(?:([A-Z]+)\s+)?(.*)$/)!;
+    result.routes.push({ method, path: routePath, kind: 'endpoint', framework: 'net/http', handler, receiver });
+  }
+  const framework = GO_FRAMEWORKS.find(([pattern]) => pattern.test(content))?.[1];
+  if (!framework) return result;
+  for (const match of content.matchAll(/\b(\w+)\s*:?=\s*(\w+)\.(?:Group|Route)\(\s*"([^"]*)"\s*\)/g)) {
+    result.prefixes.set(match[1], joinPaths(result.prefixes.get(match[2]) ?? '', match[3]));
+  }
+  for (const match of content.matchAll(/\b(\w+)\.(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|Any|Get|Post|Put|Patch|Delete|Head|Options|All)\(\s*"(\/[^"]*)"\s*,\s*(?!func\b)([\w.]+)?/g)) {
+    const [, receiver, name, routePath, handler] = match;
+    if (receiver === 'http') continue;
+    result.routes.push({ method: /^(Any|All)$/.test(name) ? 'ALL' : name.toUpperCase(), path: routePath, kind: 'endpoint', framework, handler, receiver });
+  }
+  return result;
+}
+
+/** A Next.js route path from the segments of its file, without route groups and parallel route slots. */
+function nextRoutePath(segments: string): string {
+  return joinPaths(...segments.split('/').filter(segment => !/^\(.*\)$|^@/.test(segment)));
+}
+
+function parseNextRoute(file: string, content: string | null): DeclaredRoute[] {
+  const app = file.match(NEXT_APP_PATTERN);
+  if (app) {
+    const routePath = nextRoutePath(app[1] ?? '');
+    if (app[2] === 'page') return [{ method: 'GET', path: routePath, kind: 'page', framework: 'nextjs' }];
+    const exported = new Set([
+      ...[...(content ?? '').matchAll(/export\s+(?:async\s+)?(?:function|const|let)\s+([A-Z]+)\b/g)].map(match => match[1]),
+      ...[...(content ?? '').matchAll(/export\s*\{([^}]*)\}/g)].flatMap(match => match[1].split(',').map(binding => binding.trim().split(/\s+as\s+/).pop()!)),
+    ].filter(name => METHODS.includes(name)));
+    return [...exported].map(method => ({ method, path: routePath, kind: 'endpoint', framework: 'nextjs' }));
+  }
+  const pages = file.match(NEXT_PAGES_PATTERN);
+  if (!pages || /(^|\/)_(app|document|error|middleware)$/.test(pages[1])) return [];
+  const routePath = nextRoutePath(pages[1].replace(/(^|\/)index$/, ''));
+  if (!/^api(\/|$)/.test(pages[1])) return [{ method: 'GET', path: routePath, kind: 'page', framework: 'nextjs' }];
+  // API routes handle every method unless they branch on req.method.
+  const methods = [...new Set([...(content ?? '').matchAll(/\bmethod\s*[!=]==?\s*['"]([A-Z]+)['"]|\bcase\s+['"]([A-Z]+)['"]/g)].map(match => match[1] ?? match[2]))].filter(method => METHODS.includes(method));
+  return (methods.length ? methods : ['ALL']).map(method => ({ method, path: routePath, kind: 'endpoint', framework: 'nextjs' }));
+}
+
+/** Applies the prefixes of the routers each route is declared on and of everything mounting them. */
+function resolvePrefixes(parsed: RouteFile[]): Route[] {
+  const byFile = new Map(parsed.map(routeFile => [routeFile.file, routeFile]));
+  const mounts = parsed.flatMap(routeFile => routeFile.mounts.map(mount => ({ ...mount, file: routeFile.file })));
+  const nestPrefix = parsed.map(routeFile => routeFile.prefixes.get('@nest')).find(Boolean) ?? '';
+
+  const prefixOf = (file: string, receiver: string, seen: Set<string>): string => {
+    const key = `${file}#${receiver}`;
+    if (seen.has(key)) return '';
+    seen.add(key);
+    const own = byFile.get(file)?.prefixes.get(receiver) ?? '';
+    const mount = mounts.find(candidate => candidate.target.file === file && candidate.target.name === receiver)
+      ?? mounts.find(candidate => candidate.target.file === file && ['default', '*'].includes(candidate.target.name));
+    if (!mount) return own;
+    return joinPaths(prefixOf(mount.file, mount.receiver, seen), mount.path, mount.replaces ? '' : own);
+  };
+
+  return parsed.flatMap(({ file, routes }) => routes.map(({ receiver, ...route }) => ({
+    ...route,
+    path: receiver === '@nest' ? joinPaths(nestPrefix, route.path) : receiver ? joinPaths(prefixOf(file, receiver, new Set()), route.path) : route.path,
+    file,
+  })));
+}
+
+/** Whether a source file declares routes in code, judged by the framework it imports or the route declarations it makes. */
+function declaresRoutes(file: string, content: string): boolean {
+  if (file.endsWith('.py')) {
+    return /^\s*(?:from|import)\s+(?:flask|fastapi)\b/m.test(content) || /^[ \t]*@\w+\.(?:route|api_route|get|post|put|patch|delete)\(/m.test(content);
+  }
+  if (file.endsWith('.go')) return content.includes('"net/http"') || GO_FRAMEWORKS.some(([pattern]) => pattern.test(content));
+  return JS_FRAMEWORK_PATTERN.test(content) || content.includes('@nestjs/common') || /\bfastify\.\w+\(/.test(content);
+}
+
+async function usesNext(files: Set<string>, read: ReadRepoFile): Promise<boolean> {
+  if (['next.config.js', 'next.config.mjs', 'next.config.ts'].some(file => files.has(file))) return true;
+  if (!files.has('package.json')) return false;
+  try {
+    const manifest = JSON.parse(await read('package.json') ?? '{}');
+    return Boolean(manifest.dependencies?.next ?? manifest.devDependencies?.next);
+  } catch {
+    // A malformed package.json is reported by the manifest analysis.
+    return false;
+  }
+}
+
+export async function collectRouteFacts(tree: string[], readFile: ReadRepoFile): Promise<RouteFacts> {
+  const read = (file: string) => readFile(file).catch(e => {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return null;
+  });
+  const files = new Set(tree);
+  const candidates = tree.filter(file => SOURCE_PATTERN.test(file) && !IGNORED_PATH_PATTERN.test(file));
+  const nextFiles = await usesNext(files, read)
+    ? candidates.filter(file => NEXT_APP_PATTERN.test(file) || NEXT_PAGES_PATTERN.test(file))
+    : [];
+  const scannedFiles = candidates
+    .filter(file => !nextFiles.includes(file))
+    .sort((a, b) => Number(!ROUTE_FILE_PATTERN.test(a)) - Number(!ROUTE_FILE_PATTERN.test(b))
+      || a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .slice(0, MAX_SCANNED_FILES);
+
+  // Pages need no content; route handlers are read for the methods they export.
+  const nextContents = await Promise.all(nextFiles.map(file => /(^|\/)(route\.[jt]sx?|api\/.*)$/.test(file) ? read(file) : null));
+  const contents = await Promise.all(scannedFiles.map(read));
+
+  const parsed: RouteFile[] = nextFiles.map((file, i) => ({ file, routes: parseNextRoute(file, nextContents[i]), prefixes: new Map(), mounts: [] }));
+  scannedFiles.forEach((file, i) => {
+    const content = contents[i];
+    if (!content || !declaresRoutes(file, content)) return;
+    try {
+      const routeFile = file.endsWith('.py') ? parsePythonRoutes(file, content, files)
+        : file.endsWith('.go') ? parseGoRoutes(file, content)
+        : parseJsRoutes(file, content, files);
+      parsed.push(routeFile);
+    } catch (e) {
+      console.error(`Failed to parse routes in ${file}`, e);
+    }
+  });
+
+  const seen = new Set<string>();
+  const routes = resolvePrefixes(parsed)
+    .filter(route => {
+      const key = `${route.method} ${route.path} ${route.file}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    // Endpoints lead, as they are what the endpoints table is about.
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'endpoint' ? -1 : 1) || a.path.localeCompare(b.path) || METHODS.indexOf(a.method) - METHODS.indexOf(b.method));
+  return { routes: routes.slice(0, MAX_ROUTES), omittedRouteCount: Math.max(0, routes.length - MAX_ROUTES) };
+}
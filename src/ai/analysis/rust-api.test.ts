@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {collectRustApi} from './rust-api';
+
+/** Collects the API of an in-memory repository. */
+function collect(files: Record<string, string>) {
+  return collectRustApi(Object.keys(files), async file => files[file] ?? null);
+}
+
+const lines = (...content: string[]) => content.join('\n');
+
+describe('Rust API extraction', () => {
+  test('reads the pub items of the crate root, its re-exports and its pub modules', async () => {
+    const modules = await collect({
+      'Cargo.toml': '[package]\nname = "crabby"\nversion = "0.1.0"\n',
+      'src/lib.rs': lines(
+        '//! Crabby things.',
+        'pub mod shell;',
+        'mod private;',
+        'pub use private::Claw;',
+        '',
+        '/// Max legs.',
+        'pub const LEGS: u8 = 10;',
+        '',
+        '/// A crab.',
+        'pub struct Crab {',
+        '    /// Its name.',
+        '    pub name: String,',
+        '    age: u32,',
+        '}',
+        '',
+        'impl Crab {',
+        '    /// Makes a crab.',
+        '    pub fn new(name: &str) -> Self {',
+        '        Crab { name: name.into(), age: 0 }',
+        '    }',
+        '    fn secret(&self) {}',
+        '}',
+        '',
+        '/// Direction of travel.',
+        'pub enum Direction {',
+        '    Sideways,',
+        '    Backwards,',
+        '}',
+        '',
+        '/// Things that pinch.',
+        'pub trait Pinch {',
+        '    fn pinch(&self) -> bool;',
+        '}',
+        '',
+        '/// Walks.',
+        'pub fn walk(crab: &Crab, dir: Direction) -> Result<(), String> {',
+        '    Ok(())',
+        '}',
+        '',
+        'fn hidden() {}',
+      ),
+      'src/private.rs': '/// A claw.\npub struct Claw;\n',
+      'src/shell.rs': '/// Hardness.\npub fn hardness() -> u8 { 5 }\n',
+    });
+    assert.deepEqual(modules.map(module => [module.name, module.file]), [['crabby', 'src/lib.rs'], ['crabby::shell', 'src/shell.rs']]);
+    assert.deepEqual(modules[0].symbols.map(symbol => [symbol.kind, symbol.signature, symbol.doc]), [
+      ['const', 'pub const LEGS: u8 = 10', 'Max legs.'],
+      ['struct', 'pub struct Crab', 'A crab.'],
+      ['method', 'pub fn new(name: &str) -> Self', 'Makes a crab.'],
+      ['enum', 'pub enum Direction', 'Direction of travel.'],
+      ['trait', 'pub trait Pinch', 'Things that pinch.'],
+      ['function', 'pub fn walk(crab: &Crab, dir: Direction) -> Result<(), String>', 'Walks.'],
+      ['struct', 'pub struct Claw', 'A claw.'],
+    ]);
+    const symbol = (name: string) => modules[0].symbols.find(candidate => candidate.name === name)!;
+    assert.deepEqual(symbol('Crab').members, [{ name: 'name', signature: 'pub name: String', doc: 'Its name.' }]);
+    assert.deepEqual(symbol('Direction').members.map(member => member.name), ['Sideways', 'Backwards']);
+    assert.deepEqual(symbol('Pinch').members.map(member => member.signature), ['fn pinch(&self) -> bool']);
+    assert.ok(symbol('Crab::new'));
+    assert.deepEqual(modules[1].symbols.map(item => item.signature), ['pub fn hardness() -> u8']);
+  });
+
+  test('the [lib] path of Cargo.toml names the crate root', async () => {
+    const modules = await collect({
+      'Cargo.toml': '[package]\nname = "custom"\n\n[lib]\npath = "lib/custom.rs"\n',
+      'lib/custom.rs': '/// Adds.\npub fn add(a: i32, b: i32) -> i32 { a + b }\n',
+    });
+    assert.deepEqual(modules.map(module => [module.name, module.file, module.symbols.map(symbol => symbol.name)]), [
+      ['custom', 'lib/custom.rs', ['add']],
+    ]);
+  });
+
+  test('binary-only crates have no API', async () => {
+    assert.deepEqual(await collect({ 'Cargo.toml': '[package]\nname = "tool"\n', 'src/main.rs': 'fn main() {}\n' }), []);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * @fileOverview Public API extraction for Rust library crates.
+ *
+ * The crate root is src/lib.rs, or the `[lib] path` of Cargo.toml; binary-only
+ * crates have no API to document. The `pub` items of the crate root are read
+ * with their `///` doc comments: functions, structs with their public fields,
+ * enums with their variants, traits with their methods, type aliases,
+ * constants, statics, exported macros and the `pub fn` methods of inherent
+ * impl blocks as `Type::method`. `pub use` re-exports of the crate's own
+ * modules are resolved to the items they name, and each `pub mod` declared
+ * in its own file is documented as a module of its own.
+ *
+ * - collectRustApi - Extracts the public API of a repository's library crate.
+ */
+
+import path from 'node:path';
+import {parse as parseToml} from 'smol-toml';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {ApiModule, ApiSymbol} from './api-reference';
+import type {ReadRepoFile} from './types';
+
+const MAX_MODULES = 5;
+const MAX_SYMBOLS_PER_MODULE = 40;
+const MAX_MEMBERS = 20;
+const MAX_SIGNATURE_LENGTH = 300;
+const MAX_DOC_LENGTH = 600;
+const MAX_REEXPORT_DEPTH = 4;
+
+interface RustModule {
+  items: ApiSymbol[];
+  /** `pub use` paths, split into segments; the last segment may be `*` or carry an alias. */
+  reexports: { path: string[]; alias?: string }[];
+  /** Names of the `pub mod` declarations without an inline body. */
+  submodules: string[];
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text;
+}
+
+/** Drops comments and the contents of string and char literals, so braces in them are not counted. */
+function code(line: string): string {
+  return line
+    .replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)'/g, '""')
+    .replace(/\/\/.*$/, '')
+    .replace(/\/\*.*?\*\//g, '');
+}
+
+function braceDepthChange(line: string): number {
+  let change = 0;
+  for (const char of code(line)) {
+    if (char === '{') change++;
+    else if (char === '}') change--;
+  }
+  return change;
+}
+
+/**
+ * Joins `///` lines into Markdown that fits a README: headings such as
+ * `# Examples` become bold text, doc tests become rust code blocks and the
+ * lines rustdoc hides from them (`# use ...;`) are dropped.
+ */
+function docComment(comments: string[]): string | undefined {
+  let inCode = false;
+  const lines: string[] = [];
+  for (const comment of comments) {
+    const line = comment.replace(/^\/\/\/\s?/, '');
+    if (line.trimStart().startsWith('```')) {
+      lines.push(!inCode && line.trim() === '```' ? '```rust' : line);
+      inCode = !inCode;
+    } else if (inCode) {
+      if (!/^\s*#(\s|$)/.test(line)) lines.push(line);
+    } else {
+      lines.push(line.replace(/^#{1,6}\s+(.*)$/, '**$1**'));
+    }
+  }
+  const doc = lines.join('\n').trim();
+  return doc ? truncate(doc, MAX_DOC_LENGTH) : undefined;
+}
+
+/** The declaration up to its body or terminating semicolon, on one line. */
+function declarationHead(lines: string[], start: number): string {
+  let text = '';
+  for (let i = start; i < lines.length; i++) {
+    text += ` ${code(lines[i]).trim()}`;
+    const stop = text.search(/[{;]/);
+    if (stop !== -1) {
+      text = text.slice(0, stop);
+      break;
+    }
+  }
+  return text.replace(/\s+/g, ' ').replace(/\( /g, '(').replace(/,? \)/g, ')').trim();
+}
+
+/** Reads an item's block from `start`; returns its lines and the line after it. */
+function itemBlock(lines: string[], start: number): { body: string[]; next: number } {
+  let depth = 0;
+  let opened = false;
+  let i = start;
+  for (; i < lines.length; i++) {
+    const text = code(lines[i]);
+    depth += braceDepthChange(lines[i]);
+    if (text.includes('{')) opened = true;
+    if ((opened && depth <= 0) || (!opened && text.includes(';'))) break;
+  }
+  return { body: lines.slice(start, i + 1), next: i + 1 };
+}
+
+/** The members of a struct, enum or trait body: public fields, variants or methods. */
+function bodyMembers(body: string[], kind: string): ApiSymbol['members'] {
+  const members: ApiSymbol['members'] = [];
+  let comments: string[] = [];
+  let depth = 0;
+  // Members start after the line that opens the body, which may follow a multi-line header.
+  for (let i = body.findIndex(line => code(line).includes('{')) + 1; i < body.length; i++) {
+    const text = body[i].trim();
+    if (depth === 0 && text.startsWith('///')) {
+      comments.push(text);
+      continue;
+    }
+    if (depth === 0 && !text.startsWith('#[') && !text.startsWith('}') && text) {
+      // Fields and variants end at their line; trait methods may span lines.
+      const head = kind === 'trait' ? declarationHead(body, i) : code(text).replace(/\s*\{.*$/, '').replace(/,\s*$/, '').trim();
+      const name = kind === 'struct' ? head.match(/^pub\s+(\w+)\s*:/)?.[1]
+        : kind === 'enum' ? head.match(/^(\w+)/)?.[1]
+        : head.match(/\bfn\s+(\w+)/)?.[1] ?? head.match(/^(?:type|const)\s+(\w+)/)?.[1];
+      if (name) members.push({ name, signature: truncate(head, MAX_SIGNATURE_LENGTH), doc: docComment(comments) });
+    }
+    depth += braceDepthChange(body[i]);
+    comments = [];
+  }
+  return members.slice(0, MAX_MEMBERS);
+}
+
+const ITEM_PATTERN = /^pub\s+(?:(?:const|async|unsafe|extern\s+"[^"]*")\s+)*(fn|struct|enum|trait|type|const|static|mod|union)\s+(\w+)/;
+
+function parseRustModule(content: string): RustModule {
+  const lines = content.split(/\r?\n/);
+  const module: RustModule = { items: [], reexports: [], submodules: [] };
+  let comments: string[] = [];
+  let macroExport = false;
+
+  for (let i = 0; i < lines.length;) {
+    const text = lines[i].trim();
+    if (text.startsWith('///')) {
+      comments.push(text);
+      i++;
+      continue;
+    }
+    if (text.startsWith('#[')) {
+      macroExport ||= text.startsWith('#[macro_export');
+      i++;
+      continue;
+    }
+    const doc = docComment(comments);
+    comments = [];
+    const exported = macroExport;
+    macroExport = false;
+
+    const item = text.match(ITEM_PATTERN);
+    const use = text.match(/^pub\s+use\s+/);
+    const macro = text.match(/^macro_rules!\s*(\w+)/);
+    const impl = text.match(/^impl\b(?:<.*?>)?\s+([\w:]+)(?:<.*?>)?\s*(?:where\b.*)?\{?$/);
+    if (item) {
+      const [, kind, name] = item;
+      const { body, next } = itemBlock(lines, i);
+      if (kind === 'mod') {
+        if (!body.some(line => code(line).includes('{'))) module.submodules.push(name);
+      } else {
+        const hasBody = code(body.join('\n')).includes('{');
+        const head = declarationHead(lines, i);
+        const members = hasBody && ['struct', 'enum', 'trait', 'union'].includes(kind) ? bodyMembers(body, kind) : [];
+        module.items.push({ name, kind: kind === 'fn' ? 'function' : kind, signature: truncate(head, MAX_SIGNATURE_LENGTH), doc, members });
+      }
+      i = next;
+    } else if (use) {
+      const { body, next } = itemBlock(lines, i);
+      // Aliases are marked with `@` before whitespace is dropped.
+      const statement = code(body.join(' ')).replace(/^\s*pub\s+use\s+/, '').replace(/;.*$/, '').replace(/\s+as\s+/g, '@').replace(/\s+/g, '');
+      // Expands `a::{b, c::d as e}` into its paths.
+      const expand = (prefix: string[], tree: string): { path: string[]; alias?: string }[] => {
+        const group = tree.match(/^(.*?)::\{(.*)\}$/) ?? tree.match(/^()\{(.*)\}$/);
+        if (!group) {
+          const [target, alias] = tree.split('@');
+          return [{ path: [...prefix, ...target.split('::').filter(Boolean)], alias }];
+        }
+        const base = [...prefix, ...group[1].split('::').filter(Boolean)];
+        const parts: string[] = [];
+        let depth = 0;
+        let current = '';
+        for (const char of group[2]) {
+          if (char === ',' && depth === 0) { parts.push(current); current = ''; continue; }
+          if (char === '{') depth++;
+          if (char === '}') depth--;
+          current += char;
+        }
+        parts.push(current);
+        return parts.filter(Boolean).flatMap(part => expand(base, part));
+      };
+      module.reexports.push(...expand([], statement));
+      i = next;
+    } else if (macro && exported) {
+      module.items.push({ name: `${macro[1]}!`, kind: 'macro', signature: `macro_rules! ${macro[1]}`, doc, members: [] });
+      i = itemBlock(lines, i).next;
+    } else if (impl && !/\bfor\b/.test(code(text))) {
+      // Inherent impl blocks add methods; trait impls only implement what the trait documents.
+      const { body, next } = itemBlock(lines, i);
+      const typeName = impl[1].split('::').pop()!;
+      for (const method of bodyMembers(body, 'impl')) {
+        if (/^pub\s/.test(method.signature)) {
+          module.items.push({ name: `${typeName}::${method.name}`, kind: 'method', signature: method.signature, doc: method.doc, members: [] });
+        }
+      }
+      i = next;
+    } else if (code(text).includes('{')) {
+      i = itemBlock(lines, i).next;
+    } else {
+      i++;
+    }
+  }
+  return module;
+}
+
+class RustResolver {
+  private modules = new Map<string, Promise<RustModule | null>>();
+
+  constructor(private files: Set<string>, private readFile: ReadRepoFile, private rootFile: string) {}
+
+  /** The file of a module path below the crate root, e.g. `['client', 'http']`. */
+  moduleFile(modulePath: string[]): string | undefined {
+    const dir = path.posix.dirname(this.rootFile);
+    if (modulePath.length === 0) return this.rootFile;
+    const base = path.posix.join(dir, ...modulePath);
+    return [`${base}.rs`, `${base}/mod.rs`].find(candidate => this.files.has(candidate));
+  }
+
+  parse(file: string): Promise<RustModule | null> {
+    if (!this.modules.has(file)) {
+      this.modules.set(file, this.readFile(file).then(content => content === null ? null : parseRustModule(content), e => {
+        if (e instanceof GitHubRateLimitError) throw e;
+        return null;
+      }));
+    }
+    return this.modules.get(file)!;
+  }
+
+  /** The public items of a module, including what it re-exports from the crate's own modules. */
+  async itemsOf(modulePath: string[], depth = 0): Promise<ApiSymbol[]> {
+    const file = this.moduleFile(modulePath);
+    const module = file && await this.parse(file);
+    if (!module) return [];
+    const items = [...module.items];
+    if (depth >= MAX_REEXPORT_DEPTH) return items;
+    for (const { path: reexport, alias } of module.reexports) {
+      // Paths are relative to the crate (`crate::`), the module (`self::`) or its parent (`super::`).
+      const segments = reexport[0] === 'crate' ? reexport.slice(1)
+        : reexport[0] === 'self' ? [...modulePath, ...reexport.slice(1)]
+        : reexport[0] === 'super' ? [...modulePath.slice(0, -1), ...reexport.slice(1)]
+        : [...modulePath, ...reexport];
+      const name = segments[segments.length - 1];
+      if (name === 'self') continue;
+      const target = segments.slice(0, -1);
+      if (!this.moduleFile(target) || target.join('::') === modulePath.join('::')) {
+        // Re-exports of other crates are listed by path only.
+        items.push({ name: alias ?? name, kind: 'reexport', signature: `pub use ${reexport.join('::')}${alias ? ` as ${alias}` : ''}`, members: [] });
+        continue;
+      }
+      const targetItems = await this.itemsOf(target, depth + 1);
+      if (name === '*') {
+        items.push(...targetItems.filter(item => !items.some(existing => existing.name === item.name)));
+      } else {
+        const matches = targetItems.filter(item => item.name === name || item.name.startsWith(`${name}::`));
+        items.push(...matches.map(item => ({ ...item, name: item.name.replace(name, alias ?? name) })));
+      }
+    }
+    return items;
+  }
+
+  async submodulesOf(modulePath: string[]): Promise<string[]> {
+    const file = this.moduleFile(modulePath);
+    const module = file && await this.parse(file);
+    return module ? module.submodules : [];
+  }
+}
+
+export async function collectRustApi(tree: string[], readFile: ReadRepoFile): Promise<ApiModule[]> {
+  const files = new Set(tree);
+  if (!files.has('Cargo.toml')) return [];
+  let manifest: Record<string, any>;
+  try {
+    manifest = parseToml(await readFile('Cargo.toml') ?? '');
+  } catch (e) {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return [];
+  }
+  const rootFile = path.posix.normalize(manifest.lib?.path ?? 'src/lib.rs');
+  if (!manifest.package?.name || !files.has(rootFile)) return [];
+  const crateName = String(manifest.lib?.name ?? manifest.package.name).replace(/-/g, '_');
+
+  const resolver = new RustResolver(files, readFile, rootFile);
+  const modules: ApiModule[] = [{
+    language: 'rust',
+    name: crateName,
+    file: rootFile,
+    symbols: (await resolver.itemsOf([])).slice(0, MAX_SYMBOLS_PER_MODULE),
+  }];
+  for (const submodule of (await resolver.submodulesOf([])).slice(0, MAX_MODULES - 1)) {
+    const file = resolver.moduleFile([submodule]);
+    if (!file) continue;
+    modules.push({
+      language: 'rust',
+      name: `${crateName}::${submodule}`,
+      file,
+      symbols: (await resolver.itemsOf([submodule])).slice(0, MAX_SYMBOLS_PER_MODULE),
+    });
+  }
+  return modules.filter(module => module.symbols.length > 0);
+}
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {collectTypeScriptApi} from './ts-api';
+
+/** Collects the API of an in-memory package whose entry is `index.ts`. */
+function collect(files: Record<string, string>) {
+  const tree = { 'package.json': JSON.stringify({ name: 'cyclic', types: 'index.ts' }), ...files };
+  return collectTypeScriptApi(Object.keys(tree), async file => tree[file as keyof typeof tree] ?? null);
+}
+
+const names = (modules: Awaited<ReturnType<typeof collect>>) => modules.flatMap(module => module.symbols.map(symbol => symbol.name)).sort();
+
+describe('TypeScript API re-export cycles', { timeout: 5000 }, () => {
+  test('star re-exports that point at each other settle', async () => {
+    const modules = await collect({
+      'index.ts': "export * from './a';",
+      'a.ts': "export * from './b';\nexport const fromA = 1;",
+      'b.ts': "export * from './a';\nexport const fromB = 2;",
+    });
+    assert.deepEqual(names(modules), ['fromA', 'fromB']);
+  });
+
+  test('a module importing from its own barrel settles', async () => {
+    const modules = await collect({
+      'index.ts': "export {helper} from './helper';\nexport {run} from './run';",
+      'helper.ts': 'export function helper(): void {}',
+      'run.ts': "import {helper} from './index';\nexport {helper as runHelper};\nexport function run(): void {}",
+    });
+    assert.deepEqual(names(modules), ['helper', 'run']);
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * @fileOverview Public API extraction for TypeScript and JavaScript packages.
+ *
+ * The entry modules come from package.json (`exports`, `types`, `module`,
+ * `main`), or deno.json / jsr.json for Deno packages, and are mapped back
+ * from build output to their sources. Each entry is parsed with the
+ * TypeScript compiler (syntax only, no type checking) and its exports are
+ * resolved through re-exports and imports of relative modules, so a package
+ * that re-exports everything from an index file is documented by the
+ * declarations themselves. Symbols marked @internal, @private, @hidden or
+ * @ignore are left out. Applications without a library entry point have no
+ * API to document.
+ *
+ * - publishedSource - Maps a published file of a package back to its source file.
+ * - collectTypeScriptApi - Extracts the exported API of a repository's entry modules.
+ */
+
+import path from 'node:path';
+import ts from 'typescript';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {ApiModule, ApiSymbol} from './api-reference';
+import type {ReadRepoFile} from './types';
+
+const MAX_ENTRY_MODULES = 5;
+const MAX_SYMBOLS_PER_MODULE = 40;
+const MAX_MEMBERS = 20;
+const MAX_SIGNATURE_LENGTH = 300;
+const MAX_DOC_LENGTH = 600;
+/** Bounds how many modules are parsed while following re-exports. */
+const MAX_PARSED_FILES = 50;
+const MAX_REEXPORT_DEPTH = 6;
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.d.ts'];
+/** Build output directories whose contents mirror a source directory. */
+const OUTPUT_DIRECTORIES = new Set(['dist', 'build', 'lib', 'out', 'esm', 'cjs', 'es', 'types', 'typings']);
+/** The export conditions that best point at the public surface, in order of preference. */
+const CONDITIONS = ['types', 'import', 'module', 'default', 'require', 'node'];
+const HIDDEN_TAGS = new Set(['internal', 'private', 'hidden', 'ignore']);
+
+interface EntryPoint {
+  /** What users import, e.g. `pkg` or `pkg/sub`. */
+  name: string;
+  file: string;
+}
+
+/** Picks the target of an `exports` entry, which may nest conditions. */
+function conditionTarget(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(conditionTarget).find(Boolean);
+  if (!value || typeof value !== 'object') return undefined;
+  const conditions = value as Record<string, unknown>;
+  for (const condition of CONDITIONS) {
+    const target = conditionTarget(conditions[condition]);
+    if (target) return target;
+  }
+  return undefined;
+}
+
+/** Maps a published path like `./dist/index.d.ts` back to the source file it was built from. */
+export function publishedSource(target: string, files: Set<string>): string | undefined {
+  const normalized = path.posix.normalize(target.replace(/^\.\//, ''));
+  const base = normalized.replace(/\.d\.[mc]?ts$|\.[mc]?[jt]sx?$/, '');
+  const segments = base.split('/');
+  while (segments.length > 1 && OUTPUT_DIRECTORIES.has(segments[0])) segments.shift();
+  const rest = segments.join('/');
+  const bases = [...new Set([`src/${rest}`, rest, base])];
+  for (const candidate of bases) {
+    for (const extension of SOURCE_EXTENSIONS) {
+      if (files.has(candidate + extension)) return candidate + extension;
+    }
+  }
+  return files.has(normalized) ? normalized : undefined;
+}
+
+function entryPoints(manifest: Record<string, any>, files: Set<string>): EntryPoint[] {
+  const name: string = manifest.name ?? 'index';
+  const targets: { name: string; target: string }[] = [];
+  const exportsField = manifest.exports;
+  const subpaths = exportsField && typeof exportsField === 'object' && !Array.isArray(exportsField)
+    && Object.keys(exportsField).some(key => key.startsWith('.'));
+  if (subpaths) {
+    for (const [subpath, value] of Object.entries(exportsField)) {
+      const target = conditionTarget(value);
+      // Wildcard subpaths and non-code files (package.json, CSS) have no single module to document.
+      if (!target || subpath.includes('*') || !/\.[mc]?[jt]sx?$/.test(target)) continue;
+      targets.push({ name: subpath === '.' ? name : path.posix.join(name, subpath), target });
+    }
+  } else if (conditionTarget(exportsField)) {
+    targets.push({ name, target: conditionTarget(exportsField)! });
+  } else {
+    for (const field of ['source', 'types', 'typings', 'module', 'main']) {
+      if (typeof manifest[field] === 'string') targets.push({ name, target: manifest[field] });
+    }
+  }
+
+  const entries = new Map<string, EntryPoint>();
+  for (const { name: entryName, target } of targets) {
+    const file = publishedSource(target, files);
+    if (file && ![...entries.values()].some(entry => entry.file === file)) entries.set(entryName, { name: entryName, file });
+  }
+  return [...entries.values()].slice(0, MAX_ENTRY_MODULES);
+}
+
+/** Resolves a relative import to a file in the tree, the way bundlers and TypeScript do. */
+function resolveModule(from: string, specifier: string, files: Set<string>): string | undefined {
+  if (!specifier.startsWith('.')) return undefined;
+  const base = path.posix.join(path.posix.dirname(from), specifier);
+  const stripped = base.replace(/\.[mc]?jsx?$/, '');
+  const candidates = [base, ...SOURCE_EXTENSIONS.map(extension => stripped + extension), ...SOURCE_EXTENSIONS.map(extension => `${base}/index${extension}`)];
+  return candidates.find(candidate => files.has(candidate));
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+}
+
+/** Modifiers that say how a declaration is exported rather than what it is. */
+const EXPORT_MODIFIERS = new Set([ts.SyntaxKind.ExportKeyword, ts.SyntaxKind.DefaultKeyword, ts.SyntaxKind.DeclareKeyword]);
+
+function ownModifiers(node: ts.Node): ts.Modifier[] | undefined {
+  return ts.canHaveModifiers(node) ? ts.getModifiers(node)?.filter(modifier => !EXPORT_MODIFIERS.has(modifier.kind)) : undefined;
+}
+
+function jsDocOf(node: ts.Node): ts.JSDoc | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  return docs[docs.length - 1];
+}
+
+function isHidden(node: ts.Node): boolean {
+  return !!jsDocOf(node)?.tags?.some(tag => HIDDEN_TAGS.has(tag.tagName.text));
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text;
+}
+
+/** The doc comment's text, followed by its tags; examples are kept as code blocks. */
+function docText(node: ts.Node): string | undefined {
+  const doc = jsDocOf(node);
+  if (!doc) return undefined;
+  const parts = [ts.getTextOfJSDocComment(doc.comment)?.trim()];
+  for (const tag of doc.tags ?? []) {
+    const comment = ts.getTextOfJSDocComment(tag.comment)?.trim() ?? '';
+    const tagName = tag.tagName.text;
+    if (tagName === 'example') {
+      parts.push(comment.includes('```') ? comment : `Example:\n\n\`\`\`ts\n${comment}\n\`\`\``);
+    } else if (ts.isJSDocParameterTag(tag)) {
+      parts.push(`@param ${tag.name.getText()}${comment ? ` ${comment.replace(/^-\s*/, '- ')}` : ''}`);
+    } else if (!['typedef', 'callback', 'template', 'type'].includes(tagName)) {
+      parts.push(`@${tagName}${comment ? ` ${comment}` : ''}`);
+    }
+  }
+  const text = parts.filter(Boolean).join('\n\n');
+  return text ? truncate(text, MAX_DOC_LENGTH) : undefined;
+}
+
+const printer = ts.createPrinter({ removeComments: true });
+
+function print(node: ts.Node, source: ts.SourceFile): string {
+  const text = printer.printNode(ts.EmitHint.Unspecified, node, source)
+    .replace(/\s*\{\s*\}$/, '')
+    .replace(/;$/, '')
+    .replace(/\s+/g, ' ');
+  return truncate(text.trim(), MAX_SIGNATURE_LENGTH);
+}
+
+function memberName(member: ts.ClassElement | ts.TypeElement, source: ts.SourceFile): string {
+  if (ts.isConstructorDeclaration(member)) return 'constructor';
+  if (ts.isCallSignatureDeclaration(member)) return '(call)';
+  if (ts.isConstructSignatureDeclaration(member)) return 'new';
+  if (ts.isIndexSignatureDeclaration(member)) return '[index]';
+  return member.name ? member.name.getText(source) : '';
+}
+
+/** A member declaration without its body or initializer. */
+function memberSignature(member: ts.ClassElement | ts.TypeElement, source: ts.SourceFile): string | undefined {
+  const { factory } = ts;
+  let node: ts.Node = member;
+  if (ts.isMethodDeclaration(member)) {
+    node = factory.updateMethodDeclaration(member, member.modifiers, member.asteriskToken, member.name, member.questionToken, member.typeParameters, member.parameters, member.type, undefined);
+  } else if (ts.isConstructorDeclaration(member)) {
+    node = factory.updateConstructorDeclaration(member, member.modifiers, member.parameters, undefined);
+  } else if (ts.isGetAccessorDeclaration(member)) {
+    node = factory.updateGetAccessorDeclaration(member, member.modifiers, member.name, member.parameters, member.type, undefined);
+  } else if (ts.isSetAccessorDeclaration(member)) {
+    node = factory.updateSetAccessorDeclaration(member, member.modifiers, member.name, member.parameters, undefined);
+  } else if (ts.isPropertyDeclaration(member)) {
+    node = factory.updatePropertyDeclaration(member, member.modifiers, member.name, member.questionToken ?? member.exclamationToken, member.type, undefined);
+  } else if (!ts.isTypeElement(member)) {
+    return undefined;
+  }
+  return print(node, source);
+}
+
+function isPublicMember(member: ts.ClassElement | ts.TypeElement, source: ts.SourceFile): boolean {
+  if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) return false;
+  if (member.name && ts.isPrivateIdentifier(member.name)) return false;
+  // Overload implementations are covered by the overload signatures.
+  if (ts.isMethodDeclaration(member) && member.body && ts.isClassLike(member.parent)
+    && member.parent.members.some(other => other !== member && ts.isMethodDeclaration(other) && !other.body && memberName(other, source) === memberName(member, source))) return false;
+  return !isHidden(member);
+}
+
+function members(node: ts.ClassLikeDeclaration | ts.InterfaceDeclaration, source: ts.SourceFile): ApiSymbol['members'] {
+  const list: ApiSymbol['members'] = [];
+  for (const member of node.members as ts.NodeArray<ts.ClassElement | ts.TypeElement>) {
+    if (!isPublicMember(member, source)) continue;
+    const signature = memberSignature(member, source);
+    if (signature) list.push({ name: memberName(member, source), signature, doc: docText(member) });
+  }
+  return list.slice(0, MAX_MEMBERS);
+}
+
+/** Describes a declaration as an exported symbol, without bodies and export modifiers. */
+function describe(node: ts.Node, name: string, source: ts.SourceFile): ApiSymbol | undefined {
+  const { factory } = ts;
+  const base = { name, doc: docText(node), members: [] as ApiSymbol['members'] };
+  if (ts.isFunctionDeclaration(node)) {
+    const signature = factory.updateFunctionDeclaration(node, ownModifiers(node), node.asteriskToken, node.name, node.typeParameters, node.parameters, node.type, undefined);
+    return { ...base, kind: 'function', signature: print(signature, source) };
+  }
+  if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+    const heading = factory.createClassDeclaration(ownModifiers(node), node.name ?? factory.createIdentifier(name), node.typeParameters, node.heritageClauses, []);
+    return { ...base, kind: 'class', signature: print(heading, source), members: members(node, source) };
+  }
+  if (ts.isInterfaceDeclaration(node)) {
+    const heading = factory.updateInterfaceDeclaration(node, ownModifiers(node), node.name, node.typeParameters, node.heritageClauses, []);
+    return { ...base, kind: 'interface', signature: print(heading, source), members: members(node, source) };
+  }
+  if (ts.isTypeAliasDeclaration(node)) {
+    const signature = factory.updateTypeAliasDeclaration(node, ownModifiers(node), node.name, node.typeParameters, node.type);
+    return { ...base, kind: 'type', signature: print(signature, source) };
+  }
+  if (ts.isEnumDeclaration(node)) {
+    const signature = factory.updateEnumDeclaration(node, ownModifiers(node), node.name, node.members);
+    return { ...base, kind: 'enum', signature: print(signature, source) };
+  }
+  if (ts.isModuleDeclaration(node)) {
+    return { ...base, kind: 'namespace', signature: `namespace ${node.name.getText(source)}` };
+  }
+  if (ts.isVariableDeclaration(node)) {
+    const keyword = node.parent.flags & ts.NodeFlags.Const ? 'const' : node.parent.flags & ts.NodeFlags.Let ? 'let' : 'var';
+    const initializer = node.initializer;
+    if (node.type) {
+      return { ...base, kind: 'variable', signature: truncate(`${keyword} ${name}: ${print(node.type, source)}`, MAX_SIGNATURE_LENGTH) };
+    }
+    if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+      // Functions assigned to constants are documented like function declarations.
+      const signature = factory.createFunctionDeclaration(initializer.modifiers?.filter(ts.isModifier), undefined, name, initializer.typeParameters, initializer.parameters, initializer.type, undefined);
+      return { ...base, kind: 'function', signature: print(signature, source) };
+    }
+    if (initializer && (ts.isClassExpression(initializer))) return describe(initializer, name, source);
+    const literal = initializer && (ts.isStringLiteral(initializer) || ts.isNumericLiteral(initializer) || initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword)
+      ? ` = ${initializer.getText(source)}`
+      : '';
+    return { ...base, kind: 'variable', signature: truncate(`${keyword} ${name}${literal}`, MAX_SIGNATURE_LENGTH) };
+  }
+  if (ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+    const signature = factory.createFunctionDeclaration(undefined, undefined, name, node.typeParameters, node.parameters, node.type, undefined);
+    return { ...base, kind: 'function', signature: print(signature, source) };
+  }
+  return undefined;
+}
+
+interface ParsedModule {
+  source: ts.SourceFile;
+  /** Local declarations by name; functions may have several overloads. */
+  declarations: Map<string, ts.Node[]>;
+  /** Imported bindings by local name. */
+  imports: Map<string, { specifier: string; name: string }>;
+}
+
+function declaredNames(statement: ts.Statement): { name: string; node: ts.Node }[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .filter(declaration => ts.isIdentifier(declaration.name))
+      .map(declaration => ({ name: (declaration.name as ts.Identifier).text, node: declaration }));
+  }
+  if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)
+    || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) && statement.name && ts.isIdentifier(statement.name)) {
+    return [{ name: statement.name.text, node: statement }];
+  }
+  return [];
+}
+
+function parseModule(file: string, content: string): ParsedModule {
+  const scriptKind = /\.[mc]?jsx?$/.test(file) ? (file.endsWith('x') ? ts.ScriptKind.JSX : ts.ScriptKind.JS) : file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const source = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, scriptKind);
+  const declarations = new Map<string, ts.Node[]>();
+  const imports = new Map<string, { specifier: string; name: string }>();
+  for (const statement of source.statements) {
+    for (const { name, node } of declaredNames(statement)) {
+      declarations.set(name, [...declarations.get(name) ?? [], node]);
+    }
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) && statement.importClause) {
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (clause.name) imports.set(clause.name.text, { specifier, name: 'default' });
+      if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) {
+          imports.set(element.name.text, { specifier, name: (element.propertyName ?? element.name).text });
+        }
+      }
+    }
+  }
+  return { source, declarations, imports };
+}
+
+/** Resolves the exports of entry modules, following re-exports across the files of the tree. */
+class ExportResolver {
+  private modules = new Map<string, Promise<ParsedModule | null>>();
+  private exportsByFile = new Map<string, Promise<Map<string, ApiSymbol>>>();
+  /** Files whose exports are still being collected; reaching one again means an import cycle. */
+  private collecting = new Set<string>();
+
+  constructor(private files: Set<string>, private readFile: ReadRepoFile) {}
+
+  private parse(file: string): Promise<ParsedModule | null> {
+    if (!this.modules.has(file)) {
+      if (this.modules.size >= MAX_PARSED_FILES) return Promise.resolve(null);
+      this.modules.set(file, this.readFile(file).then(content => content === null ? null : parseModule(file, content), e => {
+        if (e instanceof GitHubRateLimitError) throw e;
+        return null;
+      }));
+    }
+    return this.modules.get(file)!;
+  }
+
+  /** Describes what a local name refers to, following imports of relative modules. */
+  private async local(file: string, module: ParsedModule, localName: string, exportedName: string, depth: number): Promise<ApiSymbol | undefined> {
+    const nodes = module.declarations.get(localName);
+    if (nodes?.length) {
+      if (nodes.some(isHidden)) return undefined;
+      // Overloads document the signatures callers see; the implementation comes last.
+      const overloads = nodes.length > 1 ? nodes.filter(node => !(ts.isFunctionDeclaration(node) && node.body)) : nodes;
+      const described = (overloads.length ? overloads : nodes).map(node => describe(node, exportedName, module.source)).filter((symbol): symbol is ApiSymbol => !!symbol);
+      if (described.length === 0) return undefined;
+      return { ...described[0], signature: described.map(symbol => symbol.signature).join('\n'), doc: described.find(symbol => symbol.doc)?.doc };
+    }
+    const imported = module.imports.get(localName);
+    const target = imported && resolveModule(file, imported.specifier, this.files);
+    if (!imported || !target) return undefined;
+    const symbol = (await this.exportsOf(target, depth + 1)).get(imported.name);
+    return symbol && { ...symbol, name: exportedName };
+  }
+
+  async exportsOf(file: string, depth = 0): Promise<Map<string, ApiSymbol>> {
+    // Awaiting a file that is still being collected would never settle, so a cycle contributes nothing.
+    if (depth > MAX_REEXPORT_DEPTH || this.collecting.has(file)) return new Map();
+    if (!this.exportsByFile.has(file)) {
+      this.collecting.add(file);
+      this.exportsByFile.set(file, this.collect(file, depth).finally(() => this.collecting.delete(file)));
+    }
+    return this.exportsByFile.get(file)!;
+  }
+
+  private async collect(file: string, depth: number): Promise<Map<string, ApiSymbol>> {
+    const exported = new Map<string, ApiSymbol>();
+    const module = await this.parse(file);
+    if (!module) return exported;
+    const { source } = module;
+    const add = (symbol: ApiSymbol | undefined) => {
+      if (symbol && !exported.has(symbol.name)) exported.set(symbol.name, symbol);
+    };
+
+    for (const statement of source.statements) {
+      if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+        const names = declaredNames(statement);
+        if (isDefault && names.length === 0) {
+          add(describe(statement, 'default', source));
+        }
+        for (const { name } of names) {
+          add(await this.local(file, module, name, isDefault ? 'default' : name, depth));
+        }
+      } else if (ts.isExportAssignment(statement)) {
+        // `export default x` and `export = x`
+        const name = statement.isExportEquals ? 'export=' : 'default';
+        add(ts.isIdentifier(statement.expression)
+          ? await this.local(file, module, statement.expression.text, name, depth)
+          : describe(statement.expression, name, source));
+      } else if (ts.isExportDeclaration(statement)) {
+        const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined;
+        const target = specifier ? resolveModule(file, specifier, this.files) : undefined;
+        const clause = statement.exportClause;
+        if (!clause) {
+          // `export * from './x'` re-exports everything but the default export.
+          if (!target) continue;
+          for (const [name, symbol] of await this.exportsOf(target, depth + 1)) {
+            if (name !== 'default') add(symbol);
+          }
+        } else if (ts.isNamespaceExport(clause)) {
+          add({ name: clause.name.text, kind: 'namespace', signature: `export * as ${clause.name.text} from '${specifier}'`, doc: docText(statement), members: [] });
+        } else {
+          const targetExports = target ? await this.exportsOf(target, depth + 1) : undefined;
+          for (const element of clause.elements) {
+            const localName = (element.propertyName ?? element.name).text;
+            const symbol = specifier
+              ? targetExports?.get(localName)
+              : await this.local(file, module, localName, element.name.text, depth);
+            add(symbol && { ...symbol, name: element.name.text });
+          }
+        }
+      } else if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)
+        && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+        await this.commonJsExport(file, module, statement.expression, depth, add);
+      }
+    }
+    return exported;
+  }
+
+  /** `module.exports = ...`, `module.exports.x = ...` and `exports.x = ...` */
+  private async commonJsExport(file: string, module: ParsedModule, assignment: ts.BinaryExpression, depth: number, add: (symbol: ApiSymbol | undefined) => void) {
+    const { source } = module;
+    const target = assignment.left.getText(source);
+    const value = assignment.right;
+    const describeValue = async (name: string) => ts.isIdentifier(value)
+      ? await this.local(file, module, value.text, name, depth)
+      : describe(value, name, source);
+    const property = target.match(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)$/);
+    if (property) {
+      const symbol = await describeValue(property[1]);
+      add(symbol && { ...symbol, doc: symbol.doc ?? docText(assignment.parent) });
+    } else if (target === 'module.exports') {
+      if (ts.isObjectLiteralExpression(value)) {
+        for (const element of value.properties) {
+          if (ts.isShorthandPropertyAssignment(element)) {
+            add(await this.local(file, module, element.name.text, element.name.text, depth));
+          } else if (ts.isPropertyAssignment(element) && ts.isIdentifier(element.name)) {
+            add(ts.isIdentifier(element.initializer)
+              ? await this.local(file, module, element.initializer.text, element.name.text, depth)
+              : describe(element.initializer, element.name.text, source));
+          } else if (ts.isMethodDeclaration(element) && ts.isIdentifier(element.name)) {
+            const signature = ts.factory.createFunctionDeclaration(undefined, undefined, element.name.text, element.typeParameters, element.parameters, element.type, undefined);
+            add({ name: element.name.text, kind: 'function', signature: print(signature, source), doc: docText(element), members: [] });
+          }
+        }
+      } else {
+        add(await describeValue(ts.isIdentifier(value) ? value.text : 'default'));
+      }
+    }
+  }
+}
+
+async function readManifest(readFile: ReadRepoFile, file: string): Promise<Record<string, any> | null> {
+  try {
+    const content = await readFile(file);
+    return content ? JSON.parse(content) : null;
+  } catch (e) {
+    if (e instanceof GitHubRateLimitError) throw e;
+    return null;
+  }
+}
+
+export async function collectTypeScriptApi(tree: string[], readFile: ReadRepoFile): Promise<ApiModule[]> {
+  const files = new Set(tree);
+  const manifestFile = ['package.json', 'deno.json', 'jsr.json'].find(file => files.has(file));
+  const manifest = manifestFile ? await readManifest(readFile, manifestFile) : null;
+  // A private package with just a `main` is an application, not a library.
+  if (!manifest || (manifest.private && !manifest.exports && !manifest.types && !manifest.typings)) return [];
+  const entries = entryPoints(manifest, files);
+
+  const resolver = new ExportResolver(files, readFile);
+  const modules: ApiModule[] = [];
+  for (const entry of entries) {
+    const symbols = [...(await resolver.exportsOf(entry.file)).values()];
+    modules.push({
+      language: /\.[mc]?jsx?$/.test(entry.file) ? 'js' : 'ts',
+      name: entry.name,
+      file: entry.file,
+      symbols: symbols.slice(0, MAX_SYMBOLS_PER_MODULE),
+    });
+  }
+  return modules;
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Shared types and settings for the repository analysis modules.
+ *
+ * - ReadRepoFile - Reads a repository file by path, or null if it is missing.
+ * - YamlValue - A YAML value parsed with YAML_OPTIONS.
+ * - YAML_OPTIONS - How CI and deployment configs are parsed with the yaml package.
+ */
+
+import type {DocumentOptions, ParseOptions, SchemaOptions} from 'yaml';
+
+export type ReadRepoFile = (path: string) => Promise<string | null>;
+
+export type YamlValue = string | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+const NUMBER_TAGS = new Set(['tag:yaml.org,2002:int', 'tag:yaml.org,2002:float']);
+
+/**
+ * Numbers stay strings, so a version like `3.10` is not turned into the number
+ * 3.1. Merge keys are applied, and unknown tags such as GitLab's `!reference`
+ * are read as plain values.
+ */
+export const YAML_OPTIONS: ParseOptions & DocumentOptions & SchemaOptions = {
+  merge: true,
+  logLevel: 'error',
+  customTags: tags => tags.filter(tag => typeof tag === 'string' || !NUMBER_TAGS.has(tag.tag)),
+};
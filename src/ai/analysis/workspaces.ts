@@ -0,0 +1,189 @@
+/**
+ * @fileOverview Detects monorepo workspaces and the packages they contain.
+ *
+ * Supports npm/yarn workspaces, pnpm-workspace.yaml, lerna.json, Nx projects,
+ * Cargo `[workspace]` members and Go workspaces (go.work). Package globs are
+ * matched against the directories of the repository tree, and a directory only
+ * counts as a package when it contains the manifest of that ecosystem.
+ *
+ * - WorkspaceTool - The tool that defines the workspace.
+ * - WorkspacePackage - A single package inside a workspace.
+ * - Workspace - The detected workspace and its packages.
+ * - detectWorkspace - Detects the workspace of a repository, if any.
+ */
+
+import path from 'node:path';
+import {parse as parseToml} from 'smol-toml';
+import type {ReadRepoFile} from './types';
+
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'lerna' | 'nx' | 'cargo' | 'go';
+
+export interface WorkspacePackage {
+  name: string;
+  /** Directory of the package relative to the repository root. */
+  path: string;
+  /** The manifest file that defines the package, relative to the repository root. */
+  manifest: string;
+}
+
+export interface Workspace {
+  tool: WorkspaceTool;
+  packages: WorkspacePackage[];
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('')
+    .map(char => ('\\^$+?.()|{}[]'.includes(char) ? `\\${char}` : char))
+    .join('')
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\u0000/g, '.*');
+  return new RegExp(`^${source}$`);
+}
+
+function directoriesOf(tree: string[]): string[] {
+  const dirs = new Set<string>();
+  for (const filePath of tree) {
+    let dir = path.posix.dirname(filePath);
+    while (dir !== '.' && !dirs.has(dir)) {
+      dirs.add(dir);
+      dir = path.posix.dirname(dir);
+    }
+  }
+  return [...dirs].sort();
+}
+
+function matchPackageDirs(tree: string[], patterns: string[], manifestName: string): string[] {
+  const files = new Set(tree);
+  const include = patterns.filter(pattern => !pattern.startsWith('!')).map(globToRegExp);
+  const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(pattern.slice(1)));
+  return directoriesOf(tree).filter(dir =>
+    include.some(re => re.test(dir)) &&
+    !exclude.some(re => re.test(dir)) &&
+    files.has(`${dir}/${manifestName}`)
+  );
+}
+
+function parseJson(content: string | null): any {
+  if (!content) return null;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+function parseTomlTable(content: string | null): Record<string, any> | null {
+  if (!content) return null;
+  try {
+    return parseToml(content);
+  } catch {
+    return null;
+  }
+}
+
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of content.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages) {
+      const item = line.match(/^\s+-\s*["']?([^"'#]+?)["']?\s*(#.*)?$/);
+      if (item) {
+        patterns.push(item[1]);
+      } else if (/^\S/.test(line)) {
+        break;
+      }
+    }
+  }
+  return patterns;
+}
+
+function parseGoWork(content: string): string[] {
+  const dirs: string[] = [];
+  const block = content.match(/^use\s*\(([\s\S]*?)\)/m);
+  if (block) {
+    dirs.push(...block[1].split('\n').map(line => line.replace(/\/\/.*$/, '').trim()).filter(Boolean));
+  }
+  for (const match of content.matchAll(/^use\s+([^\s(]+)/gm)) {
+    dirs.push(match[1]);
+  }
+  return dirs.map(dir => dir.replace(/^\.\//, '').replace(/\/+$/, '')).filter(dir => dir && dir !== '.');
+}
+
+async function packageName(dir: string, manifest: string, readFile: ReadRepoFile): Promise<string> {
+  const content = await readFile(manifest);
+  if (content) {
+    if (manifest.endsWith('package.json') || manifest.endsWith('project.json')) {
+      const name = parseJson(content)?.name;
+      if (typeof name === 'string') return name;
+    } else if (manifest.endsWith('Cargo.toml')) {
+      const name = parseTomlTable(content)?.package?.name;
+      if (typeof name === 'string') return name;
+    } else if (manifest.endsWith('go.mod')) {
+      const name = content.match(/^module\s+(\S+)/m)?.[1];
+      if (name) return name;
+    }
+  }
+  return path.posix.basename(dir);
+}
+
+async function toPackages(dirs: string[], manifestName: string, readFile: ReadRepoFile): Promise<WorkspacePackage[]> {
+  return Promise.all(dirs.map(async dir => {
+    const manifest = `${dir}/${manifestName}`;
+    return { name: await packageName(dir, manifest, readFile), path: dir, manifest };
+  }));
+}
+
+export async function detectWorkspace(tree: string[], readFile: ReadRepoFile): Promise<Workspace | null> {
+  const files = new Set(tree);
+
+  if (files.has('pnpm-workspace.yaml')) {
+    const patterns = parsePnpmWorkspace((await readFile('pnpm-workspace.yaml')) ?? '');
+    const dirs = matchPackageDirs(tree, patterns, 'package.json');
+    if (dirs.length) return { tool: 'pnpm', packages: await toPackages(dirs, 'package.json', readFile) };
+  }
+
+  if (files.has('package.json')) {
+    const workspaces = parseJson(await readFile('package.json'))?.workspaces;
+    const patterns: string[] = Array.isArray(workspaces) ? workspaces : workspaces?.packages ?? [];
+    const dirs = matchPackageDirs(tree, patterns, 'package.json');
+    if (dirs.length) {
+      return { tool: files.has('yarn.lock') ? 'yarn' : 'npm', packages: await toPackages(dirs, 'package.json', readFile) };
+    }
+  }
+
+  if (files.has('lerna.json')) {
+    const patterns: string[] = parseJson(await readFile('lerna.json'))?.packages ?? ['packages/*'];
+    const dirs = matchPackageDirs(tree, patterns, 'package.json');
+    if (dirs.length) return { tool: 'lerna', packages: await toPackages(dirs, 'package.json', readFile) };
+  }
+
+  if (files.has('nx.json')) {
+    const dirs = tree
+      .filter(filePath => filePath.endsWith('/project.json'))
+      .map(filePath => path.posix.dirname(filePath));
+    if (dirs.length) return { tool: 'nx', packages: await toPackages(dirs, 'project.json', readFile) };
+  }
+
+  if (files.has('Cargo.toml')) {
+    const cargo = parseTomlTable(await readFile('Cargo.toml'));
+    const members: string[] = cargo?.workspace?.members ?? [];
+    const excluded = (cargo?.workspace?.exclude ?? []).map((pattern: string) => `!${pattern}`);
+    const dirs = matchPackageDirs(tree, [...members, ...excluded], 'Cargo.toml');
+    if (dirs.length) return { tool: 'cargo', packages: await toPackages(dirs, 'Cargo.toml', readFile) };
+  }
+
+  if (files.has('go.work')) {
+    const dirs = parseGoWork((await readFile('go.work')) ?? '').filter(dir => files.has(`${dir}/go.mod`));
+    if (dirs.length) return { tool: 'go', packages: await toPackages(dirs, 'go.mod', readFile) };
+  }
+
+  return null;
+}
@@ -1,135 +1,334 @@
 
 'use server';
 /**
- * @fileOverview Generates a README file for a given GitHub repository based on a user-provided prompt.
+ * @fileOverview Generates a README file for a given GitHub, GitLab or Bitbucket repository based on a user-provided prompt.
+ *
+ * Files are picked by relevance within a token budget (see file-ranking.ts),
+ * and the files that made it into the prompt are reported back to the caller.
+ * Project manifests are additionally parsed into structured project facts
+ * (see manifests.ts) that the model treats as the source of truth, alongside
+ * the metadata the host reports (license, topics, languages, latest release
+ * and counts), the CI configs (see ci.ts), which ground the status badges and
+ * test instructions, the container and deployment configs (see
+ * deployment.ts), which ground the Deployment section, and the environment
+ * variables the sources read (see env-vars.ts), which ground the
+ * Configuration section. For libraries, the exported API is extracted and
+ * rendered into an API Reference section (see api-reference.ts), for
+ * command-line tools the commands and flags are rendered into the Usage
+ * section (see cli.ts), and for web services the HTTP routes are extracted
+ * for an API Endpoints section (see routes.ts).
+ *
+ * With a path, the README is scoped to that subdirectory: the tree, facts and
+ * files come from it, plus the root manifests and license as context. In
+ * monorepo mode the flow also detects the workspace packages and generates
+ * one README per package, grounded in that package's own manifest and
+ * sources. Packages beyond MAX_PACKAGE_READMES are reported as omitted.
  *
  * - generateReadme - A function that generates the README content.
  */
 
+import {AsyncLocalStorage} from 'node:async_hooks';
 import {ai} from '@/ai/genkit';
-import { GenerateReadmeInputSchema, GenerateReadmeOutputSchema, type GenerateReadmeInput, type GenerateReadmeOutput } from './readme.types';
+import { DEFAULT_TOKEN_BUDGET, GenerateReadmeInputSchema, GenerateReadmeOutputSchema, RepoMetadataSchema, type GenerateReadmeInput, type GenerateReadmeOutput, type IncludedFile, type RepoMetadata, type RepoProviderId } from './readme.types';
+import {ApiReferenceSchema, collectApiReference} from '@/ai/analysis/api-reference';
+import {CiFactsSchema, collectCiFacts} from '@/ai/analysis/ci';
+import {CliFactsSchema, collectCliFacts} from '@/ai/analysis/cli';
+import {collectDeploymentFacts, DeploymentFactsSchema} from '@/ai/analysis/deployment';
+import {collectEnvFacts, EnvFactsSchema} from '@/ai/analysis/env-vars';
+import {estimateTokens, selectFiles} from '@/ai/analysis/file-ranking';
+import {collectProjectFacts, isManifest, ProjectFactsSchema, type ProjectFacts} from '@/ai/analysis/manifests';
+import {collectRouteFacts, RouteFactsSchema} from '@/ai/analysis/routes';
+import {detectWorkspace, type WorkspacePackage} from '@/ai/analysis/workspaces';
+import {getRepoProvider} from '@/ai/providers';
+import {localSource, runWithLocalSource} from '@/ai/providers/local';
+import {blobCache} from '@/ai/providers/blob-cache';
+import {GitHubRateLimitError} from '@/ai/providers/github-client';
+import type {RepoProvider, RepoTreeEntry} from '@/ai/providers/types';
+import type {MessageData} from 'genkit';
 import {z} from 'zod';
 
-function decodeBase64(encoded: string): string {
-  return Buffer.from(encoded, 'base64').toString('utf-8');
+/** Upper bound on the number of package READMEs generated in one run. */
+const MAX_PACKAGE_READMES = 20;
+/** Share of the token budget given to each package README. */
+const PACKAGE_BUDGET_SHARE = 0.5;
+/** Share of the token budget given to root context files when the README is scoped to a subdirectory. */
+const ROOT_CONTEXT_BUDGET_SHARE = 0.15;
+const MAX_ROOT_CONTEXT_FILES = 5;
+
+const RepoFileSchema = z.object({
+  path: z.string(),
+  content: z.string(),
+  truncated: z.boolean().optional().describe('Whether the content was shortened to fit the token budget.'),
+});
+
+const WorkspaceSchema = z.object({
+  tool: z.string(),
+  packages: z.array(z.object({ name: z.string(), path: z.string(), hasReadme: z.boolean() })),
+});
+
+/**
+ * Where the repository of the current generation is hosted. The tool reads it
+ * from the flow rather than from its own input, since the model could be
+ * prompted into pointing it at another host or at the local provider.
+ */
+interface RepoHost {
+  provider: RepoProviderId;
+  apiBaseUrl?: string;
+  /** The display name of a local source, used in place of its server path. */
+  localName?: string;
+}
+
+const repoHost = new AsyncLocalStorage<RepoHost>();
+
+/** Trees fetched during the current generation, so the monorepo flow and the tool share one listing. */
+const fetchedTrees = new AsyncLocalStorage<Map<string, ReturnType<RepoProvider['getTree']>>>();
+
+function fetchTree(provider: RepoProvider, owner: string, repo: string, ref?: string): ReturnType<RepoProvider['getTree']> {
+  const trees = fetchedTrees.getStore();
+  const key = `${provider.id}:${provider.apiBaseUrl}:${owner}/${repo}@${ref ?? ''}`;
+  if (!trees) return provider.getTree(owner, repo, ref);
+  if (!trees.has(key)) {
+    const tree = provider.getTree(owner, repo, ref);
+    trees.set(key, tree);
+    tree.catch(() => trees.delete(key));
+  }
+  return trees.get(key)!;
+}
+
+async function readBlob(provider: RepoProvider, owner: string, repo: string, ref: string, entry: RepoTreeEntry): Promise<string | null> {
+  if (entry.sha) {
+    const cached = await blobCache.get('blob', entry.sha);
+    if (cached !== null) return cached;
+  }
+  const content = await provider.getFileContent(owner, repo, ref, entry);
+  if (content !== null && entry.sha) await blobCache.set('blob', entry.sha, content);
+  return content;
+}
+
+/**
+ * Reads repository files by path. Reads are shared, since manifests are read
+ * both for the project facts and again during file selection, and file
+ * contents are cached by blob SHA across generations where the host reports it.
+ */
+function createFileReader(provider: RepoProvider, owner: string, repo: string, ref: string, blobs: Map<string, RepoTreeEntry>) {
+  const reads = new Map<string, Promise<string | null>>();
+  return (filePath: string) => {
+    if (!reads.has(filePath)) {
+      const entry = blobs.get(filePath);
+      reads.set(filePath, entry ? readBlob(provider, owner, repo, ref, entry) : Promise.resolve(null));
+    }
+    return reads.get(filePath)!;
+  };
+}
+
+/**
+ * Reads the host's metadata of a repository. Metadata only enriches the
+ * README, so a failure other than an exhausted rate limit is logged and the
+ * generation continues without it.
+ */
+async function readMetadata(provider: RepoProvider, owner: string, repo: string): Promise<RepoMetadata | undefined> {
+  if (!provider.getMetadata) return undefined;
+  try {
+    return await provider.getMetadata(owner, repo);
+  } catch (error) {
+    if (error instanceof GitHubRateLimitError) throw error;
+    console.warn(`Failed to read the metadata of ${owner}/${repo}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * The branch status badges should report on: the requested ref when it is a
+ * branch, otherwise the default branch. Without a requested ref the tree was
+ * resolved at the default branch already.
+ */
+async function badgeBranch(provider: RepoProvider, owner: string, repo: string, requestedRef: string | undefined, ref: string): Promise<string | undefined> {
+  if (!requestedRef) return ref;
+  try {
+    const { branches, defaultBranch } = await provider.listRefs(owner, repo);
+    return branches.includes(requestedRef) ? requestedRef : defaultBranch ?? undefined;
+  } catch (error) {
+    if (error instanceof GitHubRateLimitError) throw error;
+    console.warn(`Failed to list the branches of ${owner}/${repo}:`, error);
+    return undefined;
+  }
+}
+
+/** Normalizes a subdirectory scope to a plain relative path, or undefined for the repository root. */
+function normalizeScope(scope: string | undefined): string | undefined {
+  const normalized = scope?.trim().replace(/\\/g, '/').replace(/^(\.?\/)+/, '').replace(/\/+$/, '');
+  if (!normalized) return undefined;
+  if (normalized.split('/').includes('..')) {
+    throw new Error(`The path "${scope}" must stay within the repository.`);
+  }
+  return normalized;
+}
+
+/** Root-level manifests and license files, which still matter when documenting a subdirectory. */
+function rootContextPaths(paths: string[]): string[] {
+  return paths
+    .filter(filePath => !filePath.includes('/') && (isManifest(filePath) || /^(licen[cs]e|copying)(\.|$)/i.test(filePath)))
+    .slice(0, MAX_ROOT_CONTEXT_FILES);
 }
 
 const getRepoContent = ai.defineTool(
   {
     name: 'getRepoContent',
-    description: 'Fetches the file and folder structure of a GitHub repository, along with the content of key source files.',
-    inputSchema: GenerateReadmeInputSchema.pick({ userName: true, repoName: true }),
+    description: 'Fetches the file and folder structure of a repository from its hosting service, along with the content of the most relevant files within a token budget.',
+    inputSchema: GenerateReadmeInputSchema.pick({ userName: true, repoName: true, ref: true, path: true, tokenBudget: true, fetchStrategy: true }),
     outputSchema: z.object({
-      tree: z.array(z.string()).describe('The file and folder structure of the repository.'),
-      files: z.array(z.object({
-        path: z.string(),
-        content: z.string(),
-      })).describe('An array of key files from the repository with their content.'),
+      tree: z.array(z.string()).describe('The file and folder structure of the repository, or of the path relative to it when a path was given.'),
+      files: z.array(RepoFileSchema).describe('The most relevant files from the repository (or path) with their content, in order of relevance.'),
+      rootFiles: z.array(RepoFileSchema).optional().describe('Manifests and license files from the repository root, as context when a path was given.'),
+      omittedFileCount: z.number().describe('How many relevant files were left out because the token budget ran out.'),
+      facts: ProjectFactsSchema.describe('Names, versions, scripts, dependencies and runtime versions parsed from the project manifests.'),
+      ci: CiFactsSchema.describe('Workflows, jobs, commands and runtime matrices parsed from the CI configs of the repository, with status badges.'),
+      deployment: DeploymentFactsSchema.describe('Deploy targets, services, ports, environment variable names and deploy commands parsed from the container and deployment configs.'),
+      env: EnvFactsSchema.describe('Environment variables read by the source files or declared in example env files, with where they are used and their defaults.'),
+      api: ApiReferenceSchema.describe('The exported API of the entry modules, with the API Reference section rendered from it.'),
+      routes: RouteFactsSchema.describe('The HTTP routes the project serves, with their methods, full paths and the files that handle them.'),
+      cli: CliFactsSchema.describe('The command-line tools of the repository with their commands, arguments and options, with the Usage section rendered from them.'),
+      metadata: RepoMetadataSchema.optional().describe('What the host reports about the repository: license, topics, languages, homepage, latest release and counts.'),
+      treeSampled: z.boolean().describe('Whether the repository was too large to list completely, so the tree only covers part of it.'),
     }),
   },
-  async ({ userName, repoName }) => {
+  async ({ userName, repoName, ref: requestedRef, path: requestedPath, tokenBudget, fetchStrategy }) => {
+    const host = repoHost.getStore();
+    if (!host) throw new Error('getRepoContent can only be used by the README generation flow.');
+    const { provider: providerId, apiBaseUrl } = host;
+    // A local directory comes from the flow's context (see local.ts), so its server path never reaches the model.
+    const provider = getRepoProvider(providerId, { apiBaseUrl, fetchStrategy });
     try {
-      const headers: HeadersInit = {
-        'Accept': 'application/vnd.github.v3+json',
-        'X-GitHub-Api-Version': '2022-11-28'
-      };
-      if (process.env.GITHUB_ACCESS_TOKEN) {
-        headers['Authorization'] = `Bearer ${process.env.GITHUB_ACCESS_TOKEN}`;
+      const scope = normalizeScope(requestedPath);
+      const [{ ref, entries, sampled }, metadata] = await Promise.all([
+        fetchTree(provider, userName, repoName, requestedRef),
+        readMetadata(provider, userName, repoName),
+      ]);
+
+      const blobs = new Map(entries.filter(entry => entry.type === 'blob').map(entry => [entry.path, entry]));
+      const readFile = createFileReader(provider, userName, repoName, ref, blobs);
+
+      // Within a scope, paths are relative to it, and part of the budget goes to root context.
+      const prefix = scope ? `${scope}/` : '';
+      const scopedPaths = [...blobs.keys()].filter(filePath => filePath.startsWith(prefix)).map(filePath => filePath.slice(prefix.length));
+      if (scope && scopedPaths.length === 0) {
+        throw new Error(`The path "${scope}" does not exist in the repository or contains no files.`);
       }
+      const readScopedFile = (filePath: string) => readFile(prefix + filePath);
+      const budget = tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+      const rootBudget = scope ? Math.floor(budget * ROOT_CONTEXT_BUDGET_SHARE) : 0;
 
-      const repoRes = await fetch(`https://api.github.com/repos/${userName}/${repoName}`, { headers });
-      if (!repoRes.ok) throw new Error(`Failed to fetch repo details: ${await repoRes.text()}`);
-      const repoData = await repoRes.json();
-      const defaultBranch = repoData.default_branch;
-
-      const branchRes = await fetch(`https://api.github.com/repos/${userName}/${repoName}/branches/${defaultBranch}`, { headers });
-      if (!branchRes.ok) throw new Error(`Failed to fetch branch details: ${await branchRes.text()}`);
-      const branchData = await branchRes.json();
-      const treeSha = branchData.commit.commit.tree.sha;
-
-      const treeRes = await fetch(`https://api.github.com/repos/${userName}/${repoName}/git/trees/${treeSha}?recursive=1`, { headers });
-      if (!treeRes.ok) throw new Error(`Failed to fetch file tree: ${await treeRes.text()}`);
-      const treeData = await treeRes.json();
-
-      const allFilePaths = treeData.tree.map((node: any) => node.path);
-      
-      const keyFilePatterns = [
-        'package.json',
-        'README.md', 'readme.md',
-        'src/index.js', 'src/index.ts', 'src/index.tsx',
-        'src/main.js', 'src/main.ts', 'src/main.tsx',
-        'src/app/page.tsx', 'src/app/page.jsx', 'src/app/layout.tsx',
-        'vite.config.js', 'vite.config.ts',
-        'next.config.js', 'next.config.mjs',
-        'tailwind.config.js', 'tailwind.config.ts',
-        'firebase.json',
-        'public/index.html',
-        'Gemfile',
-        'requirements.txt',
-        'pom.xml',
-        'composer.json',
-        'Cargo.toml'
-      ];
-      
-      const filePromises = treeData.tree
-        .filter((node: any) => keyFilePatterns.includes(node.path) && node.type === 'blob' && node.url)
-        .map(async (node: any) => {
-          try {
-            const fileRes = await fetch(node.url, { headers });
-            if (!fileRes.ok) return null;
-            const fileData = await fileRes.json();
-            if (fileData.content) {
-              return {
-                path: node.path,
-                content: decodeBase64(fileData.content),
-              };
-            }
-          } catch (e) {
-            console.error(`Failed to fetch content for ${node.path}`, e);
-          }
-          return null;
-        });
-
-      const files = (await Promise.all(filePromises)).filter(Boolean);
+      const facts = await collectProjectFacts(scopedPaths, readScopedFile);
+      // CI configs live at the repository root, also when the README is scoped to a subdirectory.
+      const branch = providerId === 'local' ? undefined : await badgeBranch(provider, userName, repoName, requestedRef, ref);
+      const ci = await collectCiFacts([...blobs.keys()], readFile, branch
+        ? { provider: providerId, apiBaseUrl: provider.apiBaseUrl, owner: userName, repo: repoName, branch }
+        : undefined);
+      const deployment = await collectDeploymentFacts(scopedPaths, readScopedFile);
+      const selection = await selectFiles(scopedPaths, readScopedFile, { tokenBudget: budget - rootBudget });
+      const env = await collectEnvFacts(scopedPaths, readScopedFile);
+      const api = await collectApiReference(scopedPaths, readScopedFile);
+      const cli = await collectCliFacts(scopedPaths, readScopedFile);
+      const routes = await collectRouteFacts(scopedPaths, readScopedFile);
+      const rootSelection = scope
+        ? await selectFiles(rootContextPaths([...blobs.keys()]), readFile, { tokenBudget: rootBudget })
+        : null;
 
       return {
-        tree: allFilePaths,
-        files: files as { path: string; content: string; }[],
+        tree: entries.filter(entry => entry.path.startsWith(prefix)).map(entry => entry.path.slice(prefix.length)),
+        files: selection.files.map(({ path, content, truncated }) => ({ path, content, truncated })),
+        rootFiles: rootSelection?.files.map(({ path, content, truncated }) => ({ path, content, truncated })),
+        omittedFileCount: selection.omitted.length,
+        facts,
+        ci,
+        deployment,
+        env,
+        api,
+        cli,
+        routes,
+        metadata,
+        treeSampled: !!sampled,
       };
     } catch (error) {
       console.error('Error fetching repository content:', error);
-      throw new Error(`Failed to fetch repository content. Please ensure the repository is public and your GitHub token is valid. Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Rate limits are passed through as-is so the caller can tell when to retry.
+      if (error instanceof GitHubRateLimitError) throw error;
+      const hint = provider.id === 'local'
+        ? `Please ensure ${host.localName ?? 'the local source'} exists and is readable.`
+        : `Please ensure the repository is public on ${provider.apiBaseUrl} and your ${provider.label} token is valid.`;
+      throw new Error(`Failed to fetch repository content. ${hint} Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 );
 
 const generateReadmePrompt = ai.definePrompt({
   name: 'generateReadmePrompt',
-  input: {schema: GenerateReadmeInputSchema},
-  output: {schema: GenerateReadmeOutputSchema},
+  input: {schema: GenerateReadmeInputSchema.extend({
+    workspace: WorkspaceSchema.optional().describe('The detected monorepo workspace, when generating in monorepo mode.'),
+  })},
+  output: {schema: GenerateReadmeOutputSchema.pick({ readmeContent: true })},
   tools: [getRepoContent],
-  prompt: `You are an expert software engineer specializing in creating professional README files for GitHub repositories.
+  prompt: `You are an expert software engineer specializing in creating professional README files for software repositories.
+
+Your goal is to generate a comprehensive and accurate README file. To do this, you MUST first call the 'getRepoContent' tool, passing the repository owner, name, ref, path (if given), token budget and fetch strategy below, to fetch the repository's file structure and the content of key files. This information is crucial for understanding the project's dependencies, scripts, and overall architecture.
+
+Analyze the file structure and the content of all provided files to create the README. Files marked as truncated were shortened to fit the token budget, so do not assume their omitted parts are empty. If 'treeSampled' is true, the repository was too large to list completely: the tree only covers part of it, so describe the file structure in general terms and do not claim that unlisted files or folders are absent.
+
+The tool also returns 'facts' parsed from the project manifests (package.json, pyproject.toml, go.mod, Cargo.toml, pom.xml and others). Treat these facts as the source of truth for the project name, version, scripts and commands, dependencies, optional extras and required runtime versions; never contradict them or invent commands that are not listed there or in the files.
+
+The tool also returns 'ci', parsed from the repository's CI configs: the jobs and the commands they run, the runtime versions and operating systems they are tested against, the commands classified as test, lint and build commands, and ready-made status 'badges'. Put the given badges directly below the title as Markdown image links ([![label](imageUrl)](linkUrl)); never invent badge URLs for CI systems that are not listed. Base the test instructions on the CI test and lint commands, since they are what the project actually runs, and mention the tested runtime versions. If 'ci' has no configs, fall back to the test scripts in the project facts.
+
+The tool also returns 'deployment', parsed from the container and deployment configs (Dockerfiles, Docker Compose, Firebase App Hosting and Firebase, Vercel, Netlify, Fly.io, Helm charts and Kubernetes manifests). For each deploy target, explain how to build and run or deploy the project with the given commands, which ports the services listen on, and which environment variables must be set. Only environment variable names are given: list them, but never invent values for them, and point out the ones that come from a secret store. If 'deployment' has no configs, do not write a Deployment section.
+
+The tool also returns 'env', the environment variables the source files read and the example env files (such as .env.example) declare. Document them in a Configuration section as a Markdown table with the columns Variable, Description, Default and Used in: take the description from the example file or infer it from how the code uses the variable, give the default only when 'defaultValue' is set, write "required" when 'hasDefault' is false, and list the files from 'files'. An 'exampleValue' is only what the example file suggests, often a placeholder: never present it as the default, but you may mention it in the description as an example (e.g. "for example http://localhost:3000"). Never write real-looking secret values; if the project has an example env file, tell the reader to copy it to .env.
+
+The tool also returns 'api', the public API of the project's entry modules when it is a library. Its 'markdown' is an API Reference section generated from the source code, with the exact signatures and doc comments. Include it verbatim: do not rename, reorder, rewrite or add signatures. Precede it with a short summary of what the API offers and how its main pieces fit together, and use the exported names in the Usage examples. If 'markdown' is empty, do not write an API Reference section.
 
-Your goal is to generate a comprehensive and accurate README file. To do this, you MUST first call the 'getRepoContent' tool to fetch the repository's file structure and the content of key files. This information is crucial for understanding the project's dependencies, scripts, and overall architecture.
+The tool also returns 'cli', the command-line tools the project installs, with the commands, arguments and options read from their argument parser definitions. Its 'usage' is a Usage section generated from them. Reuse it verbatim as the Usage section: do not invent, rename or drop commands or flags, and do not change the defaults. You may add a sentence before it and a few example invocations after it, built only from the listed commands and options. If 'usage' is empty, explain usage from the files as usual.
 
-Analyze the file structure and the content of all provided files to create the README.
+The tool also returns 'routes', the HTTP routes the project serves, found in its route files and framework conventions. Document the routes whose kind is 'endpoint' in an API Endpoints section as a Markdown table with the columns Method, Path, Description and Handler: copy the method and path exactly, describe what the endpoint does from its handler when the handler file is among the fetched files, and give the handler as its file (with the handler name when 'handler' is set). Keep the order of 'routes', which groups endpoints by path. Do not add endpoints that are not listed; if 'omittedRouteCount' is above zero, say that the table lists the main endpoints only. Pages (kind 'page') may be mentioned in the Usage section but do not belong in the table.
+
+When present, 'metadata' is what the repository host reports about the repository. Treat it as the source of truth too: state the license by its name and SPDX identifier, link the homepage, use the topics to describe the project's domain, use the languages for the tech stack, and refer to the latest release version where installing a specific version makes sense. Stars, forks and open issue counts change constantly, so only use them through live badges (e.g. shields.io), never as numbers in the text.
 
 Your primary instruction for the style, tone, and content of the README comes from the user's prompt. Use it to guide the entire generation process.
 
+Repository Host: {{{provider}}}
+{{#if apiBaseUrl}}API Base URL: {{{apiBaseUrl}}}
+{{/if}}{{#if localName}}Local Source: {{{localName}}}
+{{/if}}Repository Owner: {{{userName}}}
 Repository Name: {{{repoName}}}
+{{#if ref}}Ref: {{{ref}}}
+{{/if}}{{#if path}}Path: {{{path}}}
+{{/if}}{{#if tokenBudget}}Token Budget: {{{tokenBudget}}}
+{{/if}}Fetch Strategy: {{{fetchStrategy}}}
 Repository Description: {{{repoDescription}}}
 User Prompt: {{{prompt}}}
+{{#if path}}
+
+Write the README for the '{{{path}}}' directory of the repository only, not for the repository as a whole. The tree, files and facts returned by the tool are relative to that directory. The 'rootFiles' come from the repository root and are context only: use them for things like the license, shared tooling and how the directory fits into the wider repository.
+{{/if}}{{#if workspace}}
+
+This repository is a {{{workspace.tool}}} workspace (monorepo) containing the following packages:
+{{#each workspace.packages}}- {{{name}}} ({{{path}}}){{#unless hasReadme}} (no README of its own){{/unless}}
+{{/each}}
+Write the README as an overview of the whole monorepo: explain what each package is for, how the packages relate to each other and how to work with the workspace tooling. Link to each package's own README at '<package path>/README.md' instead of documenting every package in detail, except for the packages marked as having no README of their own, which get a short description instead of a link.
+{{/if}}
 
 Based on your analysis and the user's prompt, the README should include the following sections:
 
 - Project Title: The repository name.
 - Project Description: A detailed explanation of the project's purpose and functionality. Use the repo description as a starting point, but expand on it using your analysis of the code and the guidance from the user's prompt.
-- Tech Stack / Dependencies: List the main technologies and libraries used. You can infer this from 'package.json' or other dependency files.
+- Tech Stack / Dependencies: List the main technologies and libraries used, based on the dependencies and runtimes in the project facts.
 - File Structure: Briefly explain the layout of the project directory.
-- Getting Started / Installation: Provide clear, step-by-step instructions to install dependencies and get the project running. Look for scripts in 'package.json' (e.g., 'dev', 'start', 'build') or instructions in other files.
-- Usage: Explain how to use the project after installation.
+- Getting Started / Installation: Provide clear, step-by-step instructions to install dependencies and get the project running, including the required runtime versions. Use the scripts and commands from the project facts (e.g., 'dev', 'start', 'build') or instructions in other files.
+- Configuration: The environment variables table described above. Leave this section out if 'env' has no variables.
+- Usage: The generated section from 'cli' when it is not empty; otherwise explain how to use the project after installation.
+- API Reference: The short summary followed by the generated reference from 'api'. Leave this section out if it is empty.
+- API Endpoints: The endpoints table described above. Leave this section out if 'routes' has no endpoints.
+- Running Tests: How to run the tests and linters locally, based on the CI commands and the test scripts in the project facts. Leave this section out if the project has neither.
+- Deployment: How the project is containerized and deployed, per deploy target in 'deployment'. Leave this section out if there are none.
 - Contribution Guidelines: Add a section with standard contribution guidelines.
-- License: Add a placeholder for license information if not found.
+- License: State the license from the metadata or the license file. Only add a placeholder if neither names one.
 
 Make sure the README is well-formatted in Markdown, easy to read, and professional.
 Include code snippets where appropriate (e.g., installation commands, example usage).
@@ -137,6 +336,191 @@ Ensure that the response only includes the content of the README file itself.
 `,
 });
 
+const generatePackageReadmePrompt = ai.definePrompt({
+  name: 'generatePackageReadmePrompt',
+  input: {schema: z.object({
+    repoName: z.string(),
+    packageName: z.string(),
+    packagePath: z.string(),
+    workspaceTool: z.string(),
+    prompt: z.string(),
+    tree: z.array(z.string()).describe('The file and folder structure of the package.'),
+    files: z.array(RepoFileSchema).describe('Key files of the package with their content.'),
+    facts: ProjectFactsSchema.describe('Facts parsed from the package manifests.'),
+    apiReference: z.string().describe('The API Reference section rendered from the package\'s exported API, or an empty string.'),
+    usage: z.string().describe('The Usage section rendered from the package\'s command-line definitions, or an empty string.'),
+  })},
+  output: {schema: GenerateReadmeOutputSchema.pick({ readmeContent: true })},
+  prompt: `You are an expert software engineer specializing in creating professional README files for software repositories.
+
+Generate a README for a single package of a {{{workspaceTool}}} monorepo. Base it only on the package's own structure and files below; do not describe other packages of the repository.
+
+Your primary instruction for the style, tone, and content of the README comes from the user's prompt.
+
+Repository Name: {{{repoName}}}
+Package Name: {{{packageName}}}
+Package Path: {{{packagePath}}}
+User Prompt: {{{prompt}}}
+
+Package structure:
+{{#each tree}}- {{{this}}}
+{{/each}}
+
+Package facts (the source of truth for its name, version, scripts, dependencies and runtimes):
+{{#each facts.manifests}}- {{{manifest}}} ({{{ecosystem}}}){{#if name}} name: {{{name}}}{{/if}}{{#if version}}, version: {{{version}}}{{/if}}
+{{#each scripts}}  - script {{{name}}}: {{{command}}}
+{{/each}}{{#each runtimes}}  - runtime {{{name}}} {{{version}}}
+{{/each}}{{#if dependencies.length}}  - dependencies: {{#each dependencies}}{{{this}}} {{/each}}
+{{/if}}{{#if devDependencies.length}}  - dev dependencies: {{#each devDependencies}}{{{this}}} {{/each}}
+{{/if}}{{#each extras}}  - extra {{{name}}}: {{#each dependencies}}{{{this}}} {{/each}}
+{{/each}}{{/each}}
+
+Package files:
+{{#each files}}
+--- {{{path}}}{{#if truncated}} (truncated){{/if}} ---
+{{{content}}}
+{{/each}}
+
+{{#if apiReference}}
+Generated API reference of the package:
+
+{{{apiReference}}}
+
+Include this API reference verbatim, without changing its signatures, after a short summary of what the API offers.
+{{/if}}
+{{#if usage}}
+Generated usage of the package's command-line tool:
+
+{{{usage}}}
+
+Use this as the README's Usage section verbatim; do not invent, rename or drop commands or flags.
+{{/if}}
+The README should include the package name as the title, a description of what the package does, its main dependencies, how to install and use it from within the monorepo, and its available scripts or commands.
+
+Make sure the README is well-formatted in Markdown, easy to read, and professional.
+Ensure that the response only includes the content of the README file itself.
+`,
+});
+
+async function collectPackageFiles(
+  provider: RepoProvider,
+  input: GenerateReadmeInput,
+  ref: string,
+  entries: RepoTreeEntry[],
+  pkg: WorkspacePackage
+): Promise<{ tree: string[]; files: z.infer<typeof RepoFileSchema>[]; facts: ProjectFacts; apiReference: string; usage: string }> {
+  const prefix = `${pkg.path}/`;
+  const packageEntries = entries.filter(entry => entry.path.startsWith(prefix));
+  const blobs = new Map(packageEntries
+    .filter(entry => entry.type === 'blob')
+    .map(entry => [entry.path.slice(prefix.length), entry]));
+  const readFile = createFileReader(provider, input.userName, input.repoName, ref, blobs);
+
+  const tokenBudget = Math.floor((input.tokenBudget ?? DEFAULT_TOKEN_BUDGET) * PACKAGE_BUDGET_SHARE);
+  const facts = await collectProjectFacts([...blobs.keys()], readFile);
+  const selection = await selectFiles([...blobs.keys()], readFile, { tokenBudget });
+  const api = await collectApiReference([...blobs.keys()], readFile);
+  const cli = await collectCliFacts([...blobs.keys()], readFile);
+
+  return {
+    tree: packageEntries.map(entry => entry.path.slice(prefix.length)),
+    files: selection.files.map(({ path, content, truncated }) => ({ path, content, truncated })),
+    facts,
+    apiReference: api.markdown,
+    usage: cli.usage,
+  };
+}
+
+async function detectRepoWorkspace(input: GenerateReadmeInput) {
+  const provider = getRepoProvider(input.provider, { apiBaseUrl: input.apiBaseUrl, fetchStrategy: input.fetchStrategy });
+  const { ref, entries, sampled } = await fetchTree(provider, input.userName, input.repoName, input.ref);
+  const blobs = new Map(entries.filter(entry => entry.type === 'blob').map(entry => [entry.path, entry]));
+  const readFile = createFileReader(provider, input.userName, input.repoName, ref, blobs);
+
+  // Within a scope the workspace is detected relative to it, but package paths stay relative to the root.
+  const scope = normalizeScope(input.path);
+  const prefix = scope ? `${scope}/` : '';
+  const scopedPaths = entries.filter(entry => entry.path.startsWith(prefix)).map(entry => entry.path.slice(prefix.length));
+  const workspace = await detectWorkspace(scopedPaths, filePath => readFile(prefix + filePath));
+  if (workspace && scope) {
+    workspace.packages = workspace.packages.map(pkg => ({ ...pkg, path: prefix + pkg.path, manifest: prefix + pkg.manifest }));
+  }
+  return { provider, ref, entries, sampled, workspace };
+}
+
+/**
+ * Reads what getRepoContent handed to the model back out of the conversation.
+ * Paths are reported relative to the repository root, also when scoped.
+ */
+function repoContentFrom(messages: MessageData[], scope?: string): { includedFiles: IncludedFile[]; treeSampled: boolean } {
+  const prefix = scope ? `${scope}/` : '';
+  const includedFiles: IncludedFile[] = [];
+  let treeSampled = false;
+  for (const message of messages) {
+    for (const part of message.content) {
+      if (part.toolResponse?.name !== 'getRepoContent') continue;
+      const output = part.toolResponse.output as {
+        files?: z.infer<typeof RepoFileSchema>[];
+        rootFiles?: z.infer<typeof RepoFileSchema>[];
+        treeSampled?: boolean;
+      } | undefined;
+      for (const file of output?.files ?? []) {
+        includedFiles.push({ path: prefix + file.path, tokens: estimateTokens(file.content), truncated: !!file.truncated });
+      }
+      for (const file of output?.rootFiles ?? []) {
+        includedFiles.push({ path: file.path, tokens: estimateTokens(file.content), truncated: !!file.truncated });
+      }
+      treeSampled ||= !!output?.treeSampled;
+    }
+  }
+  return { includedFiles, treeSampled };
+}
+
+/** Generates the README(s); a local source is read from the context set up by the flow. */
+async function generate(input: GenerateReadmeInput): Promise<GenerateReadmeOutput> {
+  if (input.mode !== 'monorepo') {
+    const response = await generateReadmePrompt(input);
+    return { readmeContent: response.output!.readmeContent, ...repoContentFrom(response.messages, normalizeScope(input.path)) };
+  }
+
+  const { provider, ref, entries, sampled, workspace } = await detectRepoWorkspace(input);
+  if (!workspace) {
+    throw new Error('No workspace configuration was found in this repository. Please generate a single README instead.');
+  }
+  const packages = workspace.packages.slice(0, MAX_PACKAGE_READMES);
+  const omittedPackages = workspace.packages.slice(MAX_PACKAGE_READMES).map(({ name, path }) => ({ name, path }));
+
+  const response = await generateReadmePrompt({
+    ...input,
+    workspace: {
+      tool: workspace.tool,
+      packages: workspace.packages.map(({ name, path }, i) => ({ name, path, hasReadme: i < MAX_PACKAGE_READMES })),
+    },
+  });
+
+  // Packages are generated one at a time to stay within model and API rate limits.
+  const packageReadmes = [];
+  for (const pkg of packages) {
+    const { tree, files, facts, apiReference, usage } = await collectPackageFiles(provider, input, ref, entries, pkg);
+    const {output: packageOutput} = await generatePackageReadmePrompt({
+      repoName: input.repoName,
+      packageName: pkg.name,
+      packagePath: pkg.path,
+      workspaceTool: workspace.tool,
+      prompt: input.prompt,
+      tree,
+      files,
+      facts,
+      apiReference,
+      usage,
+    });
+    packageReadmes.push({ name: pkg.name, path: pkg.path, readmeContent: packageOutput!.readmeContent });
+  }
+
+  const { includedFiles, treeSampled } = repoContentFrom(response.messages, normalizeScope(input.path));
+  return { readmeContent: response.output!.readmeContent, packageReadmes, omittedPackages, includedFiles, treeSampled: treeSampled || !!sampled };
+}
+
 const generateReadmeFlow = ai.defineFlow(
   {
     name: 'generateReadmeFlow',
@@ -144,8 +528,13 @@ const generateReadmeFlow = ai.defineFlow(
     outputSchema: GenerateReadmeOutputSchema,
   },
   async input => {
-    const {output} = await generateReadmePrompt(input);
-    return output!;
+    // Only a local generation reads from a server directory, whatever else the input names.
+    const source = input.provider === 'local' ? localSource(input.localPath, input.localName) : undefined;
+    const host = { provider: input.provider, apiBaseUrl: input.apiBaseUrl, localName: source?.name };
+    const output = await fetchedTrees.run(new Map(), () => repoHost.run(host, () =>
+      runWithLocalSource(source, () => generate({ ...input, localPath: undefined, localName: source?.name }))));
+    const { hits, misses, entries, bytes } = await blobCache.stats();
+    return { ...output, cacheStats: { hits, misses, entries, bytes } };
   }
 );
 
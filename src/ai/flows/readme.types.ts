@@ -9,23 +9,113 @@ import {z} from 'zod';
  * into their own file so they can be safely imported into client components
  * without bundling server-side code.
  *
+ * - RepoProviderSchema - The Zod schema for the supported repository hosts.
+ * - RepoProviderId - The TypeScript type for a repository host.
+ * - DEFAULT_TOKEN_BUDGET - The token budget for file content used when none is given.
+ * - GenerationModeSchema - The Zod schema for the README generation mode.
+ * - RepoMetadataSchema - The Zod schema for the metadata a host reports about a repository.
+ * - RepoMetadata - The TypeScript type for repository metadata.
  * - GenerateReadmeInputSchema - The Zod schema for the input of the README generation.
  * - GenerateReadmeInput - The TypeScript type for the input.
+ * - PackageReadmeSchema - The Zod schema for a README generated for a workspace package.
+ * - PackageReadme - The TypeScript type for a package README.
+ * - IncludedFileSchema - The Zod schema for a file that was included in the prompt.
+ * - IncludedFile - The TypeScript type for an included file.
+ * - CacheStatsSchema - The Zod schema for the statistics of the blob cache.
  * - GenerateReadmeOutputSchema - The Zod schema for the output of the README generation.
  * - GenerateReadmeOutput - The TypeScript type for the output.
  */
 
+export const RepoProviderSchema = z.enum(['github', 'gitlab', 'bitbucket', 'bitbucket-server', 'local']);
+
+export type RepoProviderId = z.infer<typeof RepoProviderSchema>;
+
+export const DEFAULT_TOKEN_BUDGET = 30_000;
+
+export const GenerationModeSchema = z.enum(['single', 'monorepo']);
+
+/** How repository contents are fetched: one API request per file, or a single archive download. */
+export const FetchStrategySchema = z.enum(['api', 'archive']);
+
+export type FetchStrategy = z.infer<typeof FetchStrategySchema>;
+
+export const RepoMetadataSchema = z.object({
+  description: z.string().optional(),
+  homepage: z.string().optional().describe('The project website, if one is set.'),
+  topics: z.array(z.string()).describe('Topics or tags the repository is labelled with.'),
+  license: z.object({
+    spdxId: z.string().optional().describe('The SPDX identifier, e.g. "MIT"; missing for licenses the host could not identify.'),
+    name: z.string(),
+  }).optional().describe('The license detected by the host.'),
+  languages: z.array(z.object({
+    name: z.string(),
+    percent: z.number().describe('Share of the code base, in percent.'),
+  })).describe('The languages of the code base, largest first.'),
+  stars: z.number().optional(),
+  forks: z.number().optional(),
+  openIssues: z.number().optional().describe('Open issues; on GitHub this includes open pull requests.'),
+  latestRelease: z.object({
+    tag: z.string(),
+    name: z.string().optional(),
+    publishedAt: z.string().optional(),
+    url: z.string().optional(),
+  }).optional().describe('The latest published release, excluding drafts and pre-releases.'),
+});
+
+export type RepoMetadata = z.infer<typeof RepoMetadataSchema>;
+
 export const GenerateReadmeInputSchema = z.object({
-  repoDescription: z.string().describe('The description of the GitHub repository.'),
-  repoName: z.string().describe('The name of the GitHub repository.'),
-  userName: z.string().describe('The username of the GitHub repository owner.'),
+  provider: RepoProviderSchema.default('github').describe('The service hosting the repository.'),
+  repoDescription: z.string().describe('The description of the repository.'),
+  repoName: z.string().describe('The name of the repository.'),
+  userName: z.string().describe('The username or namespace of the repository owner.'),
+  apiBaseUrl: z.string().url().optional().describe('Overrides the API base URL of the host, e.g. a GitHub Enterprise Server instance.'),
+  ref: z.string().optional().describe('The branch, tag or commit SHA to document. Defaults to the default branch.'),
+  localPath: z.string().optional().describe('A directory on the server to read the repository from when the provider is "local".'),
+  localName: z.string().optional().describe('How the local directory is named in the prompt and in messages, e.g. the file name of an uploaded archive. Defaults to the directory name.'),
+  path: z.string().optional().describe('A subdirectory to scope the README to, relative to the repository root, e.g. "services/billing".'),
   prompt: z.string().describe('A prompt to guide the style and content of the README file.'),
+  tokenBudget: z.number().int().min(1000).optional().describe('The approximate number of tokens of file content to include in the prompt.'),
+  mode: GenerationModeSchema.default('single').describe('Whether to generate a single README, or a root overview plus one README per workspace package.'),
+  fetchStrategy: FetchStrategySchema.default('api').describe('Whether to fetch files through the host API one by one, or download the repository archive for the ref once.'),
 });
 
 export type GenerateReadmeInput = z.infer<typeof GenerateReadmeInputSchema>;
 
+export const PackageReadmeSchema = z.object({
+  name: z.string().describe('The name of the workspace package.'),
+  path: z.string().describe('The directory of the package relative to the repository root.'),
+  readmeContent: z.string().describe('The generated README file content for the package.'),
+});
+
+export type PackageReadme = z.infer<typeof PackageReadmeSchema>;
+
+export const OmittedPackageSchema = PackageReadmeSchema.pick({ name: true, path: true });
+
+export type OmittedPackage = z.infer<typeof OmittedPackageSchema>;
+
+export const IncludedFileSchema = z.object({
+  path: z.string().describe('The path of the file in the repository.'),
+  tokens: z.number().describe('The estimated number of tokens the file took up in the prompt.'),
+  truncated: z.boolean().describe('Whether the file was shortened to fit the token budget.'),
+});
+
+export type IncludedFile = z.infer<typeof IncludedFileSchema>;
+
+export const CacheStatsSchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  entries: z.number().describe('The number of git objects in the cache.'),
+  bytes: z.number().describe('The size of the cache on disk.'),
+});
+
 export const GenerateReadmeOutputSchema = z.object({
   readmeContent: z.string().describe('The generated README file content.'),
+  packageReadmes: z.array(PackageReadmeSchema).optional().describe('Per-package READMEs, when generating for a monorepo.'),
+  includedFiles: z.array(IncludedFileSchema).optional().describe('The repository files that were included in the prompt.'),
+  treeSampled: z.boolean().optional().describe('Whether the repository was too large to list completely, so only part of its structure was analyzed.'),
+  omittedPackages: z.array(OmittedPackageSchema).optional().describe('Workspace packages beyond the per-run limit, which got no README of their own.'),
+  cacheStats: CacheStatsSchema.optional().describe('Blob cache statistics for the lifetime of the server process, as of the end of the generation.'),
 });
 
 export type GenerateReadmeOutput = z.infer<typeof GenerateReadmeOutputSchema>;
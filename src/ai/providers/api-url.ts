@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Comparison of API base URLs for credential scoping.
+ *
+ * Server-wide tokens from the environment belong to the API they were
+ * configured for. The API base URL of a request can be entered in the UI, so
+ * providers only attach those tokens when it names that same API.
+ *
+ * - normalizeApiUrl - Normalizes an API base URL for comparison.
+ * - isSameApiUrl - Checks whether two API base URLs name the same API.
+ */
+
+export function normalizeApiUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return url.replace(/\/+$/, '').toLowerCase();
+  }
+}
+
+export function isSameApiUrl(a: string, b: string): boolean {
+  return normalizeApiUrl(a) === normalizeApiUrl(b);
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import {afterEach, describe, mock, test} from 'node:test';
+import {readArchive} from './archive';
+import {withArchiveStrategy} from './archive-strategy';
+import {getRepoProvider} from './index';
+import type {RepoProvider} from './types';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+/** A provider that fails on any request, so every read must come from the archive. */
+const offlineProvider = {
+  id: 'github',
+  label: 'GitHub',
+  apiBaseUrl: 'https://api.github.com',
+} as RepoProvider;
+
+describe('archive strategy', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  for (const fileName of ['sample-repo.tar.gz', 'sample-repo.zip']) {
+    test(`reads the tree and files from ${fileName}`, async () => {
+      const provider = withArchiveStrategy(offlineProvider, { archivePath: path.join(FIXTURES, fileName) });
+      const { ref, entries } = await provider.getTree('owner', 'repo', 'main');
+      assert.equal(ref, 'main');
+      assert.deepEqual(entries.map(entry => `${entry.type} ${entry.path}`), [
+        'blob package.json',
+        'blob README.md',
+        'tree src',
+        'blob src/index.ts',
+      ]);
+      const file = entries.find(entry => entry.path === 'src/index.ts')!;
+      assert.equal(await provider.getFileContent('owner', 'repo', ref, file), 'export const answer = 42;\n');
+      assert.equal(await provider.getFileContent('owner', 'repo', ref, { path: 'missing.txt', type: 'blob' }), null);
+    });
+  }
+
+  test('an archivePath replaces the download', async () => {
+    const fetchMock = mock.method(globalThis, 'fetch', async () => {
+      throw new Error('unexpected request');
+    });
+    const provider = getRepoProvider('github', {
+      fetchStrategy: 'archive',
+      archivePath: path.join(FIXTURES, 'sample-repo.tar.gz'),
+    });
+    const { ref, entries } = await provider.getTree('fixture-owner', 'fixture-repo');
+    const readme = entries.find(entry => entry.path === 'README.md')!;
+    assert.match((await provider.getFileContent('fixture-owner', 'fixture-repo', ref, readme))!, /^# Sample/);
+    assert.equal(fetchMock.mock.callCount(), 0);
+  });
+
+  test('rejects a zip by its central directory entry count before inflating', () => {
+    const endOfCentralDirectory = Buffer.alloc(22);
+    endOfCentralDirectory.writeUInt32LE(0x06054b50, 0);
+    endOfCentralDirectory.writeUInt16LE(60_000, 10);
+    assert.throws(() => readArchive(endOfCentralDirectory, 'bomb.zip'), /too many files \(60000\)/);
+  });
+});
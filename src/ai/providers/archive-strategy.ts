@@ -0,0 +1,104 @@
+/**
+ * @fileOverview Serves a repository from a single archive download.
+ *
+ * Fetching files one API request at a time is cheap for a handful of files
+ * but explodes for deeper analysis. The archive strategy downloads the
+ * repository archive for a ref once, reads it in memory and answers tree and
+ * file requests from it. Recent downloads are kept briefly, so the several
+ * tree lookups of one generation share a single download.
+ *
+ * With an archive path the archive is read from disk instead, which makes the
+ * strategy testable against a local archive fixture.
+ *
+ * - withArchiveStrategy - Wraps a provider so its contents come from an archive.
+ */
+
+import {readFile} from 'node:fs/promises';
+import path from 'node:path';
+import {readArchive} from './archive';
+import {credentialsKey} from './github-auth';
+import type {RepoArchive, RepoProvider, RepoProviderOptions, RepoTreeEntry} from './types';
+
+/** How long a downloaded archive is reused before it is downloaded again. */
+const ARCHIVE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_ARCHIVES = 2;
+
+interface LoadedArchive {
+  ref: string;
+  entries: RepoTreeEntry[];
+  files: Map<string, Buffer>;
+}
+
+const recentArchives = new Map<string, { expiresAt: number; archive: Promise<LoadedArchive> }>();
+
+function loadArchive({ ref, fileName, data }: RepoArchive): LoadedArchive {
+  const files = new Map(readArchive(data, fileName).map(file => [file.path, file.content]));
+  const dirs = new Set<string>();
+  for (const filePath of files.keys()) {
+    let dir = path.posix.dirname(filePath);
+    while (dir !== '.' && !dirs.has(dir)) {
+      dirs.add(dir);
+      dir = path.posix.dirname(dir);
+    }
+  }
+  const entries: RepoTreeEntry[] = [
+    ...[...dirs].map(dir => ({ path: dir, type: 'tree' as const })),
+    ...[...files.keys()].map(filePath => ({ path: filePath, type: 'blob' as const })),
+  ].sort((a, b) => a.path.localeCompare(b.path));
+  return { ref, entries, files };
+}
+
+export function withArchiveStrategy(provider: RepoProvider, options: RepoProviderOptions = {}): RepoProvider {
+  const download = async (owner: string, repo: string, ref?: string): Promise<RepoArchive> => {
+    if (options.archivePath) {
+      return { ref: ref || 'archive', fileName: path.basename(options.archivePath), data: await readFile(options.archivePath) };
+    }
+    if (!provider.downloadArchive) {
+      throw new Error(`Archive downloads are not supported for ${provider.label}. Please fetch files through the API instead.`);
+    }
+    return provider.downloadArchive(owner, repo, ref);
+  };
+
+  // Private archives are only shared between requests made with the same token.
+  const keyFor = (owner: string, repo: string, ref?: string) =>
+    options.archivePath ?? `${provider.id}:${provider.apiBaseUrl}:${provider.id === 'github' ? credentialsKey(provider.apiBaseUrl) : ''}:${owner}/${repo}@${ref ?? ''}`;
+
+  const remember = (key: string, expiresAt: number, archive: Promise<LoadedArchive>) => {
+    recentArchives.delete(key);
+    recentArchives.set(key, { expiresAt, archive });
+    for (const [staleKey, entry] of recentArchives) {
+      if (recentArchives.size > MAX_CACHED_ARCHIVES || entry.expiresAt <= Date.now()) recentArchives.delete(staleKey);
+    }
+  };
+
+  const getArchive = (owner: string, repo: string, ref?: string): Promise<LoadedArchive> => {
+    const key = keyFor(owner, repo, ref);
+    const cached = recentArchives.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.archive;
+
+    const expiresAt = Date.now() + ARCHIVE_TTL_MS;
+    const archive = download(owner, repo, ref).then(loadArchive);
+    remember(key, expiresAt, archive);
+    archive.then(
+      // Files are later requested by the resolved ref, which must hit the same download.
+      loaded => { if (loaded.ref !== ref) remember(keyFor(owner, repo, loaded.ref), expiresAt, archive); },
+      // Failed downloads are not remembered, so a retry downloads again.
+      () => recentArchives.delete(key)
+    );
+    return archive;
+  };
+
+  return {
+    ...provider,
+
+    async getTree(owner, repo, ref) {
+      const { ref: resolvedRef, entries } = await getArchive(owner, repo, ref);
+      return { ref: resolvedRef, entries };
+    },
+
+    async getFileContent(owner, repo, ref, entry) {
+      const { files } = await getArchive(owner, repo, ref);
+      return files.get(entry.path)?.toString('utf-8') ?? null;
+    },
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * @fileOverview Minimal readers for .zip and .tar.gz repository archives.
+ *
+ * Archives are read fully in memory using Node's zlib, so no extra
+ * dependencies are needed. Entry paths are normalized and anything that would
+ * escape the extraction root is rejected. When every entry shares a single
+ * top-level folder (as with GitHub tarballs or a zipped project folder) that
+ * folder is stripped, so paths match what a hosting provider would report.
+ *
+ * - ArchiveFile - A regular file read from an archive.
+ * - isSupportedArchive - Checks whether a file name has a supported extension.
+ * - readArchive - Reads every regular file from an archive buffer.
+ * - extractArchive - Writes the files of an archive buffer into a directory.
+ */
+
+import {mkdir, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {gunzipSync, inflateRawSync} from 'node:zlib';
+
+export interface ArchiveFile {
+  path: string;
+  content: Buffer;
+}
+
+/** Upper bound on the uncompressed size of an archive, to guard against zip bombs. */
+const MAX_UNCOMPRESSED_BYTES = 512 * 1024 * 1024;
+const MAX_ENTRIES = 50_000;
+
+const ZIP_EXTENSIONS = ['.zip'];
+const TAR_GZ_EXTENSIONS = ['.tar.gz', '.tgz'];
+
+export function isSupportedArchive(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return [...ZIP_EXTENSIONS, ...TAR_GZ_EXTENSIONS].some(ext => lower.endsWith(ext));
+}
+
+function safeEntryPath(rawPath: string): string | null {
+  const normalized = path.posix.normalize(rawPath.replace(/\\/g, '/')).replace(/^\.\//, '');
+  if (!normalized || normalized === '.' || normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    return null;
+  }
+  return normalized.replace(/\/+$/, '');
+}
+
+function tooManyEntries(count: number): Error {
+  return new Error(`Archive contains too many files (${count}).`);
+}
+
+function tooLarge(): Error {
+  return new Error('Archive is too large once extracted.');
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const raw = buffer.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf-8');
+}
+
+function readTar(data: Buffer): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+  let offset = 0;
+  let pendingPath: string | null = null;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const bodyStart = offset + 512;
+    const body = data.subarray(bodyStart, bodyStart + size);
+    offset = bodyStart + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      // GNU long name: the body holds the path of the next entry.
+      pendingPath = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      // PAX extended header: look for a "path" record for the next entry.
+      const match = body.toString('utf-8').match(/\d+ path=([^\n]*)\n/);
+      if (match) pendingPath = match[1];
+      continue;
+    }
+
+    const entryPath = pendingPath ?? (prefix ? `${prefix}/${name}` : name);
+    pendingPath = null;
+    if (type !== '0' && type !== '\0') continue;
+
+    const safePath = safeEntryPath(entryPath);
+    if (safePath) files.push({ path: safePath, content: Buffer.from(body) });
+    if (files.length > MAX_ENTRIES) throw tooManyEntries(files.length);
+  }
+
+  return files;
+}
+
+function readZip(data: Buffer): ArchiveFile[] {
+  // Locate the end of central directory record, which may be followed by a comment.
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Invalid zip archive: end of central directory not found.');
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported.');
+  }
+  // Checked before anything is inflated, since entries can overlap and each may inflate to the size limit.
+  if (entryCount > MAX_ENTRIES) throw tooManyEntries(entryCount);
+
+  const files: ArchiveFile[] = [];
+  let totalBytes = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) throw new Error('Invalid zip archive: corrupt central directory.');
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    const safePath = safeEntryPath(name);
+    if (!safePath) continue;
+
+    const localNameLength = data.readUInt16LE(localOffset + 26);
+    const localExtraLength = data.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = Buffer.from(compressed);
+    } else if (method === 8) {
+      try {
+        // Each entry may only use what is left of the size limit.
+        content = inflateRawSync(compressed, { maxOutputLength: Math.max(1, MAX_UNCOMPRESSED_BYTES - totalBytes) });
+      } catch (e) {
+        if (e instanceof RangeError) throw tooLarge();
+        throw e;
+      }
+    } else {
+      continue;
+    }
+    totalBytes += content.length;
+    if (totalBytes > MAX_UNCOMPRESSED_BYTES) throw tooLarge();
+    files.push({ path: safePath, content });
+  }
+
+  return files;
+}
+
+function stripCommonRoot(files: ArchiveFile[]): ArchiveFile[] {
+  const roots = new Set(files.map(file => file.path.split('/')[0]));
+  if (roots.size !== 1 || files.some(file => !file.path.includes('/'))) {
+    return files;
+  }
+  return files.map(file => ({ ...file, path: file.path.slice(file.path.indexOf('/') + 1) }));
+}
+
+export function readArchive(data: Buffer, fileName: string): ArchiveFile[] {
+  const lower = fileName.toLowerCase();
+  let files: ArchiveFile[];
+  if (ZIP_EXTENSIONS.some(ext => lower.endsWith(ext))) {
+    files = readZip(data);
+  } else if (TAR_GZ_EXTENSIONS.some(ext => lower.endsWith(ext))) {
+    let tar: Buffer;
+    try {
+      // The whole tarball is bounded by the size limit, and so are the files within it.
+      tar = gunzipSync(data, { maxOutputLength: MAX_UNCOMPRESSED_BYTES });
+    } catch (e) {
+      if (e instanceof RangeError) throw tooLarge();
+      throw e;
+    }
+    files = readTar(tar);
+  } else {
+    throw new Error(`Unsupported archive type: ${fileName}. Please upload a .zip or .tar.gz file.`);
+  }
+
+  return stripCommonRoot(files);
+}
+
+export async function extractArchive(data: Buffer, fileName: string, destination: string): Promise<void> {
+  for (const file of readArchive(data, fileName)) {
+    const target = path.join(destination, file.path);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file.content);
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * @fileOverview Repository providers for Bitbucket Cloud and Bitbucket Server.
+ *
+ * Bitbucket Cloud is addressed by workspace and repository slug through the
+ * 2.0 API. Bitbucket Server (Data Center) is self-hosted, so its base URL comes
+ * from BITBUCKET_SERVER_URL (or a per-request API base URL) and repositories
+ * are addressed by project key (personal projects use "~username") and
+ * repository slug. The credentials from the environment are only sent to
+ * the API they are configured for (BITBUCKET_API_URL or api.bitbucket.org,
+ * and BITBUCKET_SERVER_URL), never to a base URL given per request for
+ * another host.
+ *
+ * - createBitbucketProvider - Creates the Bitbucket Cloud implementation of RepoProvider.
+ * - createBitbucketServerProvider - Creates the Bitbucket Server implementation of RepoProvider.
+ */
+
+import {isSameApiUrl} from './api-url';
+import type {RepoProvider, RepoProviderOptions, RepoSummary, RepoTreeEntry} from './types';
+
+/**
+ * Reads the ref names of every page of a listing, up to MAX_REF_PAGES.
+ * Bitbucket Cloud links the next page; Bitbucket Server gives its start index.
+ */
+async function fetchRefNames(url: string, headers: HeadersInit, key: 'name' | 'displayId'): Promise<string[]> {
+  const names: string[] = [];
+  let next: string | undefined = url;
+  for (let page = 0; next && page < MAX_REF_PAGES; page++) {
+    const response: Response = await fetch(next, { headers });
+    if (!response.ok) throw new Error(`Failed to fetch branches and tags: ${response.status}.`);
+    const data = await response.json();
+    names.push(...data.values.map((ref: any) => ref[key]));
+    next = data.next ?? (data.isLastPage === false ? `${url}&start=${data.nextPageStart}` : undefined);
+  }
+  return names;
+}
+
+const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+const PAGE_SIZE = 100;
+/** Upper bound on listed branches and on listed tags. */
+const MAX_REF_PAGES = 10;
+/** Deepest directory level listed when walking the Bitbucket Cloud source tree. */
+const MAX_TREE_DEPTH = 20;
+
+function bitbucketHeaders(apiUrl: string): HeadersInit {
+  const headers: HeadersInit = {
+    'Accept': 'application/json',
+  };
+  if (!isSameApiUrl(apiUrl, process.env.BITBUCKET_API_URL || BITBUCKET_API_URL)) {
+    return headers;
+  }
+  if (process.env.BITBUCKET_ACCESS_TOKEN) {
+    headers['Authorization'] = `Bearer ${process.env.BITBUCKET_ACCESS_TOKEN}`;
+  } else if (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD) {
+    const credentials = Buffer.from(`${process.env.BITBUCKET_USERNAME}:${process.env.BITBUCKET_APP_PASSWORD}`).toString('base64');
+    headers['Authorization'] = `Basic ${credentials}`;
+  }
+  return headers;
+}
+
+function repoPath(owner: string, repo: string): string {
+  return `${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+function encodeFilePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+export function createBitbucketProvider(options: RepoProviderOptions = {}): RepoProvider {
+  const apiUrl = (options.apiBaseUrl || process.env.BITBUCKET_API_URL || BITBUCKET_API_URL).replace(/\/+$/, '');
+  // Archives are served by the website rather than the API, e.g. https://bitbucket.org for https://api.bitbucket.org/2.0.
+  const webUrl = apiUrl.replace(/\/\/api\.([^/]+)\/2\.0$/, '//$1');
+
+  async function mainBranch(owner: string, repo: string): Promise<string> {
+    const repoRes = await fetch(`${apiUrl}/repositories/${repoPath(owner, repo)}`, { headers: bitbucketHeaders(apiUrl) });
+    if (!repoRes.ok) throw new Error(`Failed to fetch repo details: ${await repoRes.text()}`);
+    const repoData = await repoRes.json();
+    return repoData.mainbranch.name as string;
+  }
+
+  return {
+    id: 'bitbucket',
+    label: 'Bitbucket',
+    apiBaseUrl: apiUrl,
+
+    async listRepos(owner) {
+      const repos: RepoSummary[] = [];
+      let url: string | undefined = `${apiUrl}/repositories/${encodeURIComponent(owner)}?sort=-updated_on&pagelen=${PAGE_SIZE}`;
+      while (url) {
+        const response: Response = await fetch(url, { headers: bitbucketHeaders(apiUrl) });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch repositories. Bitbucket API at ${apiUrl} returned ${response.status}.`);
+        }
+        const data = await response.json();
+        for (const repo of data.values) {
+          repos.push({ name: repo.slug, description: repo.description || null, fork: !!repo.parent, language: repo.language || null });
+        }
+        url = data.next;
+      }
+      return repos;
+    },
+
+    async listRefs(owner, repo) {
+      const headers = bitbucketHeaders(apiUrl);
+      const repoRes = await fetch(`${apiUrl}/repositories/${repoPath(owner, repo)}`, { headers });
+      if (!repoRes.ok) throw new Error(`Failed to fetch repo details: ${await repoRes.text()}`);
+      const repoData = await repoRes.json();
+      const [branches, tags] = await Promise.all([
+        fetchRefNames(`${apiUrl}/repositories/${repoPath(owner, repo)}/refs/branches?pagelen=${PAGE_SIZE}&sort=-target.date`, headers, 'name'),
+        fetchRefNames(`${apiUrl}/repositories/${repoPath(owner, repo)}/refs/tags?pagelen=${PAGE_SIZE}&sort=-target.date`, headers, 'name'),
+      ]);
+      return { defaultBranch: repoData.mainbranch?.name ?? null, branches, tags };
+    },
+
+    async getTree(owner, repo, ref) {
+      const headers = bitbucketHeaders(apiUrl);
+
+      const resolvedRef = ref || await mainBranch(owner, repo);
+
+      const entries: RepoTreeEntry[] = [];
+      let url: string | undefined = `${apiUrl}/repositories/${repoPath(owner, repo)}/src/${encodeURIComponent(resolvedRef)}/?max_depth=${MAX_TREE_DEPTH}&pagelen=${PAGE_SIZE}`;
+      while (url) {
+        const treeRes: Response = await fetch(url, { headers });
+        if (!treeRes.ok) throw new Error(`Failed to fetch file tree: ${await treeRes.text()}`);
+        const treeData = await treeRes.json();
+        for (const node of treeData.values) {
+          entries.push({ path: node.path, type: node.type === 'commit_directory' ? 'tree' : 'blob' });
+        }
+        url = treeData.next;
+      }
+
+      return { ref: resolvedRef, entries };
+    },
+
+    async getFileContent(owner, repo, ref, entry) {
+      const fileRes = await fetch(`${apiUrl}/repositories/${repoPath(owner, repo)}/src/${encodeURIComponent(ref)}/${encodeFilePath(entry.path)}`, { headers: bitbucketHeaders(apiUrl) });
+      if (!fileRes.ok) return null;
+      return fileRes.text();
+    },
+
+    async downloadArchive(owner, repo, ref) {
+      const resolvedRef = ref || await mainBranch(owner, repo);
+      const archiveRes = await fetch(`${webUrl}/${repoPath(owner, repo)}/get/${encodeURIComponent(resolvedRef)}.tar.gz`, { headers: bitbucketHeaders(apiUrl) });
+      if (!archiveRes.ok) throw new Error(`Failed to download repository archive for ${resolvedRef}: ${archiveRes.status}.`);
+      return { ref: resolvedRef, fileName: `${repo}.tar.gz`, data: Buffer.from(await archiveRes.arrayBuffer()) };
+    },
+  };
+}
+
+function bitbucketServerApiUrl(options: RepoProviderOptions): string {
+  if (options.apiBaseUrl) {
+    return options.apiBaseUrl.replace(/\/+$/, '');
+  }
+  const baseUrl = process.env.BITBUCKET_SERVER_URL;
+  return baseUrl ? `${baseUrl.replace(/\/+$/, '')}/rest/api/1.0` : '';
+}
+
+function bitbucketServerHeaders(apiUrl: string): HeadersInit {
+  const headers: HeadersInit = {
+    'Accept': 'application/json',
+  };
+  const configuredUrl = bitbucketServerApiUrl({});
+  if (process.env.BITBUCKET_SERVER_TOKEN && configuredUrl && isSameApiUrl(apiUrl, configuredUrl)) {
+    headers['Authorization'] = `Bearer ${process.env.BITBUCKET_SERVER_TOKEN}`;
+  }
+  return headers;
+}
+
+function serverRepoPath(owner: string, repo: string): string {
+  return `projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}`;
+}
+
+export function createBitbucketServerProvider(options: RepoProviderOptions = {}): RepoProvider {
+  const apiUrl = bitbucketServerApiUrl(options);
+
+  function requireApiUrl(): string {
+    if (!apiUrl) {
+      throw new Error('BITBUCKET_SERVER_URL is not configured and no API base URL was provided.');
+    }
+    return apiUrl;
+  }
+
+  async function defaultBranch(owner: string, repo: string): Promise<string> {
+    const branchRes = await fetch(`${requireApiUrl()}/${serverRepoPath(owner, repo)}/branches/default`, { headers: bitbucketServerHeaders(apiUrl) });
+    if (!branchRes.ok) throw new Error(`Failed to fetch branch details: ${await branchRes.text()}`);
+    const branchData = await branchRes.json();
+    return branchData.displayId as string;
+  }
+
+  return {
+    id: 'bitbucket-server',
+    label: 'Bitbucket Server',
+    apiBaseUrl: apiUrl,
+
+    async listRepos(owner) {
+      requireApiUrl();
+      const repos: RepoSummary[] = [];
+      let start: number | null = 0;
+      while (start !== null) {
+        const response: Response = await fetch(`${apiUrl}/projects/${encodeURIComponent(owner)}/repos?limit=${PAGE_SIZE}&start=${start}`, { headers: bitbucketServerHeaders(apiUrl) });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch repositories. Bitbucket Server API at ${apiUrl} returned ${response.status}.`);
+        }
+        const data = await response.json();
+        for (const repo of data.values) {
+          repos.push({ name: repo.slug, description: repo.description || null, fork: !!repo.origin, archived: repo.archived });
+        }
+        start = data.isLastPage ? null : data.nextPageStart;
+      }
+      return repos;
+    },
+
+    async listRefs(owner, repo) {
+      requireApiUrl();
+      const headers = bitbucketServerHeaders(apiUrl);
+      const branchRes = await fetch(`${apiUrl}/${serverRepoPath(owner, repo)}/branches/default`, { headers });
+      const defaultBranch = branchRes.ok ? (await branchRes.json()).displayId : null;
+      const [branches, tags] = await Promise.all([
+        fetchRefNames(`${apiUrl}/${serverRepoPath(owner, repo)}/branches?limit=${PAGE_SIZE}&orderBy=MODIFICATION`, headers, 'displayId'),
+        fetchRefNames(`${apiUrl}/${serverRepoPath(owner, repo)}/tags?limit=${PAGE_SIZE}&orderBy=MODIFICATION`, headers, 'displayId'),
+      ]);
+      return { defaultBranch, branches, tags };
+    },
+
+    async getTree(owner, repo, ref) {
+      requireApiUrl();
+      const headers = bitbucketServerHeaders(apiUrl);
+
+      const resolvedRef = ref || await defaultBranch(owner, repo);
+
+      // The files endpoint lists every file path recursively, but no directories.
+      const entries: RepoTreeEntry[] = [];
+      let start: number | null = 0;
+      while (start !== null) {
+        const filesRes: Response = await fetch(`${apiUrl}/${serverRepoPath(owner, repo)}/files?at=${encodeURIComponent(resolvedRef)}&limit=1000&start=${start}`, { headers });
+        if (!filesRes.ok) throw new Error(`Failed to fetch file tree: ${await filesRes.text()}`);
+        const filesData = await filesRes.json();
+        for (const path of filesData.values) {
+          entries.push({ path, type: 'blob' });
+        }
+        start = filesData.isLastPage ? null : filesData.nextPageStart;
+      }
+
+      return { ref: resolvedRef, entries };
+    },
+
+    async getFileContent(owner, repo, ref, entry) {
+      const fileRes = await fetch(`${requireApiUrl()}/${serverRepoPath(owner, repo)}/raw/${encodeFilePath(entry.path)}?at=${encodeURIComponent(ref)}`, { headers: bitbucketServerHeaders(apiUrl) });
+      if (!fileRes.ok) return null;
+      return fileRes.text();
+    },
+
+    async downloadArchive(owner, repo, ref) {
+      const resolvedRef = ref || await defaultBranch(owner, repo);
+      const archiveRes = await fetch(`${requireApiUrl()}/${serverRepoPath(owner, repo)}/archive?at=${encodeURIComponent(resolvedRef)}&format=tgz`, { headers: bitbucketServerHeaders(apiUrl) });
+      if (!archiveRes.ok) throw new Error(`Failed to download repository archive for ${resolvedRef}: ${archiveRes.status}.`);
+      return { ref: resolvedRef, fileName: `${repo}.tar.gz`, data: Buffer.from(await archiveRes.arrayBuffer()) };
+    },
+  };
+}
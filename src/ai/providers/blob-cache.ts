@@ -0,0 +1,146 @@
+/**
+ * @fileOverview A persistent, content-addressed cache for git blobs and trees.
+ *
+ * Git objects are immutable by SHA, so once fetched they never need to be
+ * fetched again. Objects are stored on the filesystem under BLOB_CACHE_DIR
+ * (by default a folder in the OS temp directory), laid out like git's own
+ * object store. When the cache grows beyond BLOB_CACHE_MAX_BYTES the least
+ * recently used objects are evicted. Hit, miss and eviction counts are kept
+ * for the lifetime of the server process.
+ *
+ * - BlobCacheKind - The kind of git object being cached.
+ * - BlobCacheStats - Hit statistics of the cache.
+ * - blobCache - The shared cache instance.
+ */
+
+import {mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile} from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+export type BlobCacheKind = 'blob' | 'tree';
+
+export interface BlobCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+/** After eviction the cache shrinks to this share of its maximum size, so evictions are batched. */
+const EVICTION_TARGET = 0.9;
+
+interface IndexEntry {
+  size: number;
+  lastUsed: number;
+}
+
+function isSha(sha: string): boolean {
+  return /^[0-9a-f]{7,64}$/i.test(sha);
+}
+
+function createBlobCache(root: string, maxBytes: number) {
+  const stats: BlobCacheStats = { hits: 0, misses: 0, writes: 0, evictions: 0, entries: 0, bytes: 0 };
+  let index: Promise<Map<string, IndexEntry>> | null = null;
+
+  const objectPath = (kind: BlobCacheKind, sha: string) =>
+    path.join(root, kind, sha.slice(0, 2).toLowerCase(), sha.toLowerCase());
+
+  /** Scans the cache directory once per process to learn what is already stored. */
+  const loadIndex = () => {
+    index ??= (async () => {
+      const entries = new Map<string, IndexEntry>();
+      for (const kind of ['blob', 'tree'] as const) {
+        const kindDir = path.join(root, kind);
+        const buckets = await readdir(kindDir).catch(() => [] as string[]);
+        for (const bucket of buckets) {
+          const files = await readdir(path.join(kindDir, bucket)).catch(() => [] as string[]);
+          for (const file of files) {
+            if (file.endsWith('.tmp')) continue;
+            const filePath = path.join(kindDir, bucket, file);
+            const info = await stat(filePath).catch(() => null);
+            if (info?.isFile()) entries.set(filePath, { size: info.size, lastUsed: info.mtimeMs });
+          }
+        }
+      }
+      return entries;
+    })();
+    return index;
+  };
+
+  const updateTotals = (entries: Map<string, IndexEntry>) => {
+    stats.entries = entries.size;
+    stats.bytes = [...entries.values()].reduce((total, entry) => total + entry.size, 0);
+  };
+
+  const evict = async (entries: Map<string, IndexEntry>) => {
+    if (stats.bytes <= maxBytes) return;
+    const leastRecentlyUsed = [...entries].sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    for (const [filePath, entry] of leastRecentlyUsed) {
+      if (stats.bytes <= maxBytes * EVICTION_TARGET) break;
+      await rm(filePath, { force: true });
+      entries.delete(filePath);
+      stats.bytes -= entry.size;
+      stats.evictions++;
+    }
+    stats.entries = entries.size;
+  };
+
+  return {
+    async get(kind: BlobCacheKind, sha: string): Promise<string | null> {
+      if (!isSha(sha)) return null;
+      const entries = await loadIndex();
+      const filePath = objectPath(kind, sha);
+      const entry = entries.get(filePath);
+      if (!entry) {
+        stats.misses++;
+        return null;
+      }
+      try {
+        const content = await readFile(filePath, 'utf-8');
+        entry.lastUsed = Date.now();
+        // The modification time doubles as the last use, so LRU order survives restarts.
+        utimes(filePath, new Date(), new Date()).catch(() => {});
+        stats.hits++;
+        return content;
+      } catch {
+        entries.delete(filePath);
+        updateTotals(entries);
+        stats.misses++;
+        return null;
+      }
+    },
+
+    async set(kind: BlobCacheKind, sha: string, content: string): Promise<void> {
+      if (!isSha(sha)) return;
+      const entries = await loadIndex();
+      const filePath = objectPath(kind, sha);
+      if (entries.has(filePath)) return;
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        // Write to a temporary file first so concurrent readers never see a partial object.
+        const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+        await writeFile(tempPath, content, 'utf-8');
+        await rename(tempPath, filePath);
+        entries.set(filePath, { size: Buffer.byteLength(content), lastUsed: Date.now() });
+        stats.writes++;
+        updateTotals(entries);
+        await evict(entries);
+      } catch (e) {
+        console.error(`Failed to write ${kind} ${sha} to the cache`, e);
+      }
+    },
+
+    async stats(): Promise<BlobCacheStats> {
+      updateTotals(await loadIndex());
+      return { ...stats };
+    },
+  };
+}
+
+export const blobCache = createBlobCache(
+  process.env.BLOB_CACHE_DIR || path.join(os.tmpdir(), 'reporefine-blob-cache'),
+  Number(process.env.BLOB_CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES
+);
@@ -0,0 +1,203 @@
+/**
+ * @fileOverview A local mock of the GitHub API for GitHub App authentication.
+ *
+ * Implements just enough of the API to exercise github-app.ts and the GitHub
+ * provider end to end without a real app: installation lookup and token
+ * exchange (both verifying the app JWT against the app's public key), and
+ * repository, ref, tree and blob reads that only succeed with an installation
+ * token granted the repository. github-app.test.ts runs against it.
+ *
+ * Run it by hand with `npm run github-app:mock`. It generates a key pair, writes the
+ * private key to a temporary file and prints the environment variables that
+ * point the app at it.
+ *
+ * - MockInstallation - An installation and the repositories it was granted.
+ * - GitHubAppMockOptions - Options of the mock server.
+ * - startGitHubAppMock - Starts the mock server.
+ */
+
+import {createHash, createVerify, generateKeyPairSync, randomBytes} from 'node:crypto';
+import {writeFile} from 'node:fs/promises';
+import {createServer, type IncomingMessage, type ServerResponse} from 'node:http';
+import type {AddressInfo} from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+export interface MockInstallation {
+  id: number;
+  /** The user or organization the app is installed on. */
+  account: string;
+  accountType: 'User' | 'Organization';
+  /** Repository names mapped to their files, by path. */
+  repositories: Record<string, Record<string, string>>;
+}
+
+export interface GitHubAppMockOptions {
+  appId: string;
+  /** The PEM public key matching the app's private key. */
+  publicKey: string;
+  installations: MockInstallation[];
+  /** Defaults to a free port. */
+  port?: number;
+}
+
+const TOKEN_TTL_MS = 60 * 60 * 1000;
+
+function gitSha(kind: string, content: string): string {
+  const data = Buffer.from(content);
+  return createHash('sha1').update(`${kind} ${data.length}\0`).update(data).digest('hex');
+}
+
+function verifyAppJwt(jwt: string, appId: string, publicKey: string): boolean {
+  const [header, payload, signature] = jwt.split('.');
+  if (!header || !payload || !signature) return false;
+  const valid = createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, signature, 'base64url');
+  if (!valid) return false;
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  const now = Math.floor(Date.now() / 1000);
+  return String(claims.iss) === appId && claims.iat <= now && claims.exp > now && claims.exp - claims.iat <= 600;
+}
+
+export async function startGitHubAppMock(options: GitHubAppMockOptions): Promise<{ url: string; close(): Promise<void> }> {
+  const tokens = new Map<string, { installation: MockInstallation; expiresAt: number }>();
+
+  const findInstallation = (owner: string, repo?: string) => options.installations.find(installation =>
+    installation.account.toLowerCase() === owner.toLowerCase() && (!repo || repo in installation.repositories));
+
+  const handle = (request: IncomingMessage, response: ServerResponse, baseUrl: string) => {
+    const url = new URL(request.url ?? '/', baseUrl);
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+      response.end(JSON.stringify(body));
+    };
+    const notFound = () => send(404, { message: 'Not Found' });
+    const bearer = request.headers.authorization?.replace(/^Bearer /, '') ?? '';
+
+    // App endpoints authenticate with the app JWT.
+    if (parts[0] === 'app' || parts[parts.length - 1] === 'installation') {
+      if (!verifyAppJwt(bearer, options.appId, options.publicKey)) return send(401, { message: 'A JSON web token could not be decoded' });
+      if (request.method === 'POST' && parts[1] === 'installations' && parts[3] === 'access_tokens') {
+        const installation = options.installations.find(candidate => candidate.id === Number(parts[2]));
+        if (!installation) return notFound();
+        const token = `ghs_${randomBytes(18).toString('hex')}`;
+        const expiresAt = Date.now() + TOKEN_TTL_MS;
+        tokens.set(token, { installation, expiresAt });
+        return send(201, { token, expires_at: new Date(expiresAt).toISOString() });
+      }
+      const accountType = parts[0] === 'orgs' ? 'Organization' : parts[0] === 'users' ? 'User' : undefined;
+      const installation = parts[0] === 'repos' ? findInstallation(parts[1], parts[2])
+        : accountType ? findInstallation(parts[1]) : undefined;
+      if (!installation || (accountType && installation.accountType !== accountType)) return notFound();
+      return send(200, { id: installation.id, account: { login: installation.account, type: installation.accountType } });
+    }
+
+    // Everything else requires an unexpired installation token.
+    const grant = tokens.get(bearer);
+    if (!grant || grant.expiresAt <= Date.now()) return send(401, { message: 'Bad credentials' });
+    const { installation } = grant;
+
+    if (url.pathname === '/installation/repositories') {
+      const repositories = Object.keys(installation.repositories).map(name => ({
+        name, description: null, fork: false, archived: false, language: null, private: true, owner: { login: installation.account },
+      }));
+      return send(200, { total_count: repositories.length, repositories });
+    }
+
+    const [root, owner, repo, kind, ...rest] = parts;
+    const files = root === 'repos' && owner.toLowerCase() === installation.account.toLowerCase() ? installation.repositories[repo] : undefined;
+    if (!files) return notFound();
+
+    const commitSha = gitSha('commit', JSON.stringify(files));
+    const treeSha = gitSha('tree', Object.keys(files).join('\n'));
+    const tree = () => {
+      const dirs = new Set(Object.keys(files).flatMap(filePath =>
+        filePath.split('/').slice(0, -1).map((_, i, segments) => segments.slice(0, i + 1).join('/'))));
+      return [
+        ...[...dirs].map(dir => ({ path: dir, mode: '040000', type: 'tree', sha: gitSha('tree', dir) })),
+        ...Object.entries(files).map(([filePath, content]) => {
+          const sha = gitSha('blob', content);
+          return { path: filePath, mode: '100644', type: 'blob', sha, size: content.length, url: `${baseUrl}/repos/${owner}/${repo}/git/blobs/${sha}` };
+        }),
+      ];
+    };
+
+    switch (kind) {
+      case undefined:
+        return send(200, { name: repo, default_branch: 'main', private: true });
+      case 'branches':
+        return send(200, [{ name: 'main', commit: { sha: commitSha } }]);
+      case 'tags':
+        return send(200, []);
+      case 'readme':
+        return 'README.md' in files ? send(200, { path: 'README.md' }) : notFound();
+      case 'commits':
+        return rest.join('/') === 'main' || rest[0] === commitSha
+          ? send(200, { sha: commitSha, commit: { tree: { sha: treeSha } } })
+          : notFound();
+      case 'git':
+        if (rest[0] === 'trees' && rest[1] === treeSha) return send(200, { sha: treeSha, tree: tree(), truncated: false });
+        if (rest[0] === 'blobs') {
+          // Blobs are looked up by content, since trees may come from the client's cache.
+          const content = Object.values(files).find(candidate => gitSha('blob', candidate) === rest[1]);
+          if (content !== undefined) return send(200, { sha: rest[1], encoding: 'base64', content: Buffer.from(content).toString('base64') });
+        }
+        return notFound();
+      default:
+        return notFound();
+    }
+  };
+
+  const server = createServer((request, response) => {
+    try {
+      handle(request, response, `http://${request.headers.host}`);
+    } catch (error) {
+      response.writeHead(500).end(String(error));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
+
+/** Starts the mock with a generated key pair and a sample organization when run directly. */
+async function main() {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  const keyPath = path.join(os.tmpdir(), 'reporefine-github-app-mock.pem');
+  await writeFile(keyPath, privateKey, { mode: 0o600 });
+
+  const appId = '1';
+  const mock = await startGitHubAppMock({
+    appId,
+    publicKey,
+    port: Number(process.env.GITHUB_APP_MOCK_PORT) || 9010,
+    installations: [{
+      id: 100,
+      account: 'acme',
+      accountType: 'Organization',
+      repositories: {
+        'private-service': {
+          'package.json': JSON.stringify({ name: 'private-service', version: '1.0.0', scripts: { start: 'node src/index.js' } }, null, 2),
+          'src/index.js': "console.log('Hello from a private repository');\n",
+        },
+      },
+    }],
+  });
+  console.log(`GitHub App mock listening on ${mock.url}. Start the app with:\n`);
+  console.log(`  GITHUB_API_URL=${mock.url} GITHUB_APP_ID=${appId} GITHUB_APP_PRIVATE_KEY_PATH=${keyPath}\n`);
+  console.log('and generate a README for acme/private-service.');
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === path.resolve(__filename)) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
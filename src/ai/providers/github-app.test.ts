@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import {createVerify, generateKeyPairSync} from 'node:crypto';
+import {mkdtemp, rm} from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {after, before, describe, mock, test} from 'node:test';
+import {startGitHubAppMock} from './github-app-mock';
+
+const APP_ID = '1';
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+
+const repository = (name: string) => ({
+  'README.md': `# ${name}\n`,
+  'src/index.js': `console.log('${name}');\n`,
+});
+
+/** Records the requests sent to the API with the token each carried. */
+function spyOnFetch() {
+  const realFetch = globalThis.fetch;
+  const requests: { method: string; path: string; token: string | null }[] = [];
+  mock.method(globalThis, 'fetch', async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input instanceof Request ? input.url : input));
+    const authorization = new Headers(init?.headers).get('authorization');
+    requests.push({ method: init?.method ?? 'GET', path: url.pathname, token: authorization?.replace(/^Bearer /, '') ?? null });
+    return realFetch(input, init);
+  });
+  return requests;
+}
+
+describe('GitHub App authentication', () => {
+  const saved = { ...process.env };
+  let server: Awaited<ReturnType<typeof startGitHubAppMock>>;
+  let cacheDir: string;
+  let createAppJwt: typeof import('./github-app').createAppJwt;
+  let createGitHubProvider: typeof import('./github').createGitHubProvider;
+  before(async () => {
+    // Cached trees hold blob URLs of the mock's port, so every run gets its own cache.
+    cacheDir = await mkdtemp(path.join(os.tmpdir(), 'github-app-test-'));
+    process.env.BLOB_CACHE_DIR = cacheDir;
+    ({ createAppJwt } = await import('./github-app'));
+    ({ createGitHubProvider } = await import('./github'));
+    server = await startGitHubAppMock({
+      appId: APP_ID,
+      publicKey,
+      installations: [
+        { id: 100, account: 'acme', accountType: 'Organization', repositories: { 'private-service': repository('private-service') } },
+        { id: 200, account: 'initech', accountType: 'Organization', repositories: { tps: repository('tps') } },
+      ],
+    });
+    Object.assign(process.env, { GITHUB_API_URL: server.url, GITHUB_APP_ID: APP_ID, GITHUB_APP_PRIVATE_KEY: privateKey });
+    delete process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+    delete process.env.GITHUB_ACCESS_TOKEN;
+  });
+  after(async () => {
+    mock.restoreAll();
+    process.env = { ...saved };
+    await server.close();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  test('signs a short-lived JWT issued by the app', () => {
+    const now = Date.UTC(2024, 0, 1);
+    const [header, payload, signature] = createAppJwt(APP_ID, privateKey, now).split('.');
+    assert.ok(createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, signature, 'base64url'));
+    assert.deepEqual(JSON.parse(Buffer.from(header, 'base64url').toString()), { alg: 'RS256', typ: 'JWT' });
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    assert.equal(claims.iss, APP_ID);
+    assert.ok(claims.iat < now / 1000, 'the JWT is backdated for clock drift');
+    assert.ok(claims.exp - claims.iat <= 600, 'GitHub rejects JWTs valid for more than ten minutes');
+  });
+
+  test('reads a private repository and lists repositories through the installation', async () => {
+    const provider = createGitHubProvider();
+    const { entries } = await provider.getTree('acme', 'private-service');
+    assert.deepEqual(entries.map(entry => entry.path), ['src', 'README.md', 'src/index.js']);
+    const readme = entries.find(entry => entry.path === 'README.md')!;
+    assert.equal(await provider.getFileContent('acme', 'private-service', 'main', readme), '# private-service\n');
+    assert.deepEqual((await provider.listRepos('acme', { ownerType: 'org' })).map(repo => repo.name), ['private-service']);
+  });
+
+  test('caches the installation and its token, and renews the token before it expires', async () => {
+    const requests = spyOnFetch();
+    mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    try {
+      const provider = createGitHubProvider();
+      await provider.getTree('initech', 'tps');
+      await provider.listRefs('initech', 'tps');
+      const lookups = () => requests.filter(request => request.path === '/repos/initech/tps/installation').length;
+      const exchanges = () => requests.filter(request => request.path === '/app/installations/200/access_tokens');
+      assert.equal(lookups(), 1);
+      assert.equal(exchanges().length, 1);
+      assert.equal(exchanges()[0].method, 'POST');
+
+      // Within five minutes of the hour the token lives, a new one is exchanged.
+      mock.timers.setTime(Date.now() + 56 * 60 * 1000);
+      await provider.listRefs('initech', 'tps');
+      assert.equal(lookups(), 1);
+      assert.equal(exchanges().length, 2);
+      const tokens = new Set(requests.filter(request => request.path.startsWith('/repos/initech/tps/branches')).map(request => request.token));
+      assert.equal(tokens.size, 2);
+    } finally {
+      mock.timers.reset();
+      mock.restoreAll();
+    }
+  });
+
+  test('does not use an installation for repositories it was not granted', async () => {
+    const requests = spyOnFetch();
+    try {
+      const provider = createGitHubProvider();
+      await assert.rejects(provider.getTree('acme', 'secret-service'));
+      // The lookup finds no installation, so the repository is read without the app's access.
+      const repoRequests = requests.filter(request => request.path.startsWith('/repos/acme/secret-service') && !request.path.endsWith('/installation'));
+      assert.ok(repoRequests.length > 0);
+      assert.ok(repoRequests.every(request => request.token === null));
+    } finally {
+      mock.restoreAll();
+    }
+  });
+
+  test('falls back to the server-wide token where the app is not installed', async () => {
+    process.env.GITHUB_ACCESS_TOKEN = 'ghp_server';
+    const requests = spyOnFetch();
+    try {
+      const provider = createGitHubProvider();
+      await assert.rejects(provider.getTree('octocat', 'hello-world'));
+      const repoRequests = requests.filter(request => request.path.startsWith('/repos/octocat/hello-world') && !request.path.endsWith('/installation'));
+      assert.ok(repoRequests.length > 0);
+      assert.ok(repoRequests.every(request => request.token === 'ghp_server'));
+    } finally {
+      delete process.env.GITHUB_ACCESS_TOKEN;
+      mock.restoreAll();
+    }
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileOverview Authenticates GitHub requests as a GitHub App installation.
+ *
+ * For organization-wide deployments the app can act as a GitHub App instead
+ * of with a personal access token. A short-lived JWT signed with the app's
+ * private key identifies the app; it is exchanged for an installation access
+ * token of the installation covering the requested repository (or account,
+ * when listing repositories). Installation ids and tokens are cached until
+ * shortly before the tokens expire, so a generation needs at most one
+ * exchange. Which repositories can be read is decided by GitHub, from the
+ * repositories the installation was granted. Where the app is not installed,
+ * e.g. for public repositories of other accounts, requests are sent with the
+ * credentials they would have had without the app: the server-wide token or
+ * none.
+ *
+ * Configured with GITHUB_APP_ID and either GITHUB_APP_PRIVATE_KEY (the PEM
+ * contents; escaped newlines are accepted) or GITHUB_APP_PRIVATE_KEY_PATH.
+ * The app is only used for the API at GITHUB_API_URL, and only when the
+ * request carries no signed-in user's credentials (see github-auth.ts).
+ * Against a local mock (see github-app-mock.ts), point GITHUB_API_URL at it.
+ *
+ * - isGitHubAppConfigured - Whether GitHub App authentication is configured.
+ * - createAppJwt - Signs a JWT that authenticates as the app.
+ * - withGitHubAppInstallation - Wraps a GitHub provider so it authenticates as an installation.
+ */
+
+import {createSign} from 'node:crypto';
+import {readFile} from 'node:fs/promises';
+import {isSameApiUrl} from './api-url';
+import {currentGitHubCredentials, githubApiUrl, runWithGitHubCredentials} from './github-auth';
+import type {RepoProvider} from './types';
+
+/** GitHub rejects app JWTs valid for more than ten minutes. */
+const JWT_TTL_SECONDS = 9 * 60;
+/** Backdates the JWT to allow for clock drift between this server and GitHub. */
+const JWT_CLOCK_SKEW_SECONDS = 60;
+/** Installation tokens live for an hour; they are renewed this long before they expire. */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+/** How long the installation of an account or repository, or the lack of one, is remembered. */
+const INSTALLATION_TTL_MS = 60 * 60 * 1000;
+
+const installations = new Map<string, { expiresAt: number; id: Promise<number | null> }>();
+/** Tokens are remembered while being created too, so concurrent requests share one exchange. */
+const installationTokens = new Map<string, { expiresAt: number; token: Promise<string> }>();
+let privateKey: Promise<string> | null = null;
+
+export function isGitHubAppConfigured(): boolean {
+  return Boolean(process.env.GITHUB_APP_ID && (process.env.GITHUB_APP_PRIVATE_KEY || process.env.GITHUB_APP_PRIVATE_KEY_PATH));
+}
+
+function loadPrivateKey(): Promise<string> {
+  privateKey ??= process.env.GITHUB_APP_PRIVATE_KEY
+    ? Promise.resolve(process.env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n'))
+    : readFile(process.env.GITHUB_APP_PRIVATE_KEY_PATH!, 'utf-8');
+  // A missing key file should be reported again on the next attempt rather than cached.
+  privateKey.catch(() => { privateKey = null; });
+  return privateKey;
+}
+
+export function createAppJwt(appId: string, key: string, now = Date.now()): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_SKEW_SECONDS;
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ iat: issuedAt, exp: issuedAt + JWT_TTL_SECONDS, iss: appId })}`;
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(key, 'base64url');
+  return `${unsigned}.${signature}`;
+}
+
+async function appFetch(apiUrl: string, path: string, init: RequestInit = {}): Promise<Response> {
+  const jwt = createAppJwt(process.env.GITHUB_APP_ID!, await loadPrivateKey());
+  return fetch(`${apiUrl}${path}`, {
+    ...init,
+    headers: {
+      'Accept': 'application/vnd.github.v3+json',
+      'Authorization': `Bearer ${jwt}`,
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  });
+}
+
+/**
+ * Finds the installation for a repository, or for an account when no
+ * repository is given, or null when the app is not installed there. Accounts
+ * may be users or organizations, which have separate endpoints.
+ */
+function findInstallation(apiUrl: string, owner: string, repo?: string): Promise<number | null> {
+  const key = `${apiUrl}:${owner}/${repo ?? ''}`.toLowerCase();
+  const cached = installations.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.id;
+
+  const id = (async () => {
+    const paths = repo ? [`/repos/${owner}/${repo}/installation`] : [`/orgs/${owner}/installation`, `/users/${owner}/installation`];
+    for (const path of paths) {
+      const response = await appFetch(apiUrl, path);
+      if (response.status === 404) continue;
+      if (!response.ok) throw new Error(`Failed to find the GitHub App installation for ${owner}: ${response.status}.`);
+      return (await response.json()).id as number;
+    }
+    return null;
+  })();
+  installations.set(key, { expiresAt: Date.now() + INSTALLATION_TTL_MS, id });
+  id.catch(() => installations.delete(key));
+  return id;
+}
+
+function installationToken(apiUrl: string, installationId: number): Promise<string> {
+  const key = `${apiUrl}:${installationId}`;
+  const cached = installationTokens.get(key);
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return cached.token;
+
+  const request = (async () => {
+    const response = await appFetch(apiUrl, `/app/installations/${installationId}/access_tokens`, { method: 'POST' });
+    if (!response.ok) throw new Error(`Failed to create a GitHub App installation token: ${response.status}.`);
+    const data = await response.json();
+    return { token: data.token as string, expiresAt: new Date(data.expires_at).getTime() };
+  })();
+  const entry = { expiresAt: Infinity, token: request.then(({ token }) => token) };
+  installationTokens.set(key, entry);
+  request.then(({ expiresAt }) => { entry.expiresAt = expiresAt; }, () => installationTokens.delete(key));
+  return entry.token;
+}
+
+export function withGitHubAppInstallation(provider: RepoProvider): RepoProvider {
+  // The app's credentials are only sent to the API it is registered with.
+  if (!isGitHubAppConfigured() || !isSameApiUrl(provider.apiBaseUrl, githubApiUrl())) return provider;
+  const apiUrl = provider.apiBaseUrl;
+
+  const asInstallation = async <T>(owner: string, repo: string | undefined, fn: () => Promise<T>): Promise<T> => {
+    // A signed-in user reads with their own access instead.
+    if (currentGitHubCredentials(apiUrl)) return fn();
+    const installationId = await findInstallation(apiUrl, owner, repo);
+    if (installationId === null) return fn();
+    const token = await installationToken(apiUrl, installationId);
+    return runWithGitHubCredentials({ token, apiUrl, installation: true }, fn);
+  };
+
+  return {
+    ...provider,
+    listRepos: (owner, options) => asInstallation(owner, undefined, () => provider.listRepos(owner, options)),
+    hasReadme: provider.hasReadme && ((owner, repo) => asInstallation(owner, repo, () => provider.hasReadme!(owner, repo))),
+    listRefs: (owner, repo) => asInstallation(owner, repo, () => provider.listRefs(owner, repo)),
+    getTree: (owner, repo, ref) => asInstallation(owner, repo, () => provider.getTree(owner, repo, ref)),
+    getFileContent: (owner, repo, ref, entry) => asInstallation(owner, repo, () => provider.getFileContent(owner, repo, ref, entry)),
+    getMetadata: provider.getMetadata && ((owner, repo) => asInstallation(owner, repo, () => provider.getMetadata!(owner, repo))),
+    downloadArchive: provider.downloadArchive && ((owner, repo, ref) => asInstallation(owner, repo, () => provider.downloadArchive!(owner, repo, ref))),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileOverview Per-request GitHub credentials.
+ *
+ * A signed-in user's OAuth token must be used for their requests only, and it
+ * must never become part of a flow input, since flow inputs end up in prompts.
+ * Server actions therefore run their work inside runWithGitHubCredentials, and
+ * the GitHub client picks the token up from the async context. Credentials
+ * are bound to the API they were issued by, so a token is never sent to
+ * another host, e.g. a GitHub Enterprise Server URL entered in the UI. Without
+ * matching credentials the server-wide GITHUB_ACCESS_TOKEN is used, but only
+ * for the API configured by GITHUB_API_URL (or api.github.com).
+ *
+ * - GitHubCredentials - The credentials of the current request.
+ * - githubApiUrl - Resolves the GitHub API base URL to use.
+ * - runWithGitHubCredentials - Runs a function with the given credentials.
+ * - currentGitHubCredentials - Returns the current credentials for an API, if any.
+ * - currentGitHubToken - Returns the token to send to an API, if any.
+ * - credentialsKey - Returns a short, non-reversible key for that token, for cache keys.
+ */
+
+import {AsyncLocalStorage} from 'node:async_hooks';
+import {createHash} from 'node:crypto';
+import {isSameApiUrl} from './api-url';
+
+export interface GitHubCredentials {
+  token: string;
+  /** The API base URL the token was issued for. */
+  apiUrl: string;
+  /** The login of the signed-in user, used to list their private repositories. */
+  login?: string;
+  /** Whether the token belongs to a GitHub App installation, which lists the repositories it was granted. */
+  installation?: boolean;
+}
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+const credentialsStorage = new AsyncLocalStorage<GitHubCredentials | undefined>();
+
+/** Defaults to GITHUB_API_URL, so a deployment can point at GitHub Enterprise Server. */
+export function githubApiUrl(apiBaseUrl?: string): string {
+  return (apiBaseUrl || process.env.GITHUB_API_URL || GITHUB_API_URL).replace(/\/+$/, '');
+}
+
+export function runWithGitHubCredentials<T>(credentials: GitHubCredentials | undefined, fn: () => Promise<T>): Promise<T> {
+  return credentialsStorage.run(credentials, fn);
+}
+
+export function currentGitHubCredentials(apiUrl: string): GitHubCredentials | undefined {
+  const credentials = credentialsStorage.getStore();
+  return credentials && githubApiUrl(credentials.apiUrl) === githubApiUrl(apiUrl) ? credentials : undefined;
+}
+
+export function currentGitHubToken(apiUrl: string): string | undefined {
+  const credentials = currentGitHubCredentials(apiUrl);
+  if (credentials) return credentials.token;
+  return isSameApiUrl(githubApiUrl(apiUrl), githubApiUrl()) ? process.env.GITHUB_ACCESS_TOKEN || undefined : undefined;
+}
+
+export function credentialsKey(apiUrl: string): string {
+  const token = currentGitHubToken(apiUrl);
+  return token ? createHash('sha256').update(token).digest('hex').slice(0, 16) : 'anonymous';
+}
@@ -0,0 +1,167 @@
+/**
+ * @fileOverview A rate-limit aware HTTP client for the GitHub REST API.
+ *
+ * Every GitHub request of the app goes through this client, so repository
+ * listing and README generation share one view of the rate limit. The client
+ * reads the X-RateLimit-* headers of each response, retries server errors and
+ * short rate-limit waits with backoff, and fails fast with a
+ * GitHubRateLimitError once the limit is exhausted until a later reset.
+ * Responses carrying an ETag are remembered and revalidated with
+ * If-None-Match; GitHub does not count 304 responses against the limit.
+ * Requests are authenticated with the token of the current request (see
+ * github-auth), and all state is kept per token, so one user's limit and
+ * cached responses are never seen by another.
+ *
+ * - GitHubRateLimit - The last known rate limit of an API.
+ * - GitHubRateLimitError - Thrown when the rate limit is exhausted.
+ * - GitHubClient - The client interface.
+ * - createGitHubClient - Creates a client for a GitHub API base URL.
+ */
+
+import {credentialsKey, currentGitHubToken} from './github-auth';
+
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export class GitHubRateLimitError extends Error {
+  constructor(readonly resetAt: Date, readonly limit?: number) {
+    super(`GitHub API rate limit exceeded${limit ? ` (${limit} requests per hour)` : ''}. It resets at ${resetAt.toISOString()}.`);
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+export interface GitHubClient {
+  /** Sends a GET request to an API path (e.g. `/repos/o/r`) or an absolute API URL. */
+  fetch(pathOrUrl: string): Promise<Response>;
+  /** The rate limit reported by the most recent response, if any. */
+  rateLimit(): GitHubRateLimit | undefined;
+}
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+/** Rate-limit waits up to this long are slept through; longer ones fail with GitHubRateLimitError. */
+const MAX_RATE_LIMIT_WAIT_MS = 15_000;
+const MAX_CACHED_RESPONSES = 1_000;
+const MAX_CACHED_BODY_LENGTH = 1_000_000;
+
+interface CachedResponse {
+  etag: string;
+  body: string;
+  headers: [string, string][];
+}
+
+/** State is shared per API base URL and token, since the limit applies to the token rather than the caller. */
+const rateLimits = new Map<string, GitHubRateLimit>();
+const responseCache = new Map<string, CachedResponse>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function githubHeaders(apiUrl: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    'X-GitHub-Api-Version': '2022-11-28'
+  };
+  const token = currentGitHubToken(apiUrl);
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+function readRateLimit(response: Response): GitHubRateLimit | undefined {
+  const limit = response.headers.get('x-ratelimit-limit');
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return undefined;
+  return { limit: Number(limit), remaining: Number(remaining), resetAt: new Date(Number(reset) * 1000) };
+}
+
+/** Returns how long to wait before retrying a rate-limited response, or null if it was not rate limited. */
+function rateLimitWait(response: Response, rateLimit: GitHubRateLimit | undefined): number | null {
+  if (response.status !== 403 && response.status !== 429) return null;
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter !== null) return Number(retryAfter) * 1000;
+  if (rateLimit?.remaining === 0) return Math.max(0, rateLimit.resetAt.getTime() - Date.now());
+  // A 429 without headers is still a (secondary) rate limit; a bare 403 is a permission error.
+  return response.status === 429 ? BASE_BACKOFF_MS : null;
+}
+
+function remember(key: string, response: CachedResponse) {
+  responseCache.delete(key);
+  responseCache.set(key, response);
+  if (responseCache.size > MAX_CACHED_RESPONSES) {
+    responseCache.delete(responseCache.keys().next().value!);
+  }
+}
+
+export function createGitHubClient(apiUrl: string): GitHubClient {
+  return {
+    async fetch(pathOrUrl) {
+      const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${apiUrl}${pathOrUrl}`;
+      const limitKey = `${credentialsKey(apiUrl)}:${apiUrl}`;
+      const cacheKey = `${credentialsKey(apiUrl)}:${url}`;
+
+      for (let attempt = 0; ; attempt++) {
+        const known = rateLimits.get(limitKey);
+        if (known && known.remaining === 0 && known.resetAt.getTime() - Date.now() > MAX_RATE_LIMIT_WAIT_MS) {
+          throw new GitHubRateLimitError(known.resetAt, known.limit);
+        }
+
+        const headers = githubHeaders(apiUrl);
+        const cached = responseCache.get(cacheKey);
+        if (cached) headers['If-None-Match'] = cached.etag;
+
+        let response: Response;
+        try {
+          response = await fetch(url, { headers });
+        } catch (error) {
+          if (attempt >= MAX_RETRIES) throw error;
+          await sleep(BASE_BACKOFF_MS * 2 ** attempt);
+          continue;
+        }
+
+        const rateLimit = readRateLimit(response);
+        if (rateLimit) rateLimits.set(limitKey, rateLimit);
+
+        if (response.status === 304 && cached) {
+          remember(cacheKey, cached);
+          return new Response(cached.body, { status: 200, headers: cached.headers });
+        }
+
+        const wait = rateLimitWait(response, rateLimit);
+        if (wait !== null) {
+          const resetAt = new Date(Date.now() + wait);
+          if (attempt >= MAX_RETRIES || wait > MAX_RATE_LIMIT_WAIT_MS) {
+            throw new GitHubRateLimitError(resetAt, rateLimit?.limit);
+          }
+          await sleep(Math.max(wait, BASE_BACKOFF_MS * 2 ** attempt));
+          continue;
+        }
+
+        if (response.status >= 500 && attempt < MAX_RETRIES) {
+          await sleep(BASE_BACKOFF_MS * 2 ** attempt);
+          continue;
+        }
+
+        // Only API documents are remembered; archive downloads and other binary bodies are passed through.
+        const etag = response.headers.get('etag');
+        if (response.ok && etag && response.headers.get('content-type')?.includes('json')) {
+          const body = await response.text();
+          const responseHeaders = [...response.headers.entries()];
+          if (body.length <= MAX_CACHED_BODY_LENGTH) remember(cacheKey, { etag, body, headers: responseHeaders });
+          return new Response(body, { status: response.status, headers: responseHeaders });
+        }
+        return response;
+      }
+    },
+
+    rateLimit() {
+      return rateLimits.get(`${credentialsKey(apiUrl)}:${apiUrl}`);
+    },
+  };
+}
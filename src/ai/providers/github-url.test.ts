@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import {describe, test} from 'node:test';
+import {parseGitHubUrl, resolveRefAndPath, UnsupportedGitHubHostError} from './github-url';
+
+/** Parses a URL and resolves its ref and path against the given branches and tags. */
+function resolve(url: string, refNames: string[] = []) {
+  const parsed = parseGitHubUrl(url);
+  assert.ok(parsed, `${url} should parse`);
+  return { owner: parsed.owner, repo: parsed.repo, ...resolveRefAndPath(parsed, refNames) };
+}
+
+describe('GitHub URL parsing', () => {
+  test('repository URLs, with or without the scheme, a .git suffix or as SSH clone URLs', () => {
+    for (const url of ['https://github.com/octo/hello', 'github.com/octo/hello', 'https://www.github.com/octo/hello.git', 'git@github.com:octo/hello.git']) {
+      assert.deepEqual(parseGitHubUrl(url), { owner: 'octo', repo: 'hello', apiBaseUrl: undefined, refAndPath: [], isFile: false }, url);
+    }
+  });
+
+  test('tree URLs point at a ref and a subdirectory', () => {
+    assert.deepEqual(resolve('https://github.com/octo/hello/tree/main/docs/guide', ['main']), {
+      owner: 'octo', repo: 'hello', ref: 'main', path: 'docs/guide',
+    });
+  });
+
+  test('blob URLs point at the directory of the file', () => {
+    assert.deepEqual(resolve('https://github.com/octo/hello/blob/main/src/index.ts', ['main']), {
+      owner: 'octo', repo: 'hello', ref: 'main', path: 'src',
+    });
+  });
+
+  test('refs with slashes are told apart from the path by the known refs', () => {
+    const refs = ['main', 'feature/login', 'feature/login-v2'];
+    assert.deepEqual(resolve('https://github.com/octo/hello/tree/feature/login/src/auth', refs), {
+      owner: 'octo', repo: 'hello', ref: 'feature/login', path: 'src/auth',
+    });
+    // Unknown refs fall back to the first segment.
+    assert.deepEqual(resolve('https://github.com/octo/hello/tree/release/2.0', refs), {
+      owner: 'octo', repo: 'hello', ref: 'release', path: '2.0',
+    });
+  });
+
+  test('commit URLs point at the commit', () => {
+    assert.deepEqual(resolve('https://github.com/octo/hello/commit/0a1b2c3d4e5f'), {
+      owner: 'octo', repo: 'hello', ref: '0a1b2c3d4e5f', path: undefined,
+    });
+  });
+
+  test('anything but a repository URL is not parsed', () => {
+    for (const url of ['', 'https://github.com/octo', 'https://github.com/octo/hello/issues/1', 'https://github.com/octo/hello/tree', 'not a url']) {
+      assert.equal(parseGitHubUrl(url), null, url);
+    }
+  });
+
+  test('other hosts are rejected rather than taken for GitHub Enterprise', () => {
+    for (const url of ['https://gitlab.com/octo/hello/tree/main', 'bitbucket.org/octo/hello', 'git@gitlab.com:octo/hello.git']) {
+      assert.throws(() => parseGitHubUrl(url), UnsupportedGitHubHostError, url);
+    }
+    assert.throws(() => parseGitHubUrl('https://ghe.other.com/octo/hello', ['https://ghe.example.com/api/v3']), /Please enter a URL from github\.com or ghe\.example\.com/);
+  });
+
+  test('configured GitHub Enterprise hosts use their API', () => {
+    const parsed = parseGitHubUrl('https://GHE.example.com/octo/hello/tree/main', ['https://ghe.example.com/api/v3']);
+    assert.equal(parsed?.apiBaseUrl, 'https://ghe.example.com/api/v3');
+    assert.deepEqual(parsed?.refAndPath, ['main']);
+  });
+});
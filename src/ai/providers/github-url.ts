@@ -0,0 +1,110 @@
+/**
+ * @fileOverview Parses GitHub repository URLs as copied from the browser.
+ *
+ * Accepts repository, tree, blob and commit URLs, with or without the scheme,
+ * as well as SSH clone URLs, e.g. `github.com/owner/repo/tree/main/sub/dir`.
+ * Branch names may contain slashes, so the part after `tree/` or `blob/` is
+ * kept as segments and only split into ref and path once the repository's
+ * branches and tags are known (see resolveRefAndPath).
+ *
+ * Only github.com and the GitHub Enterprise Server APIs the server is
+ * configured for are accepted. Any other host is rejected rather than taken
+ * for an Enterprise server, since its URLs may look just like GitHub's (e.g.
+ * gitlab.com/owner/repo/tree/main).
+ *
+ * - UnsupportedGitHubHostError - Thrown for URLs of hosts that are not known to be GitHub.
+ * - ParsedGitHubUrl - The parts of a GitHub URL.
+ * - parseGitHubUrl - Parses a GitHub URL, or returns null if it is not one.
+ * - resolveRefAndPath - Splits the ref and subdirectory using known refs.
+ */
+
+export class UnsupportedGitHubHostError extends Error {
+  constructor(readonly host: string, allowedHosts: string[]) {
+    super(`${host} is not a GitHub host. Please enter a URL from ${allowedHosts.join(' or ')}.`);
+    this.name = 'UnsupportedGitHubHostError';
+  }
+}
+
+export interface ParsedGitHubUrl {
+  owner: string;
+  repo: string;
+  /** The API base URL for GitHub Enterprise Server hosts; undefined for github.com. */
+  apiBaseUrl?: string;
+  /** Path segments after `tree/`, `blob/` or `commit/`: the ref followed by an optional path. */
+  refAndPath: string[];
+  /** Whether the URL points at a file, in which case the path is reduced to its directory. */
+  isFile: boolean;
+}
+
+const OWNER_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/;
+const REPO_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+const GITHUB_HOSTS = ['github.com', 'www.github.com'];
+
+/**
+ * `enterpriseApiUrls` are the API base URLs of the GitHub Enterprise Server
+ * instances whose URLs are accepted, e.g. `https://ghe.example.com/api/v3`.
+ */
+export function parseGitHubUrl(input: string, enterpriseApiUrls: string[] = []): ParsedGitHubUrl | null {
+  let value = input.trim();
+  if (!value) return null;
+
+  // git@github.com:owner/repo.git
+  const ssh = value.match(/^git@([^:]+):(.+)$/);
+  if (ssh) value = `https://${ssh[1]}/${ssh[2]}`;
+  if (!/^https?:\/\//i.test(value)) value = `https://${value}`;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  const [owner, rawRepo, kind, ...rest] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const repo = rawRepo?.replace(/\.git$/, '');
+  if (!owner || !repo || !OWNER_PATTERN.test(owner) || !REPO_PATTERN.test(repo)) return null;
+  if (kind && !['tree', 'blob', 'commit'].includes(kind)) return null;
+  if (kind && rest.length === 0) return null;
+
+  const host = url.host.toLowerCase();
+  const enterpriseApiUrl = enterpriseApiUrls.find(apiUrl => new URL(apiUrl).host.toLowerCase() === host);
+  if (!GITHUB_HOSTS.includes(host) && !enterpriseApiUrl) {
+    throw new UnsupportedGitHubHostError(host, [GITHUB_HOSTS[0], ...enterpriseApiUrls.map(apiUrl => new URL(apiUrl).host)]);
+  }
+  return {
+    owner,
+    repo,
+    apiBaseUrl: enterpriseApiUrl,
+    refAndPath: kind === 'commit' ? rest.slice(0, 1) : rest,
+    isFile: kind === 'blob',
+  };
+}
+
+/**
+ * Splits URL segments into a ref and a subdirectory, preferring the longest
+ * branch or tag name that matches. Falls back to the first segment as the ref,
+ * which covers commit SHAs and refs that were not listed.
+ */
+export function resolveRefAndPath(parsed: ParsedGitHubUrl, refNames: string[]): { ref?: string; path?: string } {
+  const segments = parsed.refAndPath;
+  if (segments.length === 0) return {};
+
+  const known = new Set(refNames);
+  let refLength = 1;
+  if (!COMMIT_SHA_PATTERN.test(segments[0]) || known.has(segments[0])) {
+    for (let length = segments.length; length > 0; length--) {
+      if (known.has(segments.slice(0, length).join('/'))) {
+        refLength = length;
+        break;
+      }
+    }
+  }
+
+  const pathSegments = segments.slice(refLength);
+  if (parsed.isFile) pathSegments.pop();
+  return {
+    ref: segments.slice(0, refLength).join('/'),
+    path: pathSegments.length > 0 ? pathSegments.join('/') : undefined,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * @fileOverview Repository provider backed by the GitHub REST API.
+ *
+ * The API base URL defaults to GITHUB_API_URL, so a deployment can point at
+ * GitHub Enterprise Server (e.g. https://ghe.example.com/api/v3).
+ *
+ * The recursive trees API truncates very large repositories. When that happens
+ * the tree is walked level by level instead, within depth, node and request
+ * limits; if any limit is hit the returned tree is marked as sampled.
+ *
+ * All requests go through the shared, rate-limit aware client (see
+ * github-client.ts). Complete trees are cached by their SHA (see blob-cache.ts).
+ * When a user is signed in, their own repositories are listed through
+ * `/user/repos`, which unlike `/users/{owner}/repos` includes private ones.
+ * As a GitHub App installation (see github-app.ts), the repositories granted
+ * to the installation are listed instead.
+ *
+ * - createGitHubProvider - Creates the GitHub implementation of RepoProvider.
+ */
+
+import {blobCache} from './blob-cache';
+import {withGitHubAppInstallation} from './github-app';
+import {currentGitHubCredentials, githubApiUrl} from './github-auth';
+import {createGitHubClient, type GitHubClient} from './github-client';
+import type {RepoProvider, RepoProviderOptions, RepoSummary, RepoTreeEntry} from './types';
+
+/** Limits for walking a truncated tree level by level. */
+const MAX_WALK_DEPTH = 8;
+const MAX_WALK_NODES = 20_000;
+const MAX_WALK_REQUESTS = 150;
+/** Upper bound on listed repositories, at 100 per page. */
+const MAX_REPO_PAGES = 50;
+/** Upper bound on listed branches and on listed tags, at 100 per page. */
+const MAX_REF_PAGES = 10;
+/** Languages beyond this many are too small a share to be worth mentioning. */
+const MAX_LANGUAGES = 10;
+
+/** Turns GitHub's language byte counts into shares of the code base, largest first. */
+function languageShares(bytes: Record<string, number>): { name: string; percent: number }[] {
+  const total = Object.values(bytes).reduce((sum, count) => sum + count, 0);
+  if (total === 0) return [];
+  return Object.entries(bytes)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_LANGUAGES)
+    .map(([name, count]) => ({ name, percent: Math.round(count / total * 1000) / 10 }));
+}
+
+function decodeBase64(encoded: string): string {
+  return Buffer.from(encoded, 'base64').toString('utf-8');
+}
+
+/** Returns the URL of the next page from a Link header, if there is one. */
+function nextPageUrl(linkHeader: string | null): string | null {
+  return linkHeader?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ?? null;
+}
+
+function toEntry(node: any, prefix = ''): RepoTreeEntry {
+  return {
+    path: prefix ? `${prefix}/${node.path}` : node.path,
+    type: node.type === 'tree' ? 'tree' : 'blob',
+    url: node.url,
+    sha: node.sha,
+  };
+}
+
+/**
+ * Walks a tree one level at a time, breadth first, so the shallow (and usually
+ * most relevant) parts of the repository are covered before the limits are hit.
+ */
+async function walkTree(client: GitHubClient, owner: string, repo: string, rootSha: string): Promise<{ entries: RepoTreeEntry[]; complete: boolean }> {
+  const entries: RepoTreeEntry[] = [];
+  let queue = [{ sha: rootSha, path: '', depth: 0 }];
+  let requests = 0;
+  let complete = true;
+
+  while (queue.length) {
+    const next: typeof queue = [];
+    for (const dir of queue) {
+      if (requests >= MAX_WALK_REQUESTS || entries.length >= MAX_WALK_NODES) {
+        return { entries, complete: false };
+      }
+      requests++;
+      const treeRes: Response = await client.fetch(`/repos/${owner}/${repo}/git/trees/${dir.sha}`);
+      if (!treeRes.ok) throw new Error(`Failed to fetch file tree for ${dir.path || '/'}: ${await treeRes.text()}`);
+      const treeData = await treeRes.json();
+      if (treeData.truncated) complete = false;
+
+      for (const node of treeData.tree) {
+        const entry = toEntry(node, dir.path);
+        entries.push(entry);
+        if (entry.type !== 'tree') continue;
+        if (dir.depth + 1 < MAX_WALK_DEPTH) {
+          next.push({ sha: node.sha, path: entry.path, depth: dir.depth + 1 });
+        } else {
+          complete = false;
+        }
+      }
+    }
+    queue = next;
+  }
+
+  return { entries, complete };
+}
+
+export function createGitHubProvider(options: RepoProviderOptions = {}): RepoProvider {
+  const apiUrl = githubApiUrl(options.apiBaseUrl);
+  const client = createGitHubClient(apiUrl);
+
+  async function defaultBranch(owner: string, repo: string): Promise<string> {
+    const repoRes = await client.fetch(`/repos/${owner}/${repo}`);
+    if (!repoRes.ok) throw new Error(`Failed to fetch repo details: ${await repoRes.text()}`);
+    const repoData = await repoRes.json();
+    return repoData.default_branch as string;
+  }
+
+  async function listRefNames(path: string): Promise<string[]> {
+    const names: string[] = [];
+    let url: string | null = `${path}?per_page=100`;
+    for (let page = 0; url && page < MAX_REF_PAGES; page++) {
+      const response: Response = await client.fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch branches and tags. GitHub API at ${apiUrl} returned ${response.status}.`);
+      }
+      names.push(...(await response.json()).map((ref: any) => ref.name));
+      url = nextPageUrl(response.headers.get('link'));
+    }
+    return names;
+  }
+
+  return withGitHubAppInstallation({
+    id: 'github',
+    label: 'GitHub',
+    apiBaseUrl: apiUrl,
+
+    async listRepos(owner, { ownerType = 'user' } = {}) {
+      const repos: RepoSummary[] = [];
+      const credentials = currentGitHubCredentials(apiUrl);
+      const login = credentials?.login;
+      let url: string | null = credentials?.installation
+        ? '/installation/repositories?per_page=100'
+        : ownerType === 'org'
+        ? `/orgs/${owner}/repos?type=all&sort=updated&direction=desc&per_page=100`
+        : login && login.toLowerCase() === owner.toLowerCase()
+          ? `/user/repos?affiliation=owner&sort=updated&direction=desc&per_page=100`
+          : `/users/${owner}/repos?sort=updated&direction=desc&per_page=100`;
+      for (let page = 0; url && page < MAX_REPO_PAGES; page++) {
+        const response: Response = await client.fetch(url);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch repositories. GitHub API at ${apiUrl} returned ${response.status}.`);
+        }
+        const data = await response.json();
+        // The installation endpoint wraps its page and may cover several accounts.
+        const page: any[] = credentials?.installation
+          ? data.repositories.filter((repo: any) => repo.owner.login.toLowerCase() === owner.toLowerCase())
+          : data;
+        for (const repo of page) {
+          repos.push({ name: repo.name, description: repo.description, fork: repo.fork, archived: repo.archived, language: repo.language, private: repo.private });
+        }
+        url = nextPageUrl(response.headers.get('link'));
+      }
+      return repos;
+    },
+
+    async hasReadme(owner, repo) {
+      const readmeRes = await client.fetch(`/repos/${owner}/${repo}/readme`);
+      if (readmeRes.status === 404) return false;
+      if (!readmeRes.ok) throw new Error(`Failed to check the README of ${owner}/${repo}: ${readmeRes.status}.`);
+      return true;
+    },
+
+    async listRefs(owner, repo) {
+      const [repoRes, branches, tags] = await Promise.all([
+        client.fetch(`/repos/${owner}/${repo}`),
+        listRefNames(`/repos/${owner}/${repo}/branches`),
+        listRefNames(`/repos/${owner}/${repo}/tags`),
+      ]);
+      if (!repoRes.ok) {
+        throw new Error(`Failed to fetch branches and tags. GitHub API at ${apiUrl} returned ${repoRes.status}.`);
+      }
+      const repoData = await repoRes.json();
+      return { defaultBranch: repoData.default_branch, branches, tags };
+    },
+
+    async getTree(owner, repo, ref) {
+      const resolvedRef = ref || await defaultBranch(owner, repo);
+
+      // The commits endpoint resolves branches, tags and SHAs alike.
+      const commitRes = await client.fetch(`/repos/${owner}/${repo}/commits/${encodeURIComponent(resolvedRef)}`);
+      if (!commitRes.ok) throw new Error(`Failed to fetch commit details for ${resolvedRef}: ${await commitRes.text()}`);
+      const commitData = await commitRes.json();
+      const treeSha = commitData.commit.tree.sha;
+
+      const cachedTree = await blobCache.get('tree', treeSha);
+      if (cachedTree) return { ref: resolvedRef, entries: JSON.parse(cachedTree) };
+
+      const treeRes = await client.fetch(`/repos/${owner}/${repo}/git/trees/${treeSha}?recursive=1`);
+      if (!treeRes.ok) throw new Error(`Failed to fetch file tree: ${await treeRes.text()}`);
+      const treeData = await treeRes.json();
+
+      if (treeData.truncated) {
+        console.warn(`The tree of ${owner}/${repo} at ${resolvedRef} is too large for a single request; walking it level by level.`);
+        const { entries, complete } = await walkTree(client, owner, repo, treeSha);
+        if (complete) await blobCache.set('tree', treeSha, JSON.stringify(entries));
+        return { ref: resolvedRef, entries, sampled: !complete };
+      }
+
+      const entries: RepoTreeEntry[] = treeData.tree.map((node: any) => toEntry(node));
+      await blobCache.set('tree', treeSha, JSON.stringify(entries));
+      return { ref: resolvedRef, entries };
+    },
+
+    async getFileContent(_owner, _repo, _ref, entry) {
+      if (!entry.url) return null;
+      const fileRes = await client.fetch(entry.url);
+      if (!fileRes.ok) return null;
+      const fileData = await fileRes.json();
+      return fileData.content ? decodeBase64(fileData.content) : null;
+    },
+
+    async getMetadata(owner, repo) {
+      const [repoRes, languagesRes, releaseRes] = await Promise.all([
+        client.fetch(`/repos/${owner}/${repo}`),
+        client.fetch(`/repos/${owner}/${repo}/languages`),
+        client.fetch(`/repos/${owner}/${repo}/releases/latest`),
+      ]);
+      if (!repoRes.ok) throw new Error(`Failed to fetch repo details: ${repoRes.status}.`);
+      const repoData = await repoRes.json();
+      const languages = languagesRes.ok ? await languagesRes.json() : {};
+      // Repositories without a published release answer 404.
+      const release = releaseRes.ok ? await releaseRes.json() : null;
+      // GitHub reports licenses it cannot identify as NOASSERTION.
+      const spdxId = repoData.license?.spdx_id && repoData.license.spdx_id !== 'NOASSERTION' ? repoData.license.spdx_id : undefined;
+      return {
+        description: repoData.description || undefined,
+        homepage: repoData.homepage || undefined,
+        topics: repoData.topics ?? [],
+        license: repoData.license ? { spdxId, name: repoData.license.name } : undefined,
+        languages: languageShares(languages),
+        stars: repoData.stargazers_count,
+        forks: repoData.forks_count,
+        openIssues: repoData.open_issues_count,
+        latestRelease: release
+          ? { tag: release.tag_name, name: release.name || undefined, publishedAt: release.published_at || undefined, url: release.html_url }
+          : undefined,
+      };
+    },
+
+    async downloadArchive(owner, repo, ref) {
+      const resolvedRef = ref || await defaultBranch(owner, repo);
+      const archiveRes = await client.fetch(`/repos/${owner}/${repo}/tarball/${encodeURIComponent(resolvedRef)}`);
+      if (!archiveRes.ok) throw new Error(`Failed to download repository archive for ${resolvedRef}: ${archiveRes.status}.`);
+      return { ref: resolvedRef, fileName: `${repo}.tar.gz`, data: Buffer.from(await archiveRes.arrayBuffer()) };
+    },
+  });
+}
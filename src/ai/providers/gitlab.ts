@@ -0,0 +1,168 @@
+/**
+ * @fileOverview Repository provider backed by the GitLab REST API (v4).
+ *
+ * GitLab addresses projects by their URL-encoded "namespace/project" path,
+ * so the owner and repository name map directly onto a project lookup.
+ *
+ * The API base URL defaults to GITLAB_API_URL, so self-managed GitLab
+ * instances work as well as gitlab.com. GITLAB_ACCESS_TOKEN is only sent to
+ * that configured API, never to a base URL given per request for another host.
+ *
+ * - createGitLabProvider - Creates the GitLab implementation of RepoProvider.
+ */
+
+import {isSameApiUrl} from './api-url';
+import type {RepoProvider, RepoProviderOptions, RepoSummary, RepoTreeEntry} from './types';
+
+const GITLAB_API_URL = 'https://gitlab.com/api/v4';
+const PAGE_SIZE = 100;
+/** Upper bound on listed branches and on listed tags. */
+const MAX_REF_PAGES = 10;
+
+function gitlabHeaders(apiUrl: string): HeadersInit {
+  const headers: HeadersInit = {
+    'Accept': 'application/json',
+  };
+  if (process.env.GITLAB_ACCESS_TOKEN && isSameApiUrl(apiUrl, process.env.GITLAB_API_URL || GITLAB_API_URL)) {
+    headers['PRIVATE-TOKEN'] = process.env.GITLAB_ACCESS_TOKEN;
+  }
+  return headers;
+}
+
+function projectId(owner: string, repo: string): string {
+  return encodeURIComponent(`${owner}/${repo}`);
+}
+
+export function createGitLabProvider(options: RepoProviderOptions = {}): RepoProvider {
+  const apiUrl = (options.apiBaseUrl || process.env.GITLAB_API_URL || GITLAB_API_URL).replace(/\/+$/, '');
+
+  async function defaultBranch(owner: string, repo: string): Promise<string> {
+    const projectRes = await fetch(`${apiUrl}/projects/${projectId(owner, repo)}`, { headers: gitlabHeaders(apiUrl) });
+    if (!projectRes.ok) throw new Error(`Failed to fetch project details: ${await projectRes.text()}`);
+    const projectData = await projectRes.json();
+    return projectData.default_branch as string;
+  }
+
+  async function listRefNames(listUrl: string): Promise<string[]> {
+    const names: string[] = [];
+    let page: string | null = '1';
+    for (let count = 0; page && count < MAX_REF_PAGES; count++) {
+      const response: Response = await fetch(`${listUrl}?per_page=${PAGE_SIZE}&page=${page}`, { headers: gitlabHeaders(apiUrl) });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch branches and tags. GitLab API at ${apiUrl} returned ${response.status}.`);
+      }
+      names.push(...(await response.json()).map((ref: any) => ref.name));
+      page = response.headers.get('X-Next-Page') || null;
+    }
+    return names;
+  }
+
+  return {
+    id: 'gitlab',
+    label: 'GitLab',
+    apiBaseUrl: apiUrl,
+
+    async listRepos(owner, { ownerType = 'user' } = {}) {
+      const listUrl = ownerType === 'org'
+        ? `${apiUrl}/groups/${encodeURIComponent(owner)}/projects?include_subgroups=true&order_by=last_activity_at&sort=desc`
+        : `${apiUrl}/users/${encodeURIComponent(owner)}/projects?order_by=last_activity_at&sort=desc`;
+      const repos: RepoSummary[] = [];
+      let page: string | null = '1';
+      while (page) {
+        const response: Response = await fetch(`${listUrl}&per_page=${PAGE_SIZE}&page=${page}`, { headers: gitlabHeaders(apiUrl) });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch repositories. GitLab API at ${apiUrl} returned ${response.status}.`);
+        }
+        const data = await response.json();
+        for (const project of data) {
+          repos.push({
+            name: project.path,
+            description: project.description,
+            fork: !!project.forked_from_project,
+            archived: project.archived,
+            hasReadme: !!project.readme_url,
+          });
+        }
+        page = response.headers.get('X-Next-Page') || null;
+      }
+      return repos;
+    },
+
+    async listRefs(owner, repo) {
+      const id = projectId(owner, repo);
+      const [projectRes, branches, tags] = await Promise.all([
+        fetch(`${apiUrl}/projects/${id}`, { headers: gitlabHeaders(apiUrl) }),
+        listRefNames(`${apiUrl}/projects/${id}/repository/branches`),
+        listRefNames(`${apiUrl}/projects/${id}/repository/tags`),
+      ]);
+      if (!projectRes.ok) {
+        throw new Error(`Failed to fetch branches and tags. GitLab API at ${apiUrl} returned ${projectRes.status}.`);
+      }
+      const projectData = await projectRes.json();
+      return { defaultBranch: projectData.default_branch, branches, tags };
+    },
+
+    async getTree(owner, repo, ref) {
+      const headers = gitlabHeaders(apiUrl);
+      const id = projectId(owner, repo);
+
+      const resolvedRef = ref || await defaultBranch(owner, repo);
+
+      // The tree endpoint is paginated; follow X-Next-Page until it runs out.
+      const entries: RepoTreeEntry[] = [];
+      let page: string | null = '1';
+      while (page) {
+        const treeRes: Response = await fetch(`${apiUrl}/projects/${id}/repository/tree?recursive=true&ref=${encodeURIComponent(resolvedRef)}&per_page=${PAGE_SIZE}&page=${page}`, { headers });
+        if (!treeRes.ok) throw new Error(`Failed to fetch file tree: ${await treeRes.text()}`);
+        const treeData = await treeRes.json();
+        for (const node of treeData) {
+          entries.push({ path: node.path, type: node.type === 'tree' ? 'tree' : 'blob', sha: node.id });
+        }
+        page = treeRes.headers.get('X-Next-Page') || null;
+      }
+
+      return { ref: resolvedRef, entries };
+    },
+
+    async getFileContent(owner, repo, ref, entry) {
+      const fileRes = await fetch(`${apiUrl}/projects/${projectId(owner, repo)}/repository/files/${encodeURIComponent(entry.path)}/raw?ref=${encodeURIComponent(ref)}`, { headers: gitlabHeaders(apiUrl) });
+      if (!fileRes.ok) return null;
+      return fileRes.text();
+    },
+
+    async getMetadata(owner, repo) {
+      const headers = gitlabHeaders(apiUrl);
+      const id = projectId(owner, repo);
+      const [projectRes, languagesRes, releasesRes] = await Promise.all([
+        fetch(`${apiUrl}/projects/${id}?license=true`, { headers }),
+        fetch(`${apiUrl}/projects/${id}/languages`, { headers }),
+        fetch(`${apiUrl}/projects/${id}/releases?per_page=1`, { headers }),
+      ]);
+      if (!projectRes.ok) throw new Error(`Failed to fetch project details: ${projectRes.status}.`);
+      const projectData = await projectRes.json();
+      // GitLab already reports languages as percentages.
+      const languages: Record<string, number> = languagesRes.ok ? await languagesRes.json() : {};
+      const [release] = releasesRes.ok ? await releasesRes.json() : [];
+      return {
+        description: projectData.description || undefined,
+        topics: projectData.topics ?? projectData.tag_list ?? [],
+        // GitLab identifies licenses by its own keys rather than SPDX identifiers.
+        license: projectData.license ? { name: projectData.license.name } : undefined,
+        languages: Object.entries(languages).sort(([, a], [, b]) => b - a).map(([name, percent]) => ({ name, percent })),
+        stars: projectData.star_count,
+        forks: projectData.forks_count,
+        openIssues: projectData.open_issues_count,
+        latestRelease: release && !release.upcoming_release
+          ? { tag: release.tag_name, name: release.name || undefined, publishedAt: release.released_at || undefined, url: release._links?.self }
+          : undefined,
+      };
+    },
+
+    async downloadArchive(owner, repo, ref) {
+      const resolvedRef = ref || await defaultBranch(owner, repo);
+      const archiveRes = await fetch(`${apiUrl}/projects/${projectId(owner, repo)}/repository/archive.tar.gz?sha=${encodeURIComponent(resolvedRef)}`, { headers: gitlabHeaders(apiUrl) });
+      if (!archiveRes.ok) throw new Error(`Failed to download repository archive for ${resolvedRef}: ${archiveRes.status}.`);
+      return { ref: resolvedRef, fileName: `${repo}.tar.gz`, data: Buffer.from(await archiveRes.arrayBuffer()) };
+    },
+  };
+}
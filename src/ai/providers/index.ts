@@ -0,0 +1,33 @@
+/**
+ * @fileOverview Registry of repository hosting providers.
+ *
+ * With the archive fetch strategy, the provider is wrapped so that its tree
+ * and files come from a single archive download (see archive-strategy.ts).
+ * Tests pass an archivePath to read a fixture instead, so the strategy can be
+ * exercised without a host.
+ *
+ * - getRepoProvider - Creates the provider implementation for a host.
+ */
+
+import type {RepoProviderId} from '@/ai/flows/readme.types';
+import {withArchiveStrategy} from './archive-strategy';
+import {createBitbucketProvider, createBitbucketServerProvider} from './bitbucket';
+import {createGitHubProvider} from './github';
+import {createGitLabProvider} from './gitlab';
+import {createLocalProvider} from './local';
+import type {RepoProvider, RepoProviderOptions} from './types';
+
+const providerFactories: Record<RepoProviderId, (options: RepoProviderOptions) => RepoProvider> = {
+  github: createGitHubProvider,
+  gitlab: createGitLabProvider,
+  bitbucket: createBitbucketProvider,
+  'bitbucket-server': createBitbucketServerProvider,
+  local: createLocalProvider,
+};
+
+export function getRepoProvider(id: RepoProviderId, options: RepoProviderOptions = {}): RepoProvider {
+  const provider = providerFactories[id](options);
+  // Local directories are already read straight from disk.
+  if (options.fetchStrategy !== 'archive' || id === 'local') return provider;
+  return withArchiveStrategy(provider, options);
+}
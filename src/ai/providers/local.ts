@@ -0,0 +1,107 @@
+/**
+ * @fileOverview Repository provider backed by a directory on the server.
+ *
+ * Used for server-side generation from a local checkout and for uploaded
+ * archives, which are extracted into a temporary directory first. The owner
+ * and repository name are not used to locate files; everything is read from
+ * the configured local path.
+ *
+ * The directory is a server path, e.g. a temporary directory, and must not
+ * reach the prompt or the browser. Flows therefore run with the local source
+ * in an async context (like GitHub credentials), so tools can read it without
+ * the model passing the path, and messages name the source by its display
+ * name instead.
+ *
+ * - LocalSource - A directory on the server and the name it is shown as.
+ * - localSource - Returns the local source for a path and optional display name.
+ * - runWithLocalSource - Runs a function with the given local source.
+ * - createLocalProvider - Creates the local directory implementation of RepoProvider.
+ */
+
+import {AsyncLocalStorage} from 'node:async_hooks';
+import {readdir, readFile} from 'node:fs/promises';
+import path from 'node:path';
+import type {RepoProvider, RepoProviderOptions, RepoTreeEntry} from './types';
+
+export interface LocalSource {
+  path: string;
+  name: string;
+}
+
+const localSourceStorage = new AsyncLocalStorage<LocalSource | undefined>();
+
+export function localSource(localPath: string | undefined, localName?: string): LocalSource | undefined {
+  return localPath ? { path: localPath, name: localName || path.basename(path.resolve(localPath)) } : undefined;
+}
+
+export function runWithLocalSource<T>(source: LocalSource | undefined, fn: () => Promise<T>): Promise<T> {
+  return localSourceStorage.run(source, fn);
+}
+
+/** Directories that are never part of a meaningful project structure. */
+const IGNORED_DIRECTORIES = ['.git', 'node_modules'];
+
+async function walk(root: string, relativeDir: string, entries: RepoTreeEntry[]): Promise<void> {
+  const dirents = await readdir(path.join(root, relativeDir), { withFileTypes: true });
+  for (const dirent of dirents) {
+    const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) {
+      if (IGNORED_DIRECTORIES.includes(dirent.name)) continue;
+      entries.push({ path: relativePath, type: 'tree' });
+      await walk(root, relativePath, entries);
+    } else if (dirent.isFile()) {
+      entries.push({ path: relativePath, type: 'blob' });
+    }
+  }
+}
+
+export function createLocalProvider(options: RepoProviderOptions = {}): RepoProvider {
+  const source = localSourceStorage.getStore();
+  const localPath = options.localPath ?? source?.path;
+  const root = localPath ? path.resolve(localPath) : '';
+  const name = options.localName ?? source?.name ?? path.basename(root);
+
+  function requireRoot(): string {
+    if (!root) {
+      throw new Error('No local path was provided.');
+    }
+    return root;
+  }
+
+  /** File system errors name the full path; they are reported relative to the source's name instead. */
+  async function withoutServerPath<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof Error && root) error.message = error.message.split(root).join(name);
+      throw error;
+    }
+  }
+
+  return {
+    id: 'local',
+    label: 'local directory',
+    apiBaseUrl: name,
+
+    async listRepos() {
+      throw new Error('Listing repositories is not supported for local directories.');
+    },
+
+    async listRefs() {
+      return { defaultBranch: null, branches: [], tags: [] };
+    },
+
+    async getTree() {
+      const entries: RepoTreeEntry[] = [];
+      await withoutServerPath(() => walk(requireRoot(), '', entries));
+      entries.sort((a, b) => a.path.localeCompare(b.path));
+      return { ref: 'local', entries };
+    },
+
+    async getFileContent(_owner, _repo, _ref, entry) {
+      const target = path.resolve(requireRoot(), entry.path);
+      if (!target.startsWith(root + path.sep)) return null;
+      return withoutServerPath(() => readFile(target, 'utf-8'));
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import type {FetchStrategy, RepoMetadata, RepoProviderId} from '@/ai/flows/readme.types';
+
+/**
+ * @fileOverview Shared types for repository hosting providers.
+ *
+ * A provider knows how to talk to one hosting service (GitHub, GitLab, ...)
+ * and exposes the small surface the README flow needs: listing an owner's
+ * repositories and their branches and tags, resolving the file tree at a ref
+ * (the default branch unless one is given) and reading individual files.
+ *
+ * - RepoSummary - A repository as shown in the repository picker.
+ * - MAX_README_CHECKS - How many repositories may be checked for a README at once.
+ * - RepoOwnerType - Whether repositories are listed for a user or an organization.
+ * - ListReposOptions - Options for listing repositories.
+ * - RepoRefs - The branches and tags of a repository.
+ * - RepoTreeEntry - A single file or folder in a repository tree.
+ * - RepoTree - The resolved tree of a repository at a given ref.
+ * - RepoArchive - A downloaded archive of a repository at a given ref.
+ * - RepoProviderOptions - Per-request settings used to create a provider.
+ * - RepoProvider - The interface every hosting provider implements.
+ */
+
+/** Each check is a request to the host, so larger batches are rejected. */
+export const MAX_README_CHECKS = 100;
+
+export interface RepoSummary {
+  name: string;
+  description: string | null;
+  /** Whether the repository is a fork, when the host reports it. */
+  fork?: boolean;
+  archived?: boolean;
+  /** Whether the repository is private; only visible to a signed-in user with access. */
+  private?: boolean;
+  /** The primary language, when the host reports it. */
+  language?: string | null;
+  /** Whether the repository has a README; undefined until it is known. */
+  hasReadme?: boolean;
+}
+
+/** Organizations are called groups on GitLab; Bitbucket only has workspaces and projects. */
+export type RepoOwnerType = 'user' | 'org';
+
+export interface ListReposOptions {
+  ownerType?: RepoOwnerType;
+}
+
+export interface RepoRefs {
+  defaultBranch: string | null;
+  branches: string[];
+  tags: string[];
+}
+
+export interface RepoTreeEntry {
+  path: string;
+  type: 'blob' | 'tree';
+  /** Provider-specific URL for fetching the entry directly, when available. */
+  url?: string;
+  /** The git object SHA of the entry, when the host reports it. Used as the cache key for its content. */
+  sha?: string;
+}
+
+export interface RepoTree {
+  ref: string;
+  entries: RepoTreeEntry[];
+  /**
+   * Set when the tree is incomplete, e.g. because the host truncated a very
+   * large tree and only part of it could be walked within the limits.
+   */
+  sampled?: boolean;
+}
+
+export interface RepoArchive {
+  ref: string;
+  /** File name of the archive; its extension tells how to read it. */
+  fileName: string;
+  data: Buffer;
+}
+
+export interface RepoProviderOptions {
+  /**
+   * Overrides the API base URL, e.g. a GitHub Enterprise Server instance or a
+   * local mock server. Falls back to the provider's environment variable and
+   * then to the public service.
+   */
+  apiBaseUrl?: string;
+  /** Directory on the server to read from when using the local provider. */
+  localPath?: string;
+  /** How the local directory is named in messages, e.g. an uploaded archive's file name, so server paths stay private. */
+  localName?: string;
+  /** Whether to fetch files one by one through the API (the default) or from a single archive download. */
+  fetchStrategy?: FetchStrategy;
+  /**
+   * Archive on the server to read instead of downloading one, for the archive
+   * strategy. Only set by tests, to read a local archive fixture.
+   */
+  archivePath?: string;
+}
+
+export interface RepoProvider {
+  id: RepoProviderId;
+  /** Human readable name used in error messages. */
+  label: string;
+  /** The resolved API base URL requests are sent to, without a trailing slash. */
+  apiBaseUrl: string;
+  /** Lists every repository of the owner, following pagination. */
+  listRepos(owner: string, options?: ListReposOptions): Promise<RepoSummary[]>;
+  listRefs(owner: string, repo: string): Promise<RepoRefs>;
+  /** Resolves the tree at `ref`, which may be a branch, tag or commit SHA. Defaults to the default branch. */
+  getTree(owner: string, repo: string, ref?: string): Promise<RepoTree>;
+  getFileContent(owner: string, repo: string, ref: string, entry: RepoTreeEntry): Promise<string | null>;
+  /** Checks whether a repository has a README, for hosts whose listing does not tell. */
+  hasReadme?(owner: string, repo: string): Promise<boolean>;
+  /** Reads what the host knows about a repository beyond its files: license, topics, languages, releases and counts. */
+  getMetadata?(owner: string, repo: string): Promise<RepoMetadata>;
+  /** Downloads a .tar.gz archive of the repository at `ref`, or the default branch. Only some hosts support this. */
+  downloadArchive?(owner: string, repo: string, ref?: string): Promise<RepoArchive>;
+}
@@ -1,16 +1,238 @@
-
 'use server';
 
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { cookies } from 'next/headers';
 import { generateReadme } from '@/ai/flows/generate-readme';
-import type { GenerateReadmeInput } from '@/ai/flows/readme.types';
+import type { GenerateReadmeInput, GenerateReadmeOutput, RepoProviderId } from '@/ai/flows/readme.types';
+import { getRepoProvider } from '@/ai/providers';
+import { extractArchive, isSupportedArchive } from '@/ai/providers/archive';
+import { githubApiUrl, runWithGitHubCredentials } from '@/ai/providers/github-auth';
+import { GitHubRateLimitError } from '@/ai/providers/github-client';
+import { parseGitHubUrl, resolveRefAndPath, type ParsedGitHubUrl } from '@/ai/providers/github-url';
+import { MAX_README_CHECKS, type ListReposOptions, type RepoRefs, type RepoSummary } from '@/ai/providers/types';
+import { isGitHubOAuthConfigured } from '@/lib/auth/github-oauth';
+import { getSession, SESSION_COOKIE, toSessionUser, type SessionUser } from '@/lib/auth/session';
+
+export interface ActionResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  /** ISO timestamp at which an exhausted GitHub rate limit resets. */
+  rateLimitResetAt?: string;
+}
+
+/**
+ * Turns an error into a failed action result. Rate limit errors carry the
+ * reset time so the UI can tell the user when to try again.
+ */
+function errorResult(error: unknown, fallback: string): ActionResult<never> {
+  const errorMessage = error instanceof Error ? error.message : fallback;
+  if (error instanceof GitHubRateLimitError) {
+    return { success: false, error: errorMessage, rateLimitResetAt: error.resetAt.toISOString() };
+  }
+  return { success: false, error: errorMessage };
+}
+
+/**
+ * Runs provider calls with the signed-in user's GitHub token, so their private
+ * repositories are visible. The token stays on the server: it is read from
+ * the session cookie here and never returned to the browser or passed to a flow.
+ */
+async function asSignedInUser<T>(fn: () => Promise<T>): Promise<T> {
+  const session = await getSession();
+  const credentials = session ? { token: session.githubToken, apiUrl: githubApiUrl(), login: session.login } : undefined;
+  return runWithGitHubCredentials(credentials, fn);
+}
+
+export interface AuthState {
+  /** Whether GitHub sign-in is configured on the server. */
+  enabled: boolean;
+  user: SessionUser | null;
+}
+
+export async function handleGetAuthState(): Promise<ActionResult<AuthState>> {
+  try {
+    const session = await getSession();
+    return { success: true, data: { enabled: isGitHubOAuthConfigured(), user: session ? toSessionUser(session) : null } };
+  } catch (error) {
+    console.error('Error reading the session:', error);
+    return errorResult(error, 'An unknown error occurred while reading the session.');
+  }
+}
+
+export async function handleSignOut(): Promise<ActionResult<null>> {
+  (await cookies()).delete(SESSION_COOKIE);
+  return { success: true, data: null };
+}
+
+/**
+ * Provider options built from what the browser may choose. Server-only options
+ * such as local and archive paths must never come from a request.
+ */
+function clientProviderOptions(apiBaseUrl: string | undefined) {
+  return { apiBaseUrl: typeof apiBaseUrl === 'string' && apiBaseUrl ? apiBaseUrl : undefined };
+}
+
+export async function handleListRepos(
+  provider: RepoProviderId,
+  owner: string,
+  apiBaseUrl?: string,
+  listOptions: ListReposOptions = {}
+): Promise<ActionResult<RepoSummary[]>> {
+  try {
+    const repos = await asSignedInUser(() => getRepoProvider(provider, clientProviderOptions(apiBaseUrl)).listRepos(owner, listOptions));
+    return { success: true, data: repos };
+  } catch (error) {
+    console.error('Error listing repositories:', error);
+    return errorResult(error, 'An unknown error occurred while fetching repositories.');
+  }
+}
+
+export async function handleListRefs(provider: RepoProviderId, owner: string, repo: string, apiBaseUrl?: string): Promise<ActionResult<RepoRefs>> {
+  try {
+    const refs = await asSignedInUser(() => getRepoProvider(provider, clientProviderOptions(apiBaseUrl)).listRefs(owner, repo));
+    return { success: true, data: refs };
+  } catch (error) {
+    console.error('Error listing branches and tags:', error);
+    return errorResult(error, 'An unknown error occurred while fetching branches and tags.');
+  }
+}
 
-export async function handleGenerateReadme(input: GenerateReadmeInput) {
+export interface ResolvedGitHubUrl {
+  owner: string;
+  repo: string;
+  apiBaseUrl?: string;
+  ref?: string;
+  /** The subdirectory the URL points into, if any. */
+  path?: string;
+  refs: RepoRefs;
+}
+
+/** The GitHub Enterprise Server whose URLs are accepted: the one GITHUB_API_URL points at, if any. */
+function enterpriseApiUrls(): string[] {
+  const apiUrl = githubApiUrl();
+  return new URL(apiUrl).host.toLowerCase() === 'api.github.com' ? [] : [apiUrl];
+}
+
+/**
+ * Parses a pasted GitHub URL and checks it against the repository: the
+ * repository must exist, and its branches and tags are used to tell a ref
+ * containing slashes apart from the subdirectory that follows it.
+ */
+export async function handleResolveGitHubUrl(url: string): Promise<ActionResult<ResolvedGitHubUrl>> {
+  let parsed: ParsedGitHubUrl | null;
+  try {
+    parsed = parseGitHubUrl(url, enterpriseApiUrls());
+  } catch (error) {
+    return errorResult(error, 'Please enter a GitHub repository URL.');
+  }
+  if (!parsed) {
+    return { success: false, error: 'Please enter a valid GitHub repository URL, e.g. https://github.com/owner/repo/tree/main/docs.' };
+  }
+  try {
+    const refs = await asSignedInUser(() => getRepoProvider('github', { apiBaseUrl: parsed.apiBaseUrl }).listRefs(parsed.owner, parsed.repo));
+    const { ref, path: subdirectory } = resolveRefAndPath(parsed, [...refs.branches, ...refs.tags]);
+    return {
+      success: true,
+      data: { owner: parsed.owner, repo: parsed.repo, apiBaseUrl: parsed.apiBaseUrl, ref, path: subdirectory, refs },
+    };
+  } catch (error) {
+    console.error('Error resolving GitHub URL:', error);
+    return errorResult(error, 'An unknown error occurred while resolving the repository URL.');
+  }
+}
+
+/** Repositories checked for a README at the same time. */
+const README_CHECK_CONCURRENCY = 8;
+
+/**
+ * Checks which of the given repositories have a README, for hosts whose
+ * repository listing does not say. Returns a map from repository name to
+ * whether it has one. At most MAX_README_CHECKS repositories are checked per
+ * call.
+ */
+export async function handleCheckReadmes(
+  provider: RepoProviderId,
+  owner: string,
+  repoNames: string[],
+  apiBaseUrl?: string
+): Promise<ActionResult<Record<string, boolean>>> {
+  if (!Array.isArray(repoNames) || repoNames.length > MAX_README_CHECKS) {
+    return { success: false, error: `Please check at most ${MAX_README_CHECKS} repositories for a README at a time.` };
+  }
   try {
-    const result = await generateReadme(input);
+    const repoProvider = getRepoProvider(provider, clientProviderOptions(apiBaseUrl));
+    if (!repoProvider.hasReadme) {
+      return { success: false, error: `Checking for READMEs is not supported for ${repoProvider.label}.` };
+    }
+    const results: Record<string, boolean> = {};
+    await asSignedInUser(async () => {
+      for (let i = 0; i < repoNames.length; i += README_CHECK_CONCURRENCY) {
+        await Promise.all(repoNames.slice(i, i + README_CHECK_CONCURRENCY).map(async repo => {
+          results[repo] = await repoProvider.hasReadme!(owner, repo);
+        }));
+      }
+    });
+    return { success: true, data: results };
+  } catch (error) {
+    console.error('Error checking for READMEs:', error);
+    return errorResult(error, 'An unknown error occurred while checking for READMEs.');
+  }
+}
+
+export async function handleGenerateReadme(input: GenerateReadmeInput): Promise<ActionResult<GenerateReadmeOutput>> {
+  // Arbitrary server paths must never be readable from the browser; uploads go
+  // through handleGenerateReadmeFromArchive instead.
+  if (input.provider === 'local') {
+    return { success: false, error: 'Local directories can only be used server-side. Please upload an archive instead.' };
+  }
+  try {
+    // Local paths are likewise server-only, whatever provider the request names.
+    const result = await asSignedInUser(() => generateReadme({ ...input, localPath: undefined, localName: undefined }));
     return { success: true, data: result };
   } catch (error) {
     console.error('Error generating README:', error);
-    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred during README generation.';
-    return { success: false, error: errorMessage };
+    return errorResult(error, 'An unknown error occurred during README generation.');
+  }
+}
+
+/**
+ * Generates a README from an uploaded .zip or .tar.gz archive. Expects the
+ * archive under "archive", the prompt under "prompt" and optionally the
+ * generation mode under "mode" and the token budget under "tokenBudget" in
+ * the form data.
+ */
+export async function handleGenerateReadmeFromArchive(formData: FormData): Promise<ActionResult<GenerateReadmeOutput>> {
+  const archive = formData.get('archive');
+  const prompt = formData.get('prompt');
+  const mode = formData.get('mode') === 'monorepo' ? 'monorepo' : 'single';
+  const tokenBudget = Number(formData.get('tokenBudget')) || undefined;
+  if (!(archive instanceof File) || !isSupportedArchive(archive.name)) {
+    return { success: false, error: 'Please upload a .zip or .tar.gz archive.' };
+  }
+
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'reporefine-'));
+  try {
+    await extractArchive(Buffer.from(await archive.arrayBuffer()), archive.name, workDir);
+    const result = await generateReadme({
+      provider: 'local',
+      localPath: workDir,
+      localName: archive.name,
+      userName: 'local',
+      repoName: archive.name.replace(/\.(zip|tar\.gz|tgz)$/i, ''),
+      repoDescription: 'No description provided.',
+      prompt: typeof prompt === 'string' ? prompt : '',
+      mode,
+      tokenBudget,
+      fetchStrategy: 'api',
+    });
+    return { success: true, data: result };
+  } catch (error) {
+    console.error('Error generating README from archive:', error);
+    return errorResult(error, 'An unknown error occurred during README generation.');
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
   }
 }
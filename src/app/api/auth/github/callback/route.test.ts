@@ -0,0 +1,76 @@
+/**
+ * Runs the GitHub OAuth callback against the Firebase Auth emulator. GitHub
+ * itself is stubbed, while the Firebase sign-in goes to the emulator for real.
+ * Start the emulator with `firebase emulators:start --only auth --project
+ * demo-reporefine`, then run `npm run test:auth-emulator`. The test is skipped
+ * when FIREBASE_AUTH_EMULATOR_HOST is not set.
+ */
+
+import assert from 'node:assert/strict';
+import {after, before, describe, mock, test} from 'node:test';
+import {NextRequest} from 'next/server';
+import {OAUTH_STATE_COOKIE} from '@/lib/auth/github-oauth';
+import {SESSION_COOKIE, unsealSession} from '@/lib/auth/session';
+import {GET} from './route';
+
+const GITHUB_OAUTH_URL = 'https://github.test';
+const GITHUB_API_URL = 'https://api.github.test';
+const GITHUB_USER = { id: 4242, login: 'octo-emulator', name: 'Octo Emulator', email: 'octo@example.com', avatar_url: null };
+
+/** Answers the GitHub OAuth and API requests; everything else, i.e. the emulator, is fetched for real. */
+function stubGitHub() {
+  const realFetch = globalThis.fetch;
+  return mock.method(globalThis, 'fetch', async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (url === `${GITHUB_OAUTH_URL}/login/oauth/access_token`) {
+      return Response.json({ access_token: 'gho_emulator' });
+    }
+    if (url === `${GITHUB_API_URL}/user`) {
+      return Response.json(GITHUB_USER);
+    }
+    return realFetch(input, init);
+  });
+}
+
+function callback(state = 'state-123') {
+  return GET(new NextRequest(`http://localhost:9002/api/auth/github/callback?code=code-123&state=${state}`, {
+    headers: { cookie: `${OAUTH_STATE_COOKIE}=state-123` },
+  }));
+}
+
+describe('GitHub OAuth callback', { skip: !process.env.FIREBASE_AUTH_EMULATOR_HOST && 'FIREBASE_AUTH_EMULATOR_HOST is not set' }, () => {
+  const saved = { ...process.env };
+  before(() => {
+    Object.assign(process.env, {
+      GITHUB_OAUTH_CLIENT_ID: 'client-id',
+      GITHUB_OAUTH_CLIENT_SECRET: 'client-secret',
+      GITHUB_OAUTH_URL,
+      GITHUB_API_URL,
+      SESSION_SECRET: 'an-emulator-session-secret-of-32-chars',
+    });
+    stubGitHub();
+  });
+  after(() => {
+    mock.restoreAll();
+    process.env = { ...saved };
+  });
+
+  test('signs the GitHub user in to Firebase and stores the session', async () => {
+    const response = await callback();
+    assert.equal(response.headers.get('location'), 'http://localhost:9002/');
+    const session = unsealSession(response.cookies.get(SESSION_COOKIE)?.value ?? '');
+    assert.ok(session?.uid);
+    assert.equal(session.login, GITHUB_USER.login);
+    assert.equal(session.githubToken, 'gho_emulator');
+
+    // Signing in again finds the Firebase user linked to the GitHub account.
+    const again = unsealSession((await callback()).cookies.get(SESSION_COOKIE)?.value ?? '');
+    assert.equal(again?.uid, session.uid);
+  });
+
+  test('rejects a state that does not match the cookie', async () => {
+    const response = await callback('forged');
+    assert.match(response.headers.get('location') ?? '', /auth_error=/);
+    assert.equal(response.cookies.get(SESSION_COOKIE), undefined);
+  });
+});
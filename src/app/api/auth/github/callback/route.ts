@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { signInToFirebaseWithGitHub } from '@/lib/auth/firebase-auth';
+import { exchangeCodeForToken, fetchGitHubProfile, OAUTH_STATE_COOKIE } from '@/lib/auth/github-oauth';
+import { sealSession, SESSION_COOKIE, SESSION_TTL_MS } from '@/lib/auth/session';
+
+function failed(request: NextRequest, message: string) {
+  const response = NextResponse.redirect(new URL(`/?auth_error=${encodeURIComponent(message)}`, request.url));
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/github' });
+  return response;
+}
+
+/**
+ * Completes the GitHub OAuth flow: checks the state, exchanges the code for a
+ * token, signs the user in to Firebase Auth and stores the session cookie.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  if (searchParams.get('error')) {
+    return failed(request, searchParams.get('error_description') || 'GitHub sign-in was cancelled.');
+  }
+  if (!code || !state || state !== request.cookies.get(OAUTH_STATE_COOKIE)?.value) {
+    return failed(request, 'GitHub sign-in expired or was started elsewhere. Please try again.');
+  }
+
+  try {
+    const redirectUri = new URL('/api/auth/github/callback', request.url).toString();
+    const githubToken = await exchangeCodeForToken(code, redirectUri);
+    const profile = await fetchGitHubProfile(githubToken);
+    const { uid } = await signInToFirebaseWithGitHub(githubToken, profile, redirectUri);
+
+    const expiresAt = Date.now() + SESSION_TTL_MS;
+    const session = sealSession({ uid, login: profile.login, name: profile.name, avatarUrl: profile.avatarUrl, githubToken, expiresAt });
+    const response = NextResponse.redirect(new URL('/', request.url));
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/github' });
+    response.cookies.set(SESSION_COOKIE, session, {
+      httpOnly: true,
+      secure: request.nextUrl.protocol === 'https:',
+      sameSite: 'lax',
+      path: '/',
+      expires: new Date(expiresAt),
+    });
+    return response;
+  } catch (error) {
+    console.error('Error signing in with GitHub:', error);
+    return failed(request, error instanceof Error ? error.message : 'An unknown error occurred during GitHub sign-in.');
+  }
+}
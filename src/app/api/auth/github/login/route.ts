@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createOAuthState, githubAuthorizeUrl, isGitHubOAuthConfigured, OAUTH_STATE_COOKIE } from '@/lib/auth/github-oauth';
+
+/** How long the user has to complete the authorization on GitHub. */
+const STATE_TTL_SECONDS = 10 * 60;
+
+/** Starts the GitHub OAuth flow by redirecting to GitHub's authorize page. */
+export async function GET(request: NextRequest) {
+  if (!isGitHubOAuthConfigured()) {
+    return NextResponse.redirect(new URL('/?auth_error=GitHub%20sign-in%20is%20not%20configured.', request.url));
+  }
+  const state = createOAuthState();
+  const redirectUri = new URL('/api/auth/github/callback', request.url).toString();
+  const response = NextResponse.redirect(githubAuthorizeUrl(state, redirectUri));
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: request.nextUrl.protocol === 'https:',
+    sameSite: 'lax',
+    path: '/api/auth/github',
+    maxAge: STATE_TTL_SECONDS,
+  });
+  return response;
+}
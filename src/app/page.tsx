@@ -1,75 +1,314 @@
 
 "use client";
 
-import { useState, useTransition } from "react";
-import { Github, Sparkles, Copy, Loader2, FileText, Eye } from "lucide-react";
-import { handleGenerateReadme } from "@/app/actions";
-import type { GenerateReadmeInput } from "@/ai/flows/readme.types";
+import { useEffect, useState, useTransition } from "react";
+import { Github, Sparkles, Copy, Loader2, FileText, Eye, TriangleAlert, LogIn, LogOut } from "lucide-react";
+import { handleCheckReadmes, handleGenerateReadme, handleGenerateReadmeFromArchive, handleGetAuthState, handleListRefs, handleListRepos, handleResolveGitHubUrl, handleSignOut, type ActionResult, type AuthState } from "@/app/actions";
+import { DEFAULT_TOKEN_BUDGET, type FetchStrategy, type GenerateReadmeInput, type GenerateReadmeOutput, type IncludedFile, type OmittedPackage, type PackageReadme, type RepoProviderId } from "@/ai/flows/readme.types";
+import { MAX_README_CHECKS, type RepoOwnerType, type RepoRefs, type RepoSummary } from "@/ai/providers/types";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
-interface Repo {
-  name: string;
-  description: string | null;
+const providerOptions: { value: RepoProviderId; label: string; apiBaseUrlPlaceholder: string }[] = [
+  { value: "github", label: "GitHub", apiBaseUrlPlaceholder: "https://api.github.com" },
+  { value: "gitlab", label: "GitLab", apiBaseUrlPlaceholder: "https://gitlab.com/api/v4" },
+  { value: "bitbucket", label: "Bitbucket Cloud", apiBaseUrlPlaceholder: "https://api.bitbucket.org/2.0" },
+  { value: "bitbucket-server", label: "Bitbucket Server", apiBaseUrlPlaceholder: "https://bitbucket.example.com/rest/api/1.0" },
+  { value: "local", label: "Archive Upload", apiBaseUrlPlaceholder: "" },
+];
+
+/** Radix Select items cannot have an empty value, so the default branch uses a sentinel. */
+const DEFAULT_REF = "__default__";
+/** Sentinel for the root README when a monorepo also has package READMEs. */
+const ROOT_README = "__root__";
+/** Sentinel for not filtering repositories by language. */
+const ANY_LANGUAGE = "__any__";
+/** Hosts that can list the repositories of an organization (a group on GitLab). */
+const ORG_PROVIDERS: RepoProviderId[] = ["github", "gitlab"];
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Describes a failed action, telling the user when to retry if a rate limit was hit. */
+function errorMessage(result: ActionResult<unknown>, fallback: string): string {
+  if (result.rateLimitResetAt) {
+    const resetAt = new Date(result.rateLimitResetAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    return `GitHub API rate limit reached. Please try again after ${resetAt}.`;
+  }
+  return result.error || fallback;
 }
 
 export default function Home() {
   const [isFetchingRepos, startFetchingRepos] = useTransition();
   const [isGenerating, startGenerating] = useTransition();
+  const [isFetchingRefs, startFetchingRefs] = useTransition();
+  const [isCheckingReadmes, startCheckingReadmes] = useTransition();
+  const [isResolvingUrl, startResolvingUrl] = useTransition();
+  const [isSigningOut, startSigningOut] = useTransition();
 
+  const [provider, setProvider] = useState<RepoProviderId>("github");
+  const [apiBaseUrl, setApiBaseUrl] = useState("");
+  const [repoUrl, setRepoUrl] = useState("");
+  const [subdirectory, setSubdirectory] = useState("");
   const [username, setUsername] = useState("");
-  const [repos, setRepos] = useState<Repo[]>([]);
+  const [ownerType, setOwnerType] = useState<RepoOwnerType>("user");
+  const [repos, setRepos] = useState<RepoSummary[]>([]);
+  const [repoSearch, setRepoSearch] = useState("");
+  const [hideForks, setHideForks] = useState(false);
+  const [hideArchived, setHideArchived] = useState(false);
+  const [languageFilter, setLanguageFilter] = useState(ANY_LANGUAGE);
+  const [withoutReadmeOnly, setWithoutReadmeOnly] = useState(false);
   const [selectedRepoName, setSelectedRepoName] = useState("");
+  const [refs, setRefs] = useState<RepoRefs | null>(null);
+  const [selectedRef, setSelectedRef] = useState(DEFAULT_REF);
+  const [commitSha, setCommitSha] = useState("");
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
   const [prompt, setPrompt] = useState("Make the README for a modern web application. The tone should be professional but friendly. Emphasize the 'Getting Started' section to make it easy for new contributors.");
   const [readme, setReadme] = useState("");
+  const [isMonorepo, setIsMonorepo] = useState(false);
+  const [tokenBudget, setTokenBudget] = useState(DEFAULT_TOKEN_BUDGET);
+  const [fetchStrategy, setFetchStrategy] = useState<FetchStrategy>("api");
+  const [includedFiles, setIncludedFiles] = useState<IncludedFile[]>([]);
+  const [treeSampled, setTreeSampled] = useState(false);
+  const [packageReadmes, setPackageReadmes] = useState<PackageReadme[]>([]);
+  const [omittedPackages, setOmittedPackages] = useState<OmittedPackage[]>([]);
+  const [activeReadmePath, setActiveReadmePath] = useState(ROOT_README);
   const [error, setError] = useState<string | null>(null);
+  const [authState, setAuthState] = useState<AuthState | null>(null);
 
   const { toast } = useToast();
 
+  useEffect(() => {
+    // The OAuth callback reports failures through the query string, which is cleared once shown.
+    const params = new URLSearchParams(window.location.search);
+    const authError = params.get("auth_error");
+    if (authError) {
+      setError(authError);
+      params.delete("auth_error");
+      const query = params.toString();
+      window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+    }
+
+    handleGetAuthState().then(result => {
+      if (!result.success || !result.data) return;
+      setAuthState(result.data);
+      const login = result.data.user?.login;
+      if (login) setUsername(current => current || login);
+    });
+  }, []);
+
+  const onSignOut = () => {
+    startSigningOut(async () => {
+      await handleSignOut();
+      setAuthState(state => state && { ...state, user: null });
+      setRepos([]);
+      setSelectedRepoName("");
+      setRefs(null);
+    });
+  };
+
+  const providerOption = providerOptions.find(option => option.value === provider) ?? providerOptions[0];
+  const providerLabel = providerOption.label;
+  const isArchiveUpload = provider === "local";
+  const activePackage = packageReadmes.find(pkg => pkg.path === activeReadmePath);
+  const activeReadme = activePackage ? activePackage.readmeContent : readme;
+
+  const setActiveReadme = (content: string) => {
+    if (activePackage) {
+      setPackageReadmes(packageReadmes.map(pkg => pkg.path === activePackage.path ? { ...pkg, readmeContent: content } : pkg));
+    } else {
+      setReadme(content);
+    }
+  };
+
+  const resetReadmes = () => {
+    setReadme("");
+    setPackageReadmes([]);
+    setOmittedPackages([]);
+    setActiveReadmePath(ROOT_README);
+    setIncludedFiles([]);
+    setTreeSampled(false);
+  };
+
+  const showResult = (result: ActionResult<GenerateReadmeOutput>) => {
+    if (result.success && result.data) {
+      setReadme(result.data.readmeContent);
+      setPackageReadmes(result.data.packageReadmes ?? []);
+      setOmittedPackages(result.data.omittedPackages ?? []);
+      setIncludedFiles(result.data.includedFiles ?? []);
+      setTreeSampled(!!result.data.treeSampled);
+    } else {
+      setError(errorMessage(result, "Failed to generate README."));
+      resetReadmes();
+    }
+  };
+  const canListOrgs = ORG_PROVIDERS.includes(provider);
+  const ownerLabel = provider === "bitbucket"
+    ? "Bitbucket Workspace"
+    : provider === "bitbucket-server"
+      ? "Bitbucket Project Key"
+      : isArchiveUpload
+        ? "Repository Archive"
+        : ownerType === "org"
+          ? `${providerLabel} ${provider === "gitlab" ? "Group" : "Organization"}`
+          : `${providerLabel} Username`;
+
+  const languages = [...new Set(repos.map(repo => repo.language).filter((language): language is string => !!language))].sort();
+  const filteredRepos = repos.filter(repo =>
+    repo.name.toLowerCase().includes(repoSearch.toLowerCase()) &&
+    !(hideForks && repo.fork) &&
+    !(hideArchived && repo.archived) &&
+    (languageFilter === ANY_LANGUAGE || repo.language === languageFilter) &&
+    !(withoutReadmeOnly && repo.hasReadme !== false)
+  );
+  const uncheckedReadmes = repos.filter(repo => repo.hasReadme === undefined).length;
+
+  const filterWithoutReadme = (enabled: boolean) => {
+    setWithoutReadmeOnly(enabled);
+    // The server checks a limited batch; the rest are checked when the filter is turned on again.
+    const unknown = repos.filter(repo => repo.hasReadme === undefined).map(repo => repo.name).slice(0, MAX_README_CHECKS);
+    if (!enabled || unknown.length === 0) return;
+
+    startCheckingReadmes(async () => {
+      const result = await handleCheckReadmes(provider, username, unknown, apiBaseUrl || undefined);
+      if (!result.success || !result.data) {
+        setError(errorMessage(result, "Failed to check which repositories have a README."));
+        setWithoutReadmeOnly(false);
+        return;
+      }
+      const hasReadme = result.data;
+      setRepos(current => current.map(repo => repo.name in hasReadme ? { ...repo, hasReadme: hasReadme[repo.name] } : repo));
+    });
+  };
+
   const fetchRepos = async () => {
     if (!username) {
-      setError("Please enter a GitHub username.");
+      setError(`Please enter a ${ownerLabel.toLowerCase()}.`);
+      return;
+    }
+    if (apiBaseUrl && !isValidUrl(apiBaseUrl)) {
+      setError("Please enter a valid API base URL.");
       return;
     }
     setError(null);
     setRepos([]);
+    setRepoSearch("");
+    setLanguageFilter(ANY_LANGUAGE);
+    setWithoutReadmeOnly(false);
+    setSubdirectory("");
     setSelectedRepoName("");
-    setReadme("");
+    setRefs(null);
+    setSelectedRef(DEFAULT_REF);
+    setCommitSha("");
+    resetReadmes();
 
     startFetchingRepos(async () => {
-      try {
-        const response = await fetch(`https://api.github.com/users/${username}/repos?sort=updated&direction=desc`);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch repositories. GitHub API returned ${response.status}.`);
-        }
-        const data = await response.json();
-        if (data.length === 0) {
-          setError("No public repositories found for this user.");
-          return;
-        }
-        setRepos(data.map((repo: any) => ({ name: repo.name, description: repo.description })));
-      } catch (e: any) {
-        setError(e.message);
+      const result = await handleListRepos(provider, username, apiBaseUrl || undefined, { ownerType: canListOrgs ? ownerType : "user" });
+      if (!result.success || !result.data) {
+        setError(errorMessage(result, "Failed to fetch repositories."));
         setRepos([]);
+        return;
+      }
+      if (result.data.length === 0) {
+        setError(`No repositories found for this ${ownerType === "org" && canListOrgs ? "organization" : "user"}.`);
+        return;
+      }
+      setRepos(result.data);
+    });
+  };
+
+  const applyRepoUrl = () => {
+    // The URL is validated on the server, which knows the configured GitHub Enterprise host.
+    setError(null);
+    resetReadmes();
+
+    startResolvingUrl(async () => {
+      const result = await handleResolveGitHubUrl(repoUrl);
+      if (!result.success || !result.data) {
+        setError(errorMessage(result, "Failed to resolve the repository URL."));
+        return;
+      }
+      const { owner, repo, apiBaseUrl: urlApiBaseUrl, ref, path, refs: urlRefs } = result.data;
+      const isKnownRef = !!ref && (urlRefs.branches.includes(ref) || urlRefs.tags.includes(ref));
+      setApiBaseUrl(urlApiBaseUrl ?? "");
+      setUsername(owner);
+      setRepos([{ name: repo, description: null }]);
+      setSelectedRepoName(repo);
+      setRefs(urlRefs);
+      setSelectedRef(isKnownRef ? ref : DEFAULT_REF);
+      setCommitSha(ref && !isKnownRef ? ref : "");
+      setSubdirectory(path ?? "");
+    });
+  };
+
+  const selectRepo = (repoName: string) => {
+    setSubdirectory("");
+    setSelectedRepoName(repoName);
+    setRefs(null);
+    setSelectedRef(DEFAULT_REF);
+    setCommitSha("");
+
+    startFetchingRefs(async () => {
+      const result = await handleListRefs(provider, username, repoName, apiBaseUrl || undefined);
+      if (result.success && result.data) {
+        setRefs(result.data);
+      } else {
+        setError(errorMessage(result, "Failed to fetch branches and tags."));
       }
     });
   };
 
+  const generateFromArchive = () => {
+    if (!archiveFile) {
+      setError("Please choose a .zip or .tar.gz archive.");
+      return;
+    }
+    setError(null);
+    resetReadmes();
+
+    startGenerating(async () => {
+      const formData = new FormData();
+      formData.append("archive", archiveFile);
+      formData.append("prompt", prompt);
+      formData.append("mode", isMonorepo ? "monorepo" : "single");
+      formData.append("tokenBudget", String(tokenBudget));
+
+      const result = await handleGenerateReadmeFromArchive(formData);
+
+      showResult(result);
+    });
+  };
+
   const generateReadmeAction = async () => {
+    if (provider === "local") {
+      generateFromArchive();
+      return;
+    }
     if (!selectedRepoName) {
       setError("Please select a repository.");
       return;
     }
     setError(null);
-    setReadme("");
+    resetReadmes();
 
     startGenerating(async () => {
       const selectedRepo = repos.find(repo => repo.name === selectedRepoName);
@@ -79,26 +318,28 @@ export default function Home() {
       }
       
       const input: GenerateReadmeInput = {
+        provider,
+        apiBaseUrl: apiBaseUrl || undefined,
         repoName: selectedRepo.name,
         repoDescription: selectedRepo.description || "No description provided.",
         userName: username,
+        ref: commitSha || (selectedRef === DEFAULT_REF ? undefined : selectedRef),
+        path: subdirectory || undefined,
         prompt,
+        mode: isMonorepo ? "monorepo" : "single",
+        tokenBudget,
+        fetchStrategy,
       };
 
       const result = await handleGenerateReadme(input);
 
-      if (result.success && result.data) {
-        setReadme(result.data.readmeContent);
-      } else {
-        setError(result.error || "Failed to generate README.");
-        setReadme("");
-      }
+      showResult(result);
     });
   };
 
   const copyToClipboard = () => {
-    if (!readme) return;
-    navigator.clipboard.writeText(readme);
+    if (!activeReadme) return;
+    navigator.clipboard.writeText(activeReadme);
     toast({
       title: "Copied to clipboard!",
       description: "The README content has been copied.",
@@ -110,7 +351,33 @@ export default function Home() {
       <div className="mx-auto max-w-7xl">
         <header className="text-center mb-8">
           <h1 className="text-4xl sm:text-5xl font-bold font-headline text-primary mb-2">RepoRefine</h1>
-          <p className="text-lg text-muted-foreground">AI-powered READMEs for your GitHub repositories.</p>
+          <p className="text-lg text-muted-foreground">AI-powered READMEs for your GitHub, GitLab and Bitbucket repositories.</p>
+          {authState?.enabled && (
+            <div className="mt-4 flex items-center justify-center gap-3 text-sm">
+              {authState.user ? (
+                <>
+                  <Avatar className="h-6 w-6">
+                    {authState.user.avatarUrl && <AvatarImage src={authState.user.avatarUrl} alt="" />}
+                    <AvatarFallback>{authState.user.login.slice(0, 1).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <span className="text-muted-foreground">
+                    Signed in as <span className="font-medium text-foreground">{authState.user.name || authState.user.login}</span>
+                  </span>
+                  <Button variant="outline" size="sm" onClick={onSignOut} disabled={isSigningOut}>
+                    {isSigningOut ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+                    Sign out
+                  </Button>
+                </>
+              ) : (
+                <Button variant="outline" size="sm" asChild>
+                  <a href="/api/auth/github/login">
+                    <LogIn className="h-4 w-4" />
+                    Sign in with GitHub to access private repositories
+                  </a>
+                </Button>
+              )}
+            </div>
+          )}
         </header>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <Card>
@@ -119,44 +386,227 @@ export default function Home() {
                 <Github />
                 Configuration
               </CardTitle>
-              <CardDescription>Enter your GitHub details and a prompt to generate a README.</CardDescription>
+              <CardDescription>Enter your repository details and a prompt to generate a README.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-2">
-                <Label htmlFor="username">GitHub Username</Label>
+                <Label htmlFor={isArchiveUpload ? "archive" : "username"}>{ownerLabel}</Label>
                 <div className="flex gap-2">
-                  <Input 
-                    id="username" 
-                    placeholder="e.g., firebase" 
-                    value={username} 
-                    onChange={(e) => setUsername(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && fetchRepos()}
-                  />
-                  <Button onClick={fetchRepos} disabled={isFetchingRepos}>
-                    {isFetchingRepos ? <Loader2 className="animate-spin" /> : "Fetch Repos"}
-                  </Button>
+                  <Select
+                    value={provider}
+                    onValueChange={(value) => {
+                      setProvider(value as RepoProviderId);
+                      setRepos([]);
+                      setSelectedRepoName("");
+                      setRefs(null);
+                      setSelectedRef(DEFAULT_REF);
+                    }}
+                    disabled={isFetchingRepos || isGenerating}
+                  >
+                    <SelectTrigger className="w-44 shrink-0" aria-label="Repository host">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {providerOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isArchiveUpload ? (
+                    <Input
+                      id="archive"
+                      type="file"
+                      accept=".zip,.tar.gz,.tgz"
+                      onChange={(e) => setArchiveFile(e.target.files?.[0] ?? null)}
+                    />
+                  ) : (
+                    <>
+                      {canListOrgs && (
+                        <Select value={ownerType} onValueChange={(value) => setOwnerType(value as RepoOwnerType)}>
+                          <SelectTrigger className="w-36 shrink-0" aria-label="Owner type">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="user">User</SelectItem>
+                            <SelectItem value="org">{provider === "gitlab" ? "Group" : "Organization"}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Input 
+                        id="username" 
+                        placeholder="e.g., firebase" 
+                        value={username} 
+                        onChange={(e) => setUsername(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && fetchRepos()}
+                      />
+                      <Button onClick={fetchRepos} disabled={isFetchingRepos}>
+                        {isFetchingRepos ? <Loader2 className="animate-spin" /> : "Fetch Repos"}
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="repository">Repository</Label>
-                <Select
-                  value={selectedRepoName}
-                  onValueChange={setSelectedRepoName}
-                  disabled={repos.length === 0 || isFetchingRepos}
-                >
-                  <SelectTrigger id="repository">
-                    <SelectValue placeholder="Select a repository" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {repos.map((repo) => (
-                      <SelectItem key={repo.name} value={repo.name}>
-                        {repo.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              {provider === "github" && (
+                <div className="space-y-2">
+                  <Label htmlFor="repo-url">Repository URL</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="repo-url"
+                      placeholder="e.g., https://github.com/owner/repo/tree/main/packages/app"
+                      value={repoUrl}
+                      onChange={(e) => setRepoUrl(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && applyRepoUrl()}
+                    />
+                    <Button onClick={applyRepoUrl} disabled={isResolvingUrl || !repoUrl.trim()}>
+                      {isResolvingUrl ? <Loader2 className="animate-spin" /> : "Use URL"}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Paste a repository, branch or folder link instead of picking a repository below.</p>
+                </div>
+              )}
+
+              {!isArchiveUpload && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="api-base-url">API Base URL (optional)</Label>
+                    <Input
+                      id="api-base-url"
+                      placeholder={providerOption.apiBaseUrlPlaceholder}
+                      value={apiBaseUrl}
+                      onChange={(e) => setApiBaseUrl(e.target.value.trim())}
+                    />
+                    <p className="text-xs text-muted-foreground">For self-hosted instances such as GitHub Enterprise Server. Leave blank to use the server default.</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="repository">Repository</Label>
+                    {repos.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="flex gap-2">
+                          <Input
+                            aria-label="Search repositories"
+                            placeholder="Search repositories"
+                            value={repoSearch}
+                            onChange={(e) => setRepoSearch(e.target.value)}
+                          />
+                          <Select value={languageFilter} onValueChange={setLanguageFilter} disabled={languages.length === 0}>
+                            <SelectTrigger className="w-40 shrink-0" aria-label="Language">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ANY_LANGUAGE}>Any language</SelectItem>
+                              {languages.map((language) => (
+                                <SelectItem key={language} value={language}>
+                                  {language}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                          <label className="flex items-center gap-2">
+                            <Checkbox checked={hideForks} onCheckedChange={(checked) => setHideForks(checked === true)} />
+                            Hide forks
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <Checkbox checked={hideArchived} onCheckedChange={(checked) => setHideArchived(checked === true)} />
+                            Hide archived
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <Checkbox checked={withoutReadmeOnly} onCheckedChange={(checked) => filterWithoutReadme(checked === true)} disabled={isCheckingReadmes} />
+                            Without README only
+                            {isCheckingReadmes && <Loader2 className="size-4 animate-spin" />}
+                          </label>
+                        </div>
+                      </div>
+                    )}
+                    <Select
+                      value={selectedRepoName}
+                      onValueChange={selectRepo}
+                      disabled={repos.length === 0 || isFetchingRepos}
+                    >
+                      <SelectTrigger id="repository">
+                        <SelectValue placeholder="Select a repository" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {filteredRepos.map((repo) => (
+                          <SelectItem key={repo.name} value={repo.name}>
+                            {repo.name}{repo.private ? " (private)" : ""}{repo.fork ? " (fork)" : ""}{repo.archived ? " (archived)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {repos.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Showing {filteredRepos.length} of {repos.length} repositories.
+                        {withoutReadmeOnly && !isCheckingReadmes && uncheckedReadmes > 0 && ` ${uncheckedReadmes} were not checked for a README yet; turn the filter off and on again to check the next ${Math.min(uncheckedReadmes, MAX_README_CHECKS)}.`}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="ref">Branch or Tag</Label>
+                    <div className="flex gap-2">
+                      <Select
+                        value={selectedRef}
+                        onValueChange={setSelectedRef}
+                        disabled={!refs || isFetchingRefs || !!commitSha}
+                      >
+                        <SelectTrigger id="ref">
+                          <SelectValue placeholder="Default branch" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_REF}>
+                            Default branch{refs?.defaultBranch ? ` (${refs.defaultBranch})` : ""}
+                          </SelectItem>
+                          {refs && refs.branches.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Branches</SelectLabel>
+                              {refs.branches.map((branch) => (
+                                <SelectItem key={`branch:${branch}`} value={branch}>
+                                  {branch}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                          {refs && refs.tags.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Tags</SelectLabel>
+                              {refs.tags.map((tag) => (
+                                <SelectItem key={`tag:${tag}`} value={tag}>
+                                  {tag}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        aria-label="Commit SHA"
+                        placeholder="or commit SHA"
+                        value={commitSha}
+                        onChange={(e) => setCommitSha(e.target.value.trim())}
+                        disabled={!selectedRepoName}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="subdirectory">Subdirectory (optional)</Label>
+                    <Input
+                      id="subdirectory"
+                      placeholder="e.g., services/billing"
+                      value={subdirectory}
+                      onChange={(e) => setSubdirectory(e.target.value.trim())}
+                      disabled={!selectedRepoName}
+                    />
+                    <p className="text-xs text-muted-foreground">Generate a README for just this folder. The root manifest and license are still used as context.</p>
+                  </div>
+                </>
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="prompt">Prompt</Label>
@@ -169,7 +619,44 @@ export default function Home() {
                 />
               </div>
 
-              <Button onClick={generateReadmeAction} disabled={isGenerating || !selectedRepoName} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+              <div className="space-y-2">
+                <Label htmlFor="token-budget">Token Budget</Label>
+                <Input
+                  id="token-budget"
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={tokenBudget}
+                  onChange={(e) => setTokenBudget(Math.max(1000, Number(e.target.value) || DEFAULT_TOKEN_BUDGET))}
+                />
+                <p className="text-xs text-muted-foreground">Roughly how much repository content the most relevant files may use in the prompt.</p>
+              </div>
+
+              {!isArchiveUpload && (
+                <div className="space-y-2">
+                  <Label htmlFor="fetch-strategy">Fetch Strategy</Label>
+                  <Select value={fetchStrategy} onValueChange={(value) => setFetchStrategy(value as FetchStrategy)}>
+                    <SelectTrigger id="fetch-strategy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="api">Per-file API requests</SelectItem>
+                      <SelectItem value="archive">Repository archive download</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Downloading the archive uses a single request, which suits large repositories and tight rate limits.</p>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="monorepo">Monorepo mode</Label>
+                  <p className="text-xs text-muted-foreground">Detect workspace packages and generate a root overview plus one README per package.</p>
+                </div>
+                <Switch id="monorepo" checked={isMonorepo} onCheckedChange={setIsMonorepo} />
+              </div>
+
+              <Button onClick={generateReadmeAction} disabled={isGenerating || (isArchiveUpload ? !archiveFile : !selectedRepoName)} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
                 {isGenerating ? <Loader2 className="animate-spin" /> : <Sparkles className="mr-2" />}
                 Generate README
               </Button>
@@ -184,13 +671,46 @@ export default function Home() {
                   <FileText />
                   Generated README
                 </div>
-                <Button variant="ghost" size="icon" onClick={copyToClipboard} disabled={!readme} aria-label="Copy README content">
+                <Button variant="ghost" size="icon" onClick={copyToClipboard} disabled={!activeReadme} aria-label="Copy README content">
                   <Copy className="size-4" />
                 </Button>
               </CardTitle>
               <CardDescription>Preview, edit, and copy your generated README.</CardDescription>
             </CardHeader>
             <CardContent className="flex-grow flex flex-col">
+                {treeSampled && !isGenerating && (
+                    <Alert className="mb-2">
+                        <TriangleAlert className="size-4" />
+                        <AlertTitle>Repository structure was sampled</AlertTitle>
+                        <AlertDescription>
+                            This repository is too large to list completely, so only part of its file structure was analyzed. Review the README for missing sections.
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {omittedPackages.length > 0 && !isGenerating && (
+                    <Alert className="mb-2">
+                        <TriangleAlert className="size-4" />
+                        <AlertTitle>Not every package got a README</AlertTitle>
+                        <AlertDescription>
+                            Only {packageReadmes.length} package READMEs are generated per run, so these packages were left out: {omittedPackages.map(pkg => pkg.path).join(", ")}. Generate their READMEs by entering a package folder as the subdirectory.
+                        </AlertDescription>
+                    </Alert>
+                )}
+                {packageReadmes.length > 0 && (
+                    <Select value={activeReadmePath} onValueChange={setActiveReadmePath}>
+                        <SelectTrigger className="mb-2" aria-label="README to show">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ROOT_README}>README.md (root)</SelectItem>
+                            {packageReadmes.map((pkg) => (
+                                <SelectItem key={pkg.path} value={pkg.path}>
+                                    {pkg.path}/README.md ({pkg.name})
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
                 <Tabs defaultValue="edit" className="flex-grow flex flex-col">
                     <TabsList className="grid w-full grid-cols-2">
                         <TabsTrigger value="edit"><FileText className="mr-2"/> Edit</TabsTrigger>
@@ -210,15 +730,15 @@ export default function Home() {
                             <Textarea
                                 className="w-full h-full min-h-[400px] flex-grow font-code text-base resize-none mt-2"
                                 placeholder="Your generated README will be displayed here..."
-                                value={readme}
-                                onChange={(e) => setReadme(e.target.value)}
+                                value={activeReadme}
+                                onChange={(e) => setActiveReadme(e.target.value)}
                                 aria-label="README preview and editor"
                             />
                         </TabsContent>
                         <TabsContent value="preview" className="flex-grow mt-0">
                             <div className="w-full h-full min-h-[400px] mt-2 rounded-md border bg-background p-4 prose dark:prose-invert max-w-none prose-sm sm:prose-base focus:outline-none">
-                                {readme ? (
-                                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{readme}</ReactMarkdown>
+                                {activeReadme ? (
+                                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{activeReadme}</ReactMarkdown>
                                 ) : (
                                     <div className="flex items-center justify-center h-full text-muted-foreground">
                                         <p>Preview will appear here.</p>
@@ -229,6 +749,27 @@ export default function Home() {
                         </>
                     )}
                 </Tabs>
+                {includedFiles.length > 0 && !isGenerating && (
+                    <Collapsible className="mt-4">
+                        <CollapsibleTrigger asChild>
+                            <Button variant="ghost" size="sm" className="px-0 text-muted-foreground">
+                                Files used for generation ({includedFiles.length})
+                            </Button>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent>
+                            <ul className="max-h-48 overflow-y-auto rounded-md border p-2 font-code text-xs space-y-1">
+                                {includedFiles.map((file) => (
+                                    <li key={file.path} className="flex justify-between gap-2">
+                                        <span className="truncate">{file.path}</span>
+                                        <span className="shrink-0 text-muted-foreground">
+                                            ~{file.tokens} tokens{file.truncated ? ", truncated" : ""}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </CollapsibleContent>
+                    </Collapsible>
+                )}
             </CardContent>
           </Card>
         </div>
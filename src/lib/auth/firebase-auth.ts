@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Signs GitHub users in to Firebase Auth from the server.
+ *
+ * Once the GitHub OAuth flow has produced an access token, the user is signed
+ * in to Firebase Auth with it through the Identity Toolkit REST API, which
+ * creates or looks up the Firebase user linked to the GitHub account. Doing
+ * this server-side keeps the GitHub token out of the browser, where the
+ * Firebase client SDK would otherwise receive it.
+ *
+ * Uses the web API key in NEXT_PUBLIC_FIREBASE_API_KEY. When
+ * FIREBASE_AUTH_EMULATOR_HOST is set (e.g. `127.0.0.1:9099`), requests go to
+ * the Auth emulator instead. The emulator does not call GitHub and only
+ * accepts unsigned ID tokens, so one is built from the GitHub profile.
+ * `npm run test:auth-emulator` runs the OAuth callback against the emulator.
+ *
+ * - FirebaseUser - The signed-in Firebase user.
+ * - signInToFirebaseWithGitHub - Signs a GitHub user in to Firebase Auth.
+ */
+
+import type {GitHubProfile} from './github-oauth';
+
+export interface FirebaseUser {
+  uid: string;
+  /** Whether the Firebase user was created by this sign-in. */
+  isNewUser: boolean;
+}
+
+const IDENTITY_TOOLKIT_URL = 'https://identitytoolkit.googleapis.com/v1';
+/** The emulator accepts any API key. */
+const EMULATOR_API_KEY = 'fake-api-key';
+
+function identityToolkit(): { url: string; apiKey: string; emulated: boolean } {
+  const emulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  if (emulatorHost) {
+    return {
+      url: `http://${emulatorHost}/identitytoolkit.googleapis.com/v1`,
+      apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY || EMULATOR_API_KEY,
+      emulated: true,
+    };
+  }
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!apiKey) {
+    throw new Error('Firebase is not configured. Set NEXT_PUBLIC_FIREBASE_API_KEY.');
+  }
+  return { url: IDENTITY_TOOLKIT_URL, apiKey, emulated: false };
+}
+
+/** Builds the unsigned ID token the Auth emulator expects in place of a real IdP response. */
+function emulatorIdToken(profile: GitHubProfile): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const claims = {
+    sub: profile.id,
+    screen_name: profile.login,
+    name: profile.name ?? profile.login,
+    picture: profile.avatarUrl ?? undefined,
+    email: profile.email ?? undefined,
+    email_verified: Boolean(profile.email),
+  };
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;
+}
+
+export async function signInToFirebaseWithGitHub(accessToken: string, profile: GitHubProfile, requestUri: string): Promise<FirebaseUser> {
+  const { url, apiKey, emulated } = identityToolkit();
+  const postBody = new URLSearchParams({
+    providerId: 'github.com',
+    ...(emulated ? { id_token: emulatorIdToken(profile) } : { access_token: accessToken }),
+  });
+  const response = await fetch(`${url}/accounts:signInWithIdp?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ postBody: postBody.toString(), requestUri, returnSecureToken: true, returnIdpCredential: true }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.localId) {
+    throw new Error(`Firebase sign-in failed: ${data.error?.message || response.status}.`);
+  }
+  return { uid: data.localId, isNewUser: Boolean(data.isNewUser) };
+}
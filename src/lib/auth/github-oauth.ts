@@ -0,0 +1,104 @@
+/**
+ * @fileOverview The server side of the GitHub OAuth web flow.
+ *
+ * The app redirects to GitHub's authorize page with a random state, and
+ * GitHub redirects back with a code that is exchanged for an access token
+ * here, on the server, using the client secret. The token is only ever held
+ * server-side.
+ *
+ * Configured with GITHUB_OAUTH_CLIENT_ID and GITHUB_OAUTH_CLIENT_SECRET.
+ * GITHUB_OAUTH_URL overrides the https://github.com base of the authorize and
+ * token endpoints (e.g. for GitHub Enterprise Server or a local mock), and the
+ * profile is read from GITHUB_API_URL like every other GitHub request.
+ *
+ * - GitHubProfile - The signed-in user's GitHub profile.
+ * - OAUTH_STATE_COOKIE - The name of the cookie holding the OAuth state.
+ * - isGitHubOAuthConfigured - Whether the OAuth app is configured.
+ * - createOAuthState - Creates a random state for an authorize request.
+ * - githubAuthorizeUrl - Builds the URL of GitHub's authorize page.
+ * - exchangeCodeForToken - Exchanges an authorization code for an access token.
+ * - fetchGitHubProfile - Reads the profile of the token's user.
+ */
+
+import {randomBytes} from 'node:crypto';
+import {githubApiUrl} from '@/ai/providers/github-auth';
+
+export interface GitHubProfile {
+  /** The numeric GitHub user id, as a string. */
+  id: string;
+  login: string;
+  name: string | null;
+  email: string | null;
+  avatarUrl: string | null;
+}
+
+export const OAUTH_STATE_COOKIE = 'reporefine_oauth_state';
+
+const GITHUB_OAUTH_URL = 'https://github.com';
+/** Private repositories need `repo`; `read:org` lists private organization repositories. */
+const OAUTH_SCOPES = 'repo read:org';
+
+function oauthUrl(): string {
+  return (process.env.GITHUB_OAUTH_URL || GITHUB_OAUTH_URL).replace(/\/+$/, '');
+}
+
+function oauthClient(): { clientId: string; clientSecret: string } {
+  const clientId = process.env.GITHUB_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.GITHUB_OAUTH_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error('GitHub sign-in is not configured. Set GITHUB_OAUTH_CLIENT_ID and GITHUB_OAUTH_CLIENT_SECRET.');
+  }
+  return { clientId, clientSecret };
+}
+
+export function isGitHubOAuthConfigured(): boolean {
+  return Boolean(process.env.GITHUB_OAUTH_CLIENT_ID && process.env.GITHUB_OAUTH_CLIENT_SECRET);
+}
+
+export function createOAuthState(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function githubAuthorizeUrl(state: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    client_id: oauthClient().clientId,
+    redirect_uri: redirectUri,
+    scope: OAUTH_SCOPES,
+    state,
+    allow_signup: 'false',
+  });
+  return `${oauthUrl()}/login/oauth/authorize?${params}`;
+}
+
+export async function exchangeCodeForToken(code: string, redirectUri: string): Promise<string> {
+  const { clientId, clientSecret } = oauthClient();
+  const response = await fetch(`${oauthUrl()}/login/oauth/access_token`, {
+    method: 'POST',
+    headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ client_id: clientId, client_secret: clientSecret, code, redirect_uri: redirectUri }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to exchange the GitHub authorization code: ${response.status}.`);
+  }
+  // GitHub reports OAuth errors (e.g. an expired code) with a 200 response.
+  const data = await response.json();
+  if (!data.access_token) {
+    throw new Error(`GitHub sign-in failed: ${data.error_description || data.error || 'no access token was returned'}.`);
+  }
+  return data.access_token;
+}
+
+export async function fetchGitHubProfile(token: string): Promise<GitHubProfile> {
+  const response = await fetch(`${githubApiUrl()}/user`, {
+    headers: {
+      'Accept': 'application/vnd.github.v3+json',
+      'Authorization': `Bearer ${token}`,
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to read the GitHub profile: ${response.status}.`);
+  }
+  const user = await response.json();
+  return { id: String(user.id), login: user.login, name: user.name, email: user.email, avatarUrl: user.avatar_url };
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview The signed-in user's session, kept in an encrypted cookie.
+ *
+ * The session holds the user's GitHub token, which must never reach the
+ * browser. It is sealed with AES-256-GCM under a key derived from
+ * SESSION_SECRET and stored in an httpOnly cookie, so the browser can only
+ * send it back. Server code reads it with getSession; the browser only ever
+ * sees the public profile (see toSessionUser).
+ *
+ * - Session - The contents of a session.
+ * - SessionUser - The parts of a session that may be shown in the browser.
+ * - SESSION_COOKIE - The name of the session cookie.
+ * - sealSession - Encrypts a session into a cookie value.
+ * - unsealSession - Decrypts a cookie value, or returns null if it is invalid or expired.
+ * - getSession - Reads the session of the current request.
+ * - toSessionUser - Strips a session down to its public profile.
+ */
+
+import {createCipheriv, createDecipheriv, createHash, randomBytes} from 'node:crypto';
+import {cookies} from 'next/headers';
+
+export interface Session {
+  /** The Firebase Auth user id. */
+  uid: string;
+  login: string;
+  name: string | null;
+  avatarUrl: string | null;
+  githubToken: string;
+  /** Milliseconds since the epoch after which the session is no longer accepted. */
+  expiresAt: number;
+}
+
+export type SessionUser = Pick<Session, 'login' | 'name' | 'avatarUrl'>;
+
+export const SESSION_COOKIE = 'reporefine_session';
+/** How long a sign-in lasts. GitHub OAuth app tokens do not expire on their own. */
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+function sessionKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_SECRET must be set to at least 32 characters to sign in with GitHub.');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function sealSession(session: Session): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', sessionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(session), 'utf-8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+export function unsealSession(value: string): Session | null {
+  try {
+    const data = Buffer.from(value, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', sessionKey(), data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    const decrypted = Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+    const session: Session = JSON.parse(decrypted.toString('utf-8'));
+    return session.expiresAt > Date.now() ? session : null;
+  } catch {
+    // Tampered cookies, cookies sealed with a rotated secret and malformed values are all treated as signed out.
+    return null;
+  }
+}
+
+export async function getSession(): Promise<Session | null> {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  return value ? unsealSession(value) : null;
+}
+
+export function toSessionUser({ login, name, avatarUrl }: Session): SessionUser {
+  return { login, name, avatarUrl };
+}